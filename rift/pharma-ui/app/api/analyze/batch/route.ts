@@ -0,0 +1,5 @@
+import { proxyAnalysis } from "@/lib/proxy";
+
+export function POST(request: Request) {
+  return proxyAnalysis(request, "/analyze/batch");
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { forward, relay, requireSession } from "@/lib/proxy";
+import { canViewAudit } from "@/lib/roles";
+
+export async function GET(request: Request) {
+  const session = await requireSession(canViewAudit);
+  if (session instanceof NextResponse) return session;
+  const res = await forward(`/audit${new URL(request.url).search}`, { session, signal: request.signal });
+  return res.ok ? relay(res) : res;
+}
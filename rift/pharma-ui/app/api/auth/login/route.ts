@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { verifyLocalCredentials } from "@/lib/auth";
+import { landingPath } from "@/lib/roles";
+import { AuthConfigError, SESSION_COOKIE, sessionCookieOptions, signSession } from "@/lib/session";
+
+/** `POST {username, password, next?}`: local credential sign-in. Sets the session cookie. */
+export async function POST(request: Request) {
+  const body: unknown = await request.json().catch(() => null);
+  const { username, password, next } = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  if (typeof username !== "string" || typeof password !== "string" || !username.trim() || !password) {
+    return NextResponse.json({ detail: "Enter a username and password." }, { status: 400 });
+  }
+
+  try {
+    const user = await verifyLocalCredentials(username, password);
+    if (!user) return NextResponse.json({ detail: "Incorrect username or password." }, { status: 401 });
+    const { token } = await signSession(user);
+    const response = NextResponse.json({ user, redirect: landingPath(user.role, typeof next === "string" ? next : null, request.url) });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+    return response;
+  } catch (e) {
+    if (e instanceof AuthConfigError) return NextResponse.json({ detail: e.message }, { status: 503 });
+    throw e;
+  }
+}
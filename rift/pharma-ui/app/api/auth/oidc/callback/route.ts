@@ -0,0 +1,34 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { completeOidcLogin, decodeOidcState, OIDC_STATE_COOKIE, OidcError, oidcRedirectUri, oidcSettings } from "@/lib/oidc";
+import { landingPath } from "@/lib/roles";
+import { AuthConfigError, SESSION_COOKIE, sessionCookieOptions, signSession } from "@/lib/session";
+
+/** `GET ?code&state`: the issuer's redirect back. Exchanges the code and sets the session cookie. */
+export async function GET(request: Request) {
+  const settings = oidcSettings();
+  const url = new URL(request.url);
+  const fail = (code: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${code}`, url));
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: "/api/auth/oidc" });
+    return response;
+  };
+  if (!settings) return fail("sso_disabled");
+
+  const saved = decodeOidcState((await cookies()).get(OIDC_STATE_COOKIE)?.value);
+  try {
+    const user = await completeOidcLogin(settings, url.searchParams, saved, oidcRedirectUri(request));
+    const { token } = await signSession(user);
+    const response = NextResponse.redirect(new URL(landingPath(user.role, saved?.next, url.origin), url));
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: "/api/auth/oidc" });
+    return response;
+  } catch (e) {
+    if (e instanceof OidcError) {
+      console.error(`OIDC sign-in failed (${e.code}): ${e.message}`);
+      return fail(e.code);
+    }
+    if (e instanceof AuthConfigError) return fail("auth_not_configured");
+    throw e;
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { beginOidcLogin, encodeOidcState, OIDC_STATE_COOKIE, OIDC_STATE_TTL_SECONDS, OidcError, oidcRedirectUri, oidcSettings } from "@/lib/oidc";
+
+/** `GET ?next=`: starts SSO by redirecting to the issuer's authorization endpoint. */
+export async function GET(request: Request) {
+  const settings = oidcSettings();
+  const url = new URL(request.url);
+  if (!settings) return NextResponse.redirect(new URL("/login?error=sso_disabled", url));
+
+  try {
+    const { url: authorizeUrl, state } = await beginOidcLogin(settings, oidcRedirectUri(request), url.searchParams.get("next") || "");
+    const response = NextResponse.redirect(authorizeUrl);
+    response.cookies.set(OIDC_STATE_COOKIE, encodeOidcState(state), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/auth/oidc",
+      maxAge: OIDC_STATE_TTL_SECONDS,
+    });
+    return response;
+  } catch (e) {
+    return NextResponse.redirect(new URL(`/login?error=${e instanceof OidcError ? e.code : "sso_failed"}`, url));
+  }
+}
@@ -0,0 +1,12 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/lib/session";
+
+/** `GET`: the signed-in user. The token itself stays in the httpOnly cookie. 401 when signed out or expired. */
+export async function GET() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const session = await verifySession(token);
+  if (!session) return NextResponse.json({ detail: "Not signed in." }, { status: 401, headers: { "cache-control": "no-store" } });
+  const { iat, exp, ...user } = session;
+  return NextResponse.json({ user, issued_at: iat, expires_at: exp }, { headers: { "cache-control": "no-store" } });
+}
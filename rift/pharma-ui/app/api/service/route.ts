@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { forward, relay, requireSession } from "@/lib/proxy";
+
+/** The backend's supported drugs and genes (`GET /`), for any signed-in user. */
+export async function GET(request: Request) {
+  const session = await requireSession(() => true);
+  if (session instanceof NextResponse) return session;
+  const res = await forward("/", { session, signal: request.signal });
+  return res.ok ? relay(res) : res;
+}
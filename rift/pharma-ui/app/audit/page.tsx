@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import AuditLog from "@/components/AuditLog";
+import UserMenu from "@/components/UserMenu";
+import { type ClientSession, loadSession } from "@/lib/account";
+import { APP_BG, CYAN, NAVY, TEXT } from "@/lib/theme";
+
+export default function AuditPage() {
+  const [session, setSession] = useState<ClientSession | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSession(controller.signal)
+      .then((s) => (s ? setSession(s) : window.location.assign("/login?next=/audit")))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <div className="min-h-screen" style={{ background: APP_BG, color: TEXT }}>
+      <header className="sticky top-0 z-40 border-b border-[#0B3A63]" style={{ background: NAVY }}>
+        <div className="mx-auto flex w-full max-w-7xl items-center justify-between px-4 py-3 sm:px-6">
+          <div>
+            <h1 className="text-lg font-bold tracking-wide text-white">
+              Pharma<span style={{ color: CYAN }}>Guard</span>
+            </h1>
+            <p className="text-[11px] text-blue-100/90">Audit Trail</p>
+          </div>
+          <UserMenu session={session} />
+        </div>
+      </header>
+      <main className="mx-auto w-full max-w-7xl px-3 py-4 sm:px-6 sm:py-6">{session && <AuditLog />}</main>
+    </div>
+  );
+}
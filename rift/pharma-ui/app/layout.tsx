@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter, Geist_Mono } from "next/font/google";
+import ServiceWorker from "@/components/ServiceWorker";
+import { CONTRAST_SCRIPT } from "@/lib/contrast";
 import "./globals.css";
 
 const inter = Inter({
@@ -17,14 +19,25 @@ export const metadata: Metadata = {
   description: "Professional pharmacogenomic risk assessment dashboard",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#0F4C81",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
-      <body className={`${inter.variable} ${geistMono.variable} antialiased`}>{children}</body>
+    // The contrast script sets data-contrast before React hydrates.
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: CONTRAST_SCRIPT }} />
+      </head>
+      <body className={`${inter.variable} ${geistMono.variable} antialiased`}>
+        {children}
+        <ServiceWorker />
+      </body>
     </html>
   );
 }
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import LoginForm from "@/components/LoginForm";
+import { isLocalLoginEnabled } from "@/lib/auth";
+import { oidcSettings } from "@/lib/oidc";
+
+export const metadata: Metadata = {
+  title: "Sign in | PharmaGuard",
+};
+
+// Sign-in options come from the server environment, so read them per request.
+export const dynamic = "force-dynamic";
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+  const params = await searchParams;
+  const pick = (key: string) => (typeof params[key] === "string" ? params[key] : "");
+  const configured = (process.env.AUTH_SECRET || "").length >= 32;
+
+  return (
+    <LoginForm
+      configured={configured}
+      localEnabled={isLocalLoginEnabled()}
+      ssoEnabled={!!oidcSettings()}
+      ssoName={process.env.OIDC_DISPLAY_NAME || "single sign-on"}
+      error={pick("error")}
+      next={pick("next")}
+    />
+  );
+}
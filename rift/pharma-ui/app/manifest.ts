@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "PharmaGuard | Risk Assessment",
+    short_name: "PharmaGuard",
+    description: "Pharmacogenomic risk assessment with offline CPIC rules for the core drugs",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#F0F4F8",
+    theme_color: "#0F4C81",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
@@ -1,156 +1,74 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-
-type Tone = "safe" | "adjust" | "toxic" | "unknown";
-
-type SingleResult = {
-  patient_id?: string;
-  drug?: string;
-  timestamp?: string;
-  risk_assessment?: { risk_label?: string; severity?: string; confidence_score?: number };
-  pharmacogenomic_profile?: {
-    primary_gene?: string;
-    phenotype?: string;
-    diplotype?: string;
-    detected_variants?: Array<{ rsid?: string; gene?: string; allele?: string; function?: string; genotype?: string }>;
-  };
-  clinical_recommendation?: { action?: string; guideline_source?: string };
-  llm_generated_explanation?: {
-    summary?: string;
-    mechanism?: string;
-    recommendation?: string;
-    citations?: Array<{ rsid?: string; gene?: string; dbSNP_url?: string }>;
-    variant_citations?: Array<{ rsid?: string; gene?: string; dbSNP_url?: string }>;
-  };
-  quality_metrics?: {
-    total_variants_analyzed?: number;
-    variants_detected?: number;
-    vcf_parsing_success?: boolean;
-  };
-};
-
-type BatchResult = {
-  patient_id?: string;
-  timestamp?: string;
-  drugs_analyzed?: string[];
-  polypharmacy_warnings?: Array<{ warning?: string; clinical_note?: string }>;
-  llm_explanations?: Record<string, { summary?: string; mechanism?: string; recommendation?: string }>;
-  results?: Record<
-    string,
-    {
-      risk_label?: string;
-      severity?: string;
-      confidence_score?: number;
-      gene?: string;
-      phenotype?: string;
-      diplotype?: string;
-      recommendation?: string;
-    }
-  >;
-};
-
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-const APP_BG = "#F0F4F8";
-const CARD_BG = "#FFFFFF";
-const NAVY = "#0F4C81";
-const CYAN = "#00B4D8";
-const SAFE = "#10B981";
-const ADJUST = "#F59E0B";
-const TOXIC = "#EF4444";
-const TEXT = "#1E293B";
-const MUTED = "#64748B";
-
-const CORE_DRUGS = ["CODEINE", "WARFARIN", "CLOPIDOGREL", "SIMVASTATIN", "AZATHIOPRINE", "FLUOROURACIL"];
-const EXTRA_DRUGS = ["OMEPRAZOLE", "FLUOXETINE", "PAROXETINE", "RISPERIDONE", "IBUPROFEN"];
-const DRUG_OPTIONS = [...new Set([...CORE_DRUGS, ...EXTRA_DRUGS])];
-const CORE_GENES = ["CYP2D6", "CYP2C19", "CYP2C9", "SLCO1B1", "TPMT", "DPYD"];
-const DRUG_PRIMARY_GENE: Record<string, string> = {
-  CODEINE: "CYP2D6",
-  WARFARIN: "CYP2C9",
-  CLOPIDOGREL: "CYP2C19",
-  SIMVASTATIN: "SLCO1B1",
-  AZATHIOPRINE: "TPMT",
-  FLUOROURACIL: "DPYD",
-  FLUOXETINE: "CYP2D6",
-  PAROXETINE: "CYP2D6",
-  RISPERIDONE: "CYP2D6",
-  IBUPROFEN: "CYP2C9",
-  OMEPRAZOLE: "CYP2C19",
-};
-const LOADING_STEPS = [
-  "Parsing VCF...",
-  "Identifying 6 Critical Genes...",
-  "Running AI Confidence Scoring...",
-];
-
-function formatBytes(bytes: number) {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
-}
-
-function toneFor(label?: string): Tone {
-  const v = (label || "").toLowerCase();
-  if (v === "safe") return "safe";
-  if (v.includes("adjust")) return "adjust";
-  if (v.includes("toxic") || v.includes("ineffective")) return "toxic";
-  return "unknown";
-}
-
-function riskColor(label?: string) {
-  const tone = toneFor(label);
-  if (tone === "safe") return SAFE;
-  if (tone === "adjust") return ADJUST;
-  if (tone === "toxic") return TOXIC;
-  return MUTED;
-}
-
-function riskBadgeStyle(label?: string) {
-  const tone = toneFor(label);
-  if (tone === "safe") {
-    return { borderColor: "#A7F3D0", background: "#ECFDF5", color: "#047857" };
-  }
-  if (tone === "adjust") {
-    return { borderColor: "#FDE68A", background: "#FFFBEB", color: "#B45309" };
+import { useEffect, useMemo, useRef, useState } from "react";
+import AlternativesPanel from "@/components/AlternativesPanel";
+import CohortMatrix from "@/components/CohortMatrix";
+import CohortQueue from "@/components/CohortQueue";
+import CommandPalette from "@/components/CommandPalette";
+import CompareView from "@/components/CompareView";
+import ConfidenceBreakdown from "@/components/ConfidenceBreakdown";
+import ContrastToggle from "@/components/ContrastToggle";
+import DoseCalculator from "@/components/DoseCalculator";
+import GeneCoveragePreview from "@/components/GeneCoveragePreview";
+import GenotypeEntry from "@/components/GenotypeEntry";
+import HistoryDrawer from "@/components/HistoryDrawer";
+import InteractionGraph from "@/components/InteractionGraph";
+import MedicationImport from "@/components/MedicationImport";
+import RedactionSummary from "@/components/RedactionSummary";
+import ReviewControls from "@/components/ReviewControls";
+import RiskIcon from "@/components/RiskIcon";
+import SamplePicker from "@/components/SamplePicker";
+import SignOffPanel from "@/components/SignOffPanel";
+import SwapDiff from "@/components/SwapDiff";
+import UserMenu from "@/components/UserMenu";
+import VariantExplorer from "@/components/VariantExplorer";
+import WhatIfDiff from "@/components/WhatIfDiff";
+import { claimLocalPatientData, type ClientSession, loadSession } from "@/lib/account";
+import { suggestAlternatives, swapDrug, type SwapOutcome, swapOutcome } from "@/lib/alternatives";
+import { analyzeBatch, analyzeSingle, analyzeStream, ApiValidationError, batchFromItems, getServiceInfo, toFriendlyApiError } from "@/lib/api";
+import { type CohortEntry, runCohort, toCohortEntries } from "@/lib/cohort";
+import { type Command, isPaletteShortcut } from "@/lib/commands";
+import { confidenceInput, explainConfidence } from "@/lib/confidence";
+import { type DeidentifiedVcf, deidentifyVcfFile, reidentify, rememberPseudonym } from "@/lib/deidentify";
+import { downloadBlob } from "@/lib/download";
+import { exportFhirBundle } from "@/lib/fhir";
+import { genotypeChanges, type ManualGenotype, manualGenes, referenceGenotype, syntheticVcfFile } from "@/lib/genotype";
+import { type HistoryEntry, saveHistoryEntry, toHistoryEntry } from "@/lib/history";
+import { buildInteractionGraph, filterCardsBySelection, type GraphSelection } from "@/lib/interactions";
+import { BUNDLED_KNOWLEDGE_BASE, coreDrugNames, drugGeneMap, drugNames, findDrug, geneSymbols, genesForDrug, type KnowledgeBase, mergeServiceInfo } from "@/lib/knowledge";
+import { analyzeOffline, isOfflineResult, OFFLINE_DRUGS_NOTE, OFFLINE_LABEL, shouldRunOffline } from "@/lib/offline";
+import { type GeneCoverage, summarizeCoverage } from "@/lib/panel";
+import { parseDrugTokens, rankDrugMatches, resolveDrugList } from "@/lib/resolver";
+import { decide, decisionFor, effectiveCard, isSigned, pendingDrugs, ReviewError, reviewOf, signReview, undoDecision, withReview } from "@/lib/review";
+import { buildReportModel, renderHtmlReport, renderPdfReport } from "@/lib/report";
+import { type RiskCard, riskBadgeStyle, riskStripe, toneFor, toneInk, toRiskCards } from "@/lib/risk";
+import { canAnalyze } from "@/lib/roles";
+import { APP_BG, CARD_BG, CYAN, MUTED, NAVY, OVERRIDE, TEXT, TOXIC } from "@/lib/theme";
+import type { AnalysisResult, AnalysisStreamEvent, BatchResult, ClinicianReview, SingleResult, Tone } from "@/lib/types";
+import { collectVariantRows } from "@/lib/variants";
+import { formatBytes, MAX_FILE_SIZE, parseVcf, validateVcfFile } from "@/lib/vcf";
+import { sampleFile, sampleFiles, type VcfInput } from "@/lib/vcfinput";
+import { expandVcfFiles, loadVcfInput } from "@/lib/vcfloader";
+
+type Progress = { label: string; done: number; total: number };
+
+/** Turns a stream stage into the line shown in the loading panel; `done` counts drugs with a finished result. */
+function describeStage(event: Extract<AnalysisStreamEvent, { event: "stage" }>, prev: Progress): Progress {
+  const total = event.total ?? prev.total;
+  const position = event.index !== undefined ? ` (${event.index + 1}/${total})` : "";
+  switch (event.stage) {
+    case "vcf_parsed":
+      return { ...prev, label: event.vcf_parsing_success === false ? "VCF could not be fully parsed, continuing..." : `VCF parsed: ${event.variants_count ?? 0} target variants found` };
+    case "genes_identified":
+      return { ...prev, label: event.genes?.length ? `Genes identified: ${event.genes.join(", ")}` : "No panel genes identified, using CPIC defaults..." };
+    case "risk_computed":
+      return { ...prev, total, label: `Risk computed for ${event.drug}${position}, generating explanation...` };
+    case "explanation_ready":
+      return { ...prev, total, label: `LLM explanation ready for ${event.drug}${position}` };
   }
-  if (tone === "toxic") {
-    return { borderColor: "#FECACA", background: "#FEF2F2", color: "#B91C1C" };
-  }
-  return { borderColor: "#CBD5E1", background: "#F8FAFC", color: "#475569" };
 }
 
-function parseDrugTokens(input: string): string[] {
-  return input
-    .split(",")
-    .map((d) => d.trim().toUpperCase())
-    .filter(Boolean);
-}
-
-function toFriendlyApiError(message: string): string {
-  const m = (message || "").toLowerCase();
-  if (m.includes("file must be a .vcf") || m.includes("invalid file type")) {
-    return "Invalid file type. Please upload a `.vcf` genomic file.";
-  }
-  if (m.includes("file size exceeds") || m.includes("too large")) {
-    return "VCF file is too large. Maximum allowed size is 5 MB.";
-  }
-  if (m.includes("vcf headers are missing") || m.includes("does not look like a valid vcf")) {
-    return "The uploaded file is not a valid VCF (required headers are missing).";
-  }
-  if (m.includes("not found at path")) {
-    return "The selected VCF path could not be found. Check the path and try again.";
-  }
-  if (m.includes("internal server error")) {
-    return "The server could not complete this analysis. Please retry in a moment.";
-  }
-  if (m.includes("request failed (500)")) {
-    return "Analysis could not be completed due to a server issue. Please retry in a moment.";
-  }
-  return message || "Analysis failed. Please review inputs and try again.";
-}
-
-function collectAnnotationNotes(single: SingleResult | null, batch: BatchResult | null): string[] {
+function collectAnnotationNotes(single: SingleResult | null, batch: BatchResult | null, knowledge: KnowledgeBase): string[] {
   const notes: string[] = [];
 
   if (single) {
@@ -167,7 +85,7 @@ function collectAnnotationNotes(single: SingleResult | null, batch: BatchResult
       notes.push("Phenotype could not be confidently inferred from available annotations.");
     }
     const drugName = (single.drug || "").toUpperCase();
-    const expectedGene = DRUG_PRIMARY_GENE[drugName];
+    const expectedGene = genesForDrug(knowledge, drugName).join("/");
     const reportedGene = single.pharmacogenomic_profile?.primary_gene || "Unknown";
     if (drugName && expectedGene && (!reportedGene || reportedGene === "Unknown")) {
       notes.push(`Analysis Incomplete: We couldn't predict the risk for ${drugName} because the required gene data (${expectedGene}) is missing from this patient's file.`);
@@ -184,7 +102,7 @@ function collectAnnotationNotes(single: SingleResult | null, batch: BatchResult
         notes.push(`${unknownCount} drug result(s) include missing gene/phenotype annotations.`);
       }
       for (const [drug, result] of entries) {
-        const expectedGene = DRUG_PRIMARY_GENE[drug.toUpperCase()];
+        const expectedGene = genesForDrug(knowledge, drug).join("/");
         if (expectedGene && (!result.gene || result.gene === "Unknown")) {
           notes.push(`Analysis Incomplete: ${drug} requires ${expectedGene} data, which is missing in this VCF. Other available drug analyses are still shown.`);
         }
@@ -195,32 +113,23 @@ function collectAnnotationNotes(single: SingleResult | null, batch: BatchResult
   return notes;
 }
 
-async function validateVcfFile(file: File): Promise<string> {
-  if (!file.name.toLowerCase().endsWith(".vcf")) return "Upload Failed: Please upload a valid `.vcf` file under 5 MB.";
-  if (file.size > MAX_FILE_SIZE) return `Upload Failed: File is too large. Maximum allowed size is ${formatBytes(MAX_FILE_SIZE)}.`;
-  try {
-    const sample = (await file.text()).slice(0, 12000);
-    if (!sample.trim()) return "Upload Failed: The file appears empty or unreadable.";
-    const lines = sample.split(/\r?\n/).slice(0, 120);
-    const hasVcfHeader = lines.some((line) => line.startsWith("##fileformat=VCF"));
-    const hasChromHeader = lines.some((line) => line.startsWith("#CHROM"));
-    if (!hasVcfHeader || !hasChromHeader) {
-      return "Upload Failed: This file is not a valid VCF (required VCF headers are missing).";
-    }
-    const hasDataRow = lines.some((line) => !!line && !line.startsWith("#") && line.split("\t").length >= 8);
-    if (!hasDataRow) {
-      return "Upload Failed: VCF structure is incomplete or corrupted (variant rows are missing).";
-    }
-  } catch {
-    return "Upload Failed: Unable to read this file. It may be corrupted or encoded in an unsupported format.";
-  }
-  return "";
-}
+/** Each tone's icon and card stripe, for readers who cannot tell the colours apart. */
+const RISK_LEGEND: { tone: Tone; label: string; shape: string }[] = [
+  { tone: "safe", label: "Safe", shape: "circle, solid stripe" },
+  { tone: "adjust", label: "Adjust", shape: "triangle, dashed stripe" },
+  { tone: "toxic", label: "Toxic/Ineffective", shape: "octagon, double stripe" },
+];
 
-function ConfidenceDonut({ value, color }: { value: number; color: string }) {
+function ConfidenceDonut({ value, color, label }: { value: number; color: string; label: string }) {
   const clamped = Math.max(0, Math.min(100, value));
   return (
     <div
+      role="meter"
+      aria-label={label}
+      aria-valuenow={clamped}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuetext={`${clamped}%`}
       className="relative h-14 w-14 rounded-full"
       style={{
         background: `conic-gradient(${color} ${clamped * 3.6}deg, #E2E8F0 0deg)`,
@@ -246,28 +155,100 @@ function SkeletonCard() {
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
+  const [coverage, setCoverage] = useState<{ genes: GeneCoverage[]; rows: number } | null>(null);
   const [fileError, setFileError] = useState("");
+  const [redaction, setRedaction] = useState<DeidentifiedVcf | null>(null);
+  const [vcfInput, setVcfInput] = useState<{ input: VcfInput; sample: number } | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [deidentify, setDeidentify] = useState(true);
   const [apiError, setApiError] = useState("");
   const [inputError, setInputError] = useState("");
   const [dragActive, setDragActive] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState(0);
+  const [progress, setProgress] = useState<Progress>({ label: "", done: 0, total: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   const [drugInput, setDrugInput] = useState("CLOPIDOGREL");
   const [selectedDrugs, setSelectedDrugs] = useState<string[]>(["CLOPIDOGREL"]);
   const [multiMode, setMultiMode] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const [workspace, setWorkspace] = useState<"patient" | "manual" | "cohort">("patient");
+  const [cohortEntries, setCohortEntries] = useState<CohortEntry[]>([]);
+  const [cohortDrugs, setCohortDrugs] = useState<string[]>([]);
+  const [cohortRunning, setCohortRunning] = useState(false);
+
+  const [manualGenotype, setManualGenotype] = useState<ManualGenotype>(() => referenceGenotype(BUNDLED_KNOWLEDGE_BASE));
+  // The last manual run and, once there have been two, what changed between them.
+  const [manualRun, setManualRun] = useState<{ genotype: ManualGenotype; result: AnalysisResult } | null>(null);
+  const [whatIf, setWhatIf] = useState<{ before: AnalysisResult; after: AnalysisResult; changes: string[] } | null>(null);
+  // Inputs of the shown result, so an alternative can be swapped into the same run.
+  const [lastRun, setLastRun] = useState<{ drugs: string[]; file: File | null; genotype: ManualGenotype | null } | null>(null);
+  const [swapResult, setSwapResult] = useState<SwapOutcome | null>(null);
 
   const [singleResult, setSingleResult] = useState<SingleResult | null>(null);
   const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
   const [rawOpen, setRawOpen] = useState(false);
   const [copyState, setCopyState] = useState("");
-  const annotationNotes = useMemo(() => collectAnnotationNotes(singleResult, batchResult), [singleResult, batchResult]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyRevision, setHistoryRevision] = useState(0);
+  /** History record of the shown result; review decisions are written back to it. */
+  const [savedEntry, setSavedEntry] = useState<HistoryEntry | null>(null);
+  const [historyError, setHistoryError] = useState("");
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [reportBusy, setReportBusy] = useState(false);
+  const [graphSelection, setGraphSelection] = useState<GraphSelection>(null);
+  const [confidenceOpen, setConfidenceOpen] = useState<string | null>(null);
+  const [knowledge, setKnowledge] = useState<KnowledgeBase>(BUNDLED_KNOWLEDGE_BASE);
+  const [session, setSession] = useState<ClientSession | null>(null);
+  const annotationNotes = useMemo(() => collectAnnotationNotes(singleResult, batchResult, knowledge), [singleResult, batchResult, knowledge]);
+
+  // The bundled knowledge base works offline; the backend's list wins once it answers.
+  useEffect(() => {
+    const controller = new AbortController();
+    getServiceInfo({ signal: controller.signal })
+      .then((info) => setKnowledge((kb) => mergeServiceInfo(kb, info)))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, []);
+
+  // The proxy only lets signed-in users here; a session that lapsed since goes back to /login.
+  // When the console is unreachable the page stays usable for the offline rules.
+  // Local history left by a different user is cleared before this one's session is shown.
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSession(controller.signal)
+      .then(async (s) => {
+        if (!s) return window.location.assign("/login");
+        await claimLocalPatientData(s.user);
+        setSession(s);
+      })
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
-    if (!loading) return;
-    const id = window.setInterval(() => setLoadingStep((p) => (p + 1) % LOADING_STEPS.length), 1200);
-    return () => window.clearInterval(id);
-  }, [loading]);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isPaletteShortcut(e)) return;
+      e.preventDefault();
+      setPaletteOpen(true);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Leaving the page must not leave an LLM call running server-side.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const currentAnalysis = useMemo<AnalysisResult | null>(() => {
+    if (singleResult) return { kind: "single", data: singleResult };
+    if (batchResult) return { kind: "batch", data: batchResult };
+    return null;
+  }, [singleResult, batchResult]);
+
+  const hasVariants = useMemo(() => !!currentAnalysis && collectVariantRows(currentAnalysis).length > 0, [currentAnalysis]);
 
   const rawJson = useMemo(() => {
     if (singleResult) return JSON.stringify(singleResult, null, 2);
@@ -275,32 +256,24 @@ export default function Home() {
     return "";
   }, [singleResult, batchResult]);
 
+  const drugMatches = useMemo(() => rankDrugMatches(knowledge, parseDrugTokens(drugInput).at(-1) || "", 8), [knowledge, drugInput]);
+
   const fileUsagePercent = file ? Math.min(100, Math.round((file.size / MAX_FILE_SIZE) * 100)) : 0;
 
-  const riskCards = useMemo(() => {
-    if (singleResult) {
-      return [
-        {
-          drug: singleResult.drug || "Unknown",
-          label: singleResult.risk_assessment?.risk_label || "Unknown",
-          severity: singleResult.risk_assessment?.severity || "unknown",
-          confidence: Math.round((singleResult.risk_assessment?.confidence_score || 0) * 100),
-          gene: singleResult.pharmacogenomic_profile?.primary_gene || "N/A",
-          phenotype: singleResult.pharmacogenomic_profile?.phenotype || "N/A",
-          recommendation: singleResult.llm_generated_explanation?.recommendation || singleResult.clinical_recommendation?.action || "N/A",
-        },
-      ];
-    }
-    return Object.entries(batchResult?.results || {}).map(([drug, details]) => ({
-      drug,
-      label: details.risk_label || "Unknown",
-      severity: details.severity || "unknown",
-      confidence: Math.round((details.confidence_score || 0) * 100),
-      gene: details.gene || "N/A",
-      phenotype: details.phenotype || "N/A",
-      recommendation: details.recommendation || "N/A",
-    }));
-  }, [singleResult, batchResult]);
+  const riskCards = useMemo(() => toRiskCards(singleResult, batchResult), [singleResult, batchResult]);
+  const review = reviewOf(currentAnalysis);
+  const reviewLocked = loading || isSigned(review) || !session || !canAnalyze(session.user.role);
+  const canRerun = !loading && !!lastRun && !!session && canAnalyze(session.user.role) && (workspace === "manual" ? lastRun.genotype === manualGenotype : !!file && lastRun.file === file);
+
+  // The graph only earns its space once two or more drugs can compete for an enzyme.
+  const interactionGraph = useMemo(
+    () => (batchResult && riskCards.length > 1 ? buildInteractionGraph(riskCards, batchResult.polypharmacy_warnings || [], knowledge) : null),
+    [batchResult, riskCards, knowledge],
+  );
+  const visibleCards = useMemo(
+    () => (interactionGraph ? filterCardsBySelection(riskCards, interactionGraph, graphSelection) : riskCards),
+    [riskCards, interactionGraph, graphSelection],
+  );
 
   const detectedGenes = useMemo(() => {
     const genes = new Set<string>();
@@ -314,6 +287,20 @@ export default function Home() {
     return genes;
   }, [singleResult, batchResult]);
 
+  function confidenceBreakdownFor(drug: string) {
+    const input = confidenceInput(singleResult, batchResult, drug);
+    return input ? explainConfidence(input) : null;
+  }
+
+  /** Variants behind one drug's result; batch responses carry them per drug. */
+  function variantsFor(drug: string) {
+    if (singleResult) return singleResult.pharmacogenomic_profile?.detected_variants;
+    return batchResult?.results?.[drug]?.detected_variants;
+  }
+
+  const shownPatientId = singleResult?.patient_id || batchResult?.patient_id;
+  const reidentified = useMemo(() => reidentify(shownPatientId), [shownPatientId]);
+
   const riskSummary = useMemo(() => {
     const safe = riskCards.filter((r) => toneFor(r.label) === "safe").length;
     const adjust = riskCards.filter((r) => toneFor(r.label) === "adjust").length;
@@ -324,26 +311,56 @@ export default function Home() {
   async function assignFile(candidate: File | null) {
     setFileError("");
     setApiError("");
-    if (!candidate) {
-      setFile(null);
-      return;
+    setVcfInput(null);
+    setFile(null);
+    setCoverage(null);
+    setRedaction(null);
+    if (!candidate) return;
+    setPreparing(true);
+    try {
+      const input = await loadVcfInput(candidate);
+      setVcfInput({ input, sample: 0 });
+      await selectSample(input, 0);
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : "Upload Failed: Unable to read this file.");
+    } finally {
+      setPreparing(false);
     }
+  }
+
+  /** Makes sample `index` of the loaded input the file to analyze. */
+  async function selectSample(input: VcfInput, index: number) {
+    setFileError("");
+    setCoverage(null);
+    setRedaction(null);
+    setFile(null);
+    const candidate = sampleFile(input, index);
     const err = await validateVcfFile(candidate);
     if (err) {
-      setFile(null);
       setFileError(err);
       return;
     }
     setFile(candidate);
+    setRedaction(await deidentifyVcfFile(candidate));
+    try {
+      const parsed = parseVcf(await candidate.text());
+      setCoverage({ genes: summarizeCoverage(parsed), rows: parsed.records.length });
+    } catch {
+      // The preview is advisory; the backend still performs the authoritative parse.
+    }
+  }
+
+  /** Canonical names for typed tokens, or null after flagging the ones the backend would not recognise. */
+  function resolveTokens(tokens: string[]): string[] | null {
+    const { drugs, unsupported } = resolveDrugList(knowledge, tokens);
+    if (!unsupported.length) return drugs;
+    setInputError(`${unsupported.map((u) => `"${u.input}"`).join(", ")} ${unsupported.length === 1 ? "is not a supported drug" : "are not supported drugs"}. Pick one of the matches or check the spelling.`);
+    return null;
   }
 
   function addDrug(drug: string) {
-    const tokens = parseDrugTokens(drug);
-    if (!tokens.length) return;
-    if (tokens.some((value) => !/^[A-Z0-9\-\s]+$/.test(value))) {
-      setInputError("Drug name contains unsupported characters.");
-      return;
-    }
+    const tokens = resolveTokens(parseDrugTokens(drug));
+    if (!tokens?.length) return;
     if (multiMode) {
       setSelectedDrugs((prev) => {
         const merged = [...prev];
@@ -371,97 +388,264 @@ export default function Home() {
     }
   }
 
- async function handleAnalyze() {
-  setInputError("");
-  setApiError("");
+  function switchWorkspace(next: "patient" | "manual" | "cohort") {
+    setWorkspace(next);
+    setFileError("");
+    setApiError("");
+    // A clinic screen almost always covers several drugs.
+    if (next === "cohort") setMultiMode(true);
+  }
 
-  const pendingTokens = parseDrugTokens(drugInput);
-  let effectiveDrugs = [...selectedDrugs];
+  /** Merges whatever is still typed in the drug input into the selection and returns the result. */
+  function takePendingDrugs(): string[] | null {
+    const pendingTokens = resolveTokens(parseDrugTokens(drugInput));
+    if (!pendingTokens) return null;
+    let effectiveDrugs = [...selectedDrugs];
 
-  if (pendingTokens.length) {
-    if (multiMode) {
-      for (const token of pendingTokens) {
-        if (!effectiveDrugs.includes(token)) effectiveDrugs.push(token);
+    if (pendingTokens.length) {
+      if (multiMode) {
+        for (const token of pendingTokens) {
+          if (!effectiveDrugs.includes(token)) effectiveDrugs.push(token);
+        }
+      } else {
+        effectiveDrugs = [pendingTokens[0]];
       }
-    } else {
-      effectiveDrugs = [pendingTokens[0]];
+      setSelectedDrugs(effectiveDrugs);
+      setDrugInput("");
     }
-    setSelectedDrugs(effectiveDrugs);
-    setDrugInput("");
+    return effectiveDrugs;
+  }
+
+  async function addCohortFiles(files: File[]) {
+    setPreparing(true);
+    const expanded = await expandVcfFiles(files).finally(() => setPreparing(false));
+    const incoming = toCohortEntries(expanded.files);
+    if (!incoming.length) {
+      setFileError(expanded.errors.length ? `No readable VCF files in the selection. ${expanded.errors.join("; ")}` : "No .vcf or .vcf.gz files found in the selection.");
+      return;
+    }
+    setFileError(expanded.errors.length ? `Skipped ${expanded.errors.join("; ")}` : "");
+    setCohortEntries((prev) => {
+      const known = new Set(prev.map((e) => e.id));
+      return [...prev, ...incoming.filter((e) => !known.has(e.id))];
+    });
   }
 
-  if (!file) {
+  /** Fans a multi-sample upload out into the cohort queue, one entry per sample. */
+  function analyzeAllSamples() {
+    if (!vcfInput) return;
+    const incoming = toCohortEntries(sampleFiles(vcfInput.input));
+    setCohortEntries((prev) => {
+      const known = new Set(prev.map((e) => e.id));
+      return [...prev, ...incoming.filter((e) => !known.has(e.id))];
+    });
+    setWorkspace("cohort");
+  }
+
+  async function handleCohortRun() {
+    setInputError("");
+    setApiError("");
+    const drugs = takePendingDrugs();
+    if (!drugs) return;
+
+    if (!cohortEntries.length) {
+      setFileError("Add at least one patient VCF to the cohort.");
+      return;
+    }
+    if (!drugs.length) {
+      setInputError("Select at least one drug.");
+      return;
+    }
+
+    const queue = cohortEntries.map((e) => ({ ...e, status: "queued" as const, error: undefined, cards: undefined }));
+    setCohortEntries(queue);
+    setCohortDrugs(drugs);
+    setCohortRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      await runCohort(queue, drugs, {
+        signal: controller.signal,
+        deidentify,
+        onUpdate: (id, patch) => setCohortEntries((prev) => prev.map((e) => (e.id === id ? { ...e, ...patch } : e))),
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setCohortRunning(false);
+    }
+  }
+
+ async function handleAnalyze(swap?: { from: string; to: string }) {
+  setInputError("");
+  setApiError("");
+
+  // An alternative re-run keeps the previous drug list with one drug swapped out.
+  const effectiveDrugs = swap && lastRun ? swapDrug(lastRun.drugs, swap.from, swap.to) : takePendingDrugs();
+  if (!effectiveDrugs) return;
+  if (swap) setSelectedDrugs(effectiveDrugs);
+  const before = currentAnalysis;
+
+  const manual = workspace === "manual";
+  const genotype = manualGenotype;
+  const source = manual ? syntheticVcfFile(knowledge, genotype, "MANUAL_ENTRY") : file;
+  if (!source) {
     setFileError("Please upload a valid VCF file.");
     return;
   }
+  // Manual entries carry no patient data; uploads go out under the pseudonym unless the user opted out.
+  const redacted = !manual && deidentify ? redaction : null;
+  const upload = redacted?.file || source;
+  const patientId = redacted?.summary.pseudonym;
+  if (redacted) rememberPseudonym(redacted.summary);
+  if (manual) {
+    // Same gate an upload goes through, so a broken generator is caught here and not by the backend.
+    const err = await validateVcfFile(source);
+    if (err) {
+      setFileError(err);
+      return;
+    }
+  }
 
   if (!effectiveDrugs.length) {
     setInputError("Select at least one drug.");
     return;
   }
 
+  const single = !multiMode || effectiveDrugs.length === 1;
+  const drugs = single ? effectiveDrugs.slice(0, 1) : effectiveDrugs;
+  const controller = new AbortController();
+  abortRef.current = controller;
+
   setLoading(true);
-  setLoadingStep(0);
+  setProgress({ label: "Uploading VCF...", done: 0, total: drugs.length });
   setSingleResult(null);
   setBatchResult(null);
+  setSavedEntry(null);
+  setGraphSelection(null);
+
+  // Each finished drug renders immediately; the batch view is rebuilt from everything received so far.
+  const received: SingleResult[] = [];
+  const onEvent = (event: AnalysisStreamEvent) => {
+    if (event.event === "stage") setProgress((prev) => describeStage(event, prev));
+    if (event.event !== "result") return;
+    received.push(event.item);
+    setProgress((prev) => ({ ...prev, done: received.length }));
+    if (single) setSingleResult(event.item);
+    else setBatchResult(batchFromItems(received));
+  };
+
+  const analyzeOnServer = async (): Promise<AnalysisResult> => {
+    try {
+      const items = await analyzeStream(upload, drugs, { signal: controller.signal, onEvent, patientId });
+      return single ? { kind: "single", data: items[0] } : { kind: "batch", data: batchFromItems(items) };
+    } catch (e) {
+      // Older backends have no streaming endpoint; fall back to the one-shot calls.
+      if (!(e instanceof ApiValidationError && e.status === 404)) throw e;
+      return single
+        ? { kind: "single", data: await analyzeSingle(upload, drugs[0], { signal: controller.signal, patientId }) }
+        : { kind: "batch", data: await analyzeBatch(upload, drugs, { signal: controller.signal, patientId }) };
+    }
+  };
 
   try {
-    const formData = new FormData();
-    formData.append("vcf", file);
+    let result: AnalysisResult;
+    try {
+      result = await analyzeOnServer();
+    } catch (e) {
+      // With no server to reach, the core drugs can still be screened by the bundled rules.
+      if (!shouldRunOffline(e)) throw e;
+      setProgress((prev) => ({ ...prev, label: "Server unreachable, applying offline CPIC rules..." }));
+      const items = await analyzeOffline(upload, drugs, patientId);
+      result = single ? { kind: "single", data: items[0] } : { kind: "batch", data: batchFromItems(items) };
+    }
+    if (result.kind === "single") setSingleResult(result.data);
+    else setBatchResult(result.data);
+    if (manual) {
+      setWhatIf(manualRun && !swap ? { before: manualRun.result, after: result, changes: genotypeChanges(manualRun.genotype, genotype) } : null);
+      setManualRun({ genotype, result });
+    } else {
+      setWhatIf(null);
+    }
+    setLastRun({ drugs, file: manual ? null : file, genotype: manual ? genotype : null });
+    setSwapResult(swap && before ? swapOutcome(before, result, swap.from, swap.to) : null);
+    const entry = toHistoryEntry(result, source.name);
+    setSavedEntry(entry);
+    void recordHistory(entry);
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") {
+      setApiError(received.length ? `Analysis cancelled. Showing the ${received.length} of ${drugs.length} drug results that had finished.` : "Analysis cancelled.");
+    } else {
+      setApiError(toFriendlyApiError(e));
+    }
+  } finally {
+    if (abortRef.current === controller) abortRef.current = null;
+    setLoading(false);
+  }
+}
 
-    const BASE_URL = process.env.NEXT_PUBLIC_API_URL;
 
-    if (!BASE_URL) {
-      throw new Error("Backend URL not configured.");
+  /** Saving is best effort: a failure is surfaced but never hides the result that was just computed. */
+  async function recordHistory(entry: HistoryEntry) {
+    try {
+      await saveHistoryEntry(entry);
+      setHistoryError("");
+      setHistoryRevision((r) => r + 1);
+    } catch (e) {
+      setHistoryError(`Result not saved to local history: ${e instanceof Error ? e.message : "storage unavailable."}`);
     }
+  }
 
-    if (!multiMode || effectiveDrugs.length === 1) {
-      formData.append("drug", effectiveDrugs[0]);
-
-      const res = await fetch(`${BASE_URL}/analyze`, {
-        method: "POST",
-        body: formData,
-      });
+  /** Stores the review on the shown result and on its history entry, so it survives a reload. */
+  function updateReview(next: ClinicianReview | undefined) {
+    if (!currentAnalysis) return;
+    const updated = withReview(currentAnalysis, next);
+    if (updated.kind === "single") setSingleResult(updated.data);
+    else setBatchResult(updated.data);
+    if (savedEntry) {
+      const entry = { ...savedEntry, result: updated };
+      setSavedEntry(entry);
+      void recordHistory(entry);
+    }
+  }
 
-      const data = await res.json().catch(() => null);
+  function reviewCard(card: RiskCard, input: Parameters<typeof decide>[2]): string {
+    if (!session) return "Sign in again to review results.";
+    try {
+      updateReview(decide(review, card, input, session.user));
+      return "";
+    } catch (e) {
+      return e instanceof ReviewError ? e.message : "The decision could not be recorded.";
+    }
+  }
 
-      if (!res.ok) {
-        throw new Error(
-          typeof data?.detail === "string"
-            ? data.detail
-            : `Request failed (${res.status})`
-        );
-      }
+  function signReport(): string {
+    if (!session) return "Sign in again to sign the report.";
+    try {
+      updateReview(signReview(review, riskCards, session.user));
+      return "";
+    } catch (e) {
+      return e instanceof ReviewError ? e.message : "The report could not be signed.";
+    }
+  }
 
-      setSingleResult(data as SingleResult);
+  function openHistoryEntry(entry: HistoryEntry) {
+    setSavedEntry(entry);
+    setWorkspace("patient");
+    setApiError("");
+    setRawOpen(false);
+    setGraphSelection(null);
+    setWhatIf(null);
+    setLastRun(null);
+    setSwapResult(null);
+    if (entry.result.kind === "single") {
+      setBatchResult(null);
+      setSingleResult(entry.result.data);
     } else {
-      formData.append("drugs", effectiveDrugs.join(","));
-
-      const res = await fetch(`${BASE_URL}/analyze/batch`, {
-        method: "POST",
-        body: formData,
-      });
-
-      const data = await res.json().catch(() => null);
-
-      if (!res.ok) {
-        throw new Error(
-          typeof data?.detail === "string"
-            ? data.detail
-            : `Request failed (${res.status})`
-        );
-      }
-
-      setBatchResult(data as BatchResult);
+      setSingleResult(null);
+      setBatchResult(entry.result.data);
     }
-  } catch (e) {
-    const raw = e instanceof Error ? e.message : "Unexpected API error.";
-    setApiError(toFriendlyApiError(raw));
-  } finally {
-    setLoading(false);
+    setHistoryOpen(false);
   }
-}
-
 
   async function copyJson() {
     if (!rawJson) return;
@@ -477,13 +661,131 @@ export default function Home() {
   function downloadJson() {
     if (!rawJson) return;
     const id = singleResult?.patient_id || batchResult?.patient_id || "patient";
-    const blob = new Blob([rawJson], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `pharmaguard-${id}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([rawJson], { type: "application/json" }), `pharmaguard-${id}.json`);
+  }
+
+  function downloadFhir() {
+    if (!currentAnalysis) return;
+    try {
+      const bundle = exportFhirBundle(currentAnalysis);
+      const id = currentAnalysis.data.patient_id || "patient";
+      downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" }), `pharmaguard-${id}.fhir.json`);
+    } catch (e) {
+      setApiError(e instanceof Error ? e.message : "The FHIR bundle could not be generated.");
+    }
+  }
+
+  async function downloadPdfReport() {
+    if (!currentAnalysis) return;
+    setReportBusy(true);
+    try {
+      const blob = await renderPdfReport(buildReportModel(currentAnalysis, annotationNotes));
+      downloadBlob(blob, `pharmaguard-report-${currentAnalysis.data.patient_id || "patient"}.pdf`);
+    } catch {
+      setApiError("The PDF report could not be generated. Try the printable report instead.");
+    } finally {
+      setReportBusy(false);
+    }
+  }
+
+  function printHtmlReport() {
+    if (!currentAnalysis) return;
+    const win = window.open("", "_blank");
+    if (!win) {
+      setApiError("Pop-up blocked. Allow pop-ups for this site to print the report.");
+      return;
+    }
+    win.document.write(renderHtmlReport(buildReportModel(currentAnalysis, annotationNotes)));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  /** Scrolls a section into view and moves focus there, so the keyboard continues from it. */
+  function jumpTo(id: string, name: string): string {
+    const target = document.getElementById(id);
+    if (!target) return `${name} is not on screen.`;
+    target.scrollIntoView({ behavior: "smooth", block: "start" });
+    target.focus({ preventScroll: true });
+    return `Moved to ${name}.`;
+  }
+
+  /** What the palette offers right now; rebuilt on each render while it is open. */
+  function paletteCommands(): Command[] {
+    const commands: Command[] = [];
+    const hasResult = workspace !== "cohort" && !!currentAnalysis;
+
+    if (workspace === "patient" && !preparing) {
+      commands.push({ id: "open-file", label: "Open VCF file", group: "Input", keywords: "upload browse", run: () => fileInputRef.current?.click() });
+    }
+    for (const next of ["patient", "manual", "cohort"] as const) {
+      if (next !== workspace && !cohortRunning) {
+        const label = { patient: "Patient upload", manual: "Genotype entry", cohort: "Cohort" }[next];
+        commands.push({ id: `workspace-${next}`, label: `Switch to ${label}`, group: "Input", keywords: "workspace", run: () => switchWorkspace(next) });
+      }
+    }
+    commands.push({ id: "focus-drug", label: "Search drugs", group: "Drugs", keywords: "find type", run: () => document.getElementById("drug-search")?.focus() });
+    commands.push(
+      multiMode
+        ? { id: "mode-single", label: "Switch to Single mode", group: "Drugs", keywords: "analysis mode", run: () => setMode("single") }
+        : { id: "mode-multi", label: "Switch to Multi mode", group: "Drugs", keywords: "analysis mode batch", run: () => setMode("multi") },
+    );
+    for (const drug of drugNames(knowledge)) {
+      if (selectedDrugs.includes(drug)) {
+        if (selectedDrugs.length < 2) continue;
+        const remove = () => {
+          removeDrug(drug);
+          return `Removed ${drug}.`;
+        };
+        commands.push({ id: `remove-${drug}`, label: `Remove ${drug}`, group: "Drugs", run: remove });
+      } else {
+        const add = () => {
+          addDrug(drug);
+          return `${drug} selected.`;
+        };
+        commands.push({ id: `add-${drug}`, label: multiMode ? `Add ${drug}` : `Select ${drug}`, group: "Drugs", keywords: findDrug(knowledge, drug)?.synonyms.join(" "), run: add });
+      }
+    }
+
+    if (!loading && !cohortRunning) {
+      commands.push(
+        workspace === "cohort"
+          ? { id: "run", label: "Run cohort", group: "Analysis", keywords: "analyze start", run: () => void handleCohortRun() }
+          : { id: "run", label: "Run analysis", group: "Analysis", keywords: "analyze start", run: () => void handleAnalyze() },
+      );
+    }
+    if (loading || cohortRunning) {
+      commands.push({ id: "cancel", label: cohortRunning ? "Cancel cohort run" : "Cancel analysis", group: "Analysis", keywords: "stop abort", run: () => abortRef.current?.abort() });
+    }
+    commands.push({ id: "history", label: "Open history", group: "Analysis", keywords: "saved previous", run: () => setHistoryOpen(true) });
+    commands.push({ id: "compare", label: "Compare analyses", group: "Analysis", keywords: "diff", run: () => setCompareOpen(true) });
+
+    if (hasResult && !loading) {
+      commands.push({ id: "raw", label: rawOpen ? "Hide raw JSON" : "Show raw JSON", group: "Results", keywords: "json", run: () => setRawOpen((v) => !v) });
+      const copy = () => {
+        void copyJson();
+        return "Copying the result JSON.";
+      };
+      commands.push({ id: "copy-json", label: "Copy JSON", group: "Results", keywords: "clipboard", run: copy });
+      commands.push({ id: "download-json", label: "Download JSON", group: "Results", keywords: "save export", run: downloadJson });
+      commands.push({ id: "download-fhir", label: "Download FHIR bundle", group: "Results", keywords: "save export", run: downloadFhir });
+      if (!reportBusy) commands.push({ id: "pdf", label: "Download PDF report", group: "Results", keywords: "save export", run: () => void downloadPdfReport() });
+      commands.push({ id: "print", label: "Print report", group: "Results", keywords: "html", run: printHtmlReport });
+    }
+
+    const sections: [string, string, boolean][] = [
+      ["section-upload", "Upload Dashboard", true],
+      ["section-drugs", "Drug Selector", true],
+      ["section-risk", "Risk Matrix", hasResult],
+      ["section-explanation", "LLM Explanation", hasResult],
+      ["section-interactions", "Polypharmacy Interactions", hasResult && !!interactionGraph],
+      ["section-variants", "Variant Explorer", hasResult && hasVariants],
+      ["section-exports", "Exports", hasResult && !loading],
+    ];
+    for (const [id, name, shown] of sections) {
+      if (shown) commands.push({ id: `go-${id}`, label: name, group: "Go to", keywords: "jump section", run: () => jumpTo(id, name) });
+    }
+    return commands;
   }
 
   return (
@@ -501,9 +803,35 @@ export default function Home() {
           <h1 className="sr-only">
             Pharma<span style={{ color: CYAN }}>Guard</span>
           </h1>
-          <div className="inline-flex items-center gap-2 rounded-full border border-[#2B6CA3] bg-[#0C426F] px-3 py-1 text-xs font-medium text-white">
-            <span className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />
-            AI Engine Active
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPaletteOpen(true)}
+              aria-keyshortcuts="Control+K Meta+K"
+              className="rounded-full border border-[#2B6CA3] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[#0C426F]"
+            >
+              Commands <kbd className="ml-1 text-[10px] text-blue-100/90">Ctrl K</kbd>
+            </button>
+            <ContrastToggle />
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(true)}
+              className="rounded-full border border-[#2B6CA3] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[#0C426F]"
+            >
+              History
+            </button>
+            <button
+              type="button"
+              onClick={() => setCompareOpen(true)}
+              className="rounded-full border border-[#2B6CA3] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[#0C426F]"
+            >
+              Compare
+            </button>
+            <div className="inline-flex items-center gap-2 rounded-full border border-[#2B6CA3] bg-[#0C426F] px-3 py-1 text-xs font-medium text-white">
+              <span className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />
+              AI Engine Active
+            </div>
+            <UserMenu session={session} />
           </div>
         </div>
       </header>
@@ -518,15 +846,24 @@ export default function Home() {
             </div>
             <div className="grid grid-cols-3 gap-2">
               <div className="rounded-xl border bg-white px-3 py-2 text-center" style={{ borderColor: "#BBF7D0" }}>
-                <p className="text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: SAFE }}>Safe</p>
+                <p className="inline-flex items-center gap-1 text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: toneInk("safe") }}>
+                  <RiskIcon tone="safe" size={10} />
+                  Safe
+                </p>
                 <p className="text-lg font-bold">{riskSummary.safe}</p>
               </div>
               <div className="rounded-xl border bg-white px-3 py-2 text-center" style={{ borderColor: "#FDE68A" }}>
-                <p className="text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: ADJUST }}>Adjust</p>
+                <p className="inline-flex items-center gap-1 text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: toneInk("adjust") }}>
+                  <RiskIcon tone="adjust" size={10} />
+                  Adjust
+                </p>
                 <p className="text-lg font-bold">{riskSummary.adjust}</p>
               </div>
               <div className="rounded-xl border bg-white px-3 py-2 text-center" style={{ borderColor: "#FECACA" }}>
-                <p className="text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: TOXIC }}>Toxic</p>
+                <p className="inline-flex items-center gap-1 text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: toneInk("toxic") }}>
+                  <RiskIcon tone="toxic" size={10} />
+                  Toxic
+                </p>
                 <p className="text-lg font-bold">{riskSummary.toxic}</p>
               </div>
             </div>
@@ -542,71 +879,152 @@ export default function Home() {
         >
           <div className="grid gap-6 lg:grid-cols-2">
             <div>
-              <p className="mb-2 text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
-                Upload Dashboard
-              </p>
-              <label
-                onDragEnter={(e) => {
-                  e.preventDefault();
-                  setDragActive(true);
-                }}
-                onDragOver={(e) => {
-                  e.preventDefault();
-                  setDragActive(true);
-                }}
-                onDragLeave={(e) => {
-                  e.preventDefault();
-                  setDragActive(false);
-                }}
-                onDrop={async (e) => {
-                  e.preventDefault();
-                  setDragActive(false);
-                  await assignFile(e.dataTransfer.files?.[0] || null);
-                }}
-                className="block cursor-pointer rounded-xl border-2 border-dashed p-5 text-center transition-all duration-300 hover:-translate-y-0.5 sm:p-8"
-                style={{
-                  borderColor: dragActive ? CYAN : "#B9C9D9",
-                  background: dragActive ? "#E9F8FC" : "#F8FBFF",
-                }}
-              >
-                <input className="hidden" type="file" accept=".vcf" onChange={async (e) => assignFile(e.target.files?.[0] || null)} />
-                <div className="mx-auto mb-3 inline-flex h-12 w-12 items-center justify-center rounded-xl border border-[#BFEFF8] bg-[#E8FAFE]">
-                  <svg viewBox="0 0 24 24" className="h-6 w-6" fill="none" stroke={CYAN} strokeWidth="1.8">
-                    <path d="M7 3c2 2 2 4 0 6s-2 4 0 6 2 4 0 6" />
-                    <path d="M17 3c-2 2-2 4 0 6s2 4 0 6-2 4 0 6" />
-                    <path d="M8 8h8M8 16h8" />
-                  </svg>
-                </div>
-                <p className="text-sm font-medium">Drag and drop .vcf file or click to browse</p>
-                <p className="mt-1 text-xs" style={{ color: MUTED }}>
-                  Supported format: `.vcf`
+              <div id="section-upload" tabIndex={-1} className="mb-2 flex items-center justify-between gap-2 outline-none">
+                <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+                  Upload Dashboard
                 </p>
-                <div className="mt-3 flex justify-center gap-2">
-                  <span className="rounded-full border px-2 py-1 text-[11px] font-semibold" style={{ borderColor: "#BEE3F8", background: "#EBF8FF", color: NAVY }}>
-                    5 MB max
-                  </span>
-                  <span
-                    className="rounded-full border px-2 py-1 text-[11px] font-semibold"
+                <div className="inline-flex rounded-lg border bg-white p-1" style={{ borderColor: "#D7E1EC" }}>
+                  <button
+                    type="button"
+                    onClick={() => switchWorkspace("patient")}
+                    disabled={cohortRunning}
+                    aria-pressed={workspace === "patient"}
+                    className="rounded-md px-3 py-1 text-xs font-semibold transition"
+                    style={{ background: workspace === "patient" ? NAVY : "transparent", color: workspace === "patient" ? "#fff" : MUTED }}
+                  >
+                    Patient
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => switchWorkspace("manual")}
+                    disabled={cohortRunning}
+                    aria-pressed={workspace === "manual"}
+                    className="rounded-md px-3 py-1 text-xs font-semibold transition"
+                    style={{ background: workspace === "manual" ? NAVY : "transparent", color: workspace === "manual" ? "#fff" : MUTED }}
+                  >
+                    Genotype
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => switchWorkspace("cohort")}
+                    disabled={loading}
+                    aria-pressed={workspace === "cohort"}
+                    className="rounded-md px-3 py-1 text-xs font-semibold transition"
+                    style={{ background: workspace === "cohort" ? NAVY : "transparent", color: workspace === "cohort" ? "#fff" : MUTED }}
+                  >
+                    Cohort
+                  </button>
+                </div>
+              </div>
+              {workspace === "cohort" ? (
+                <CohortQueue
+                  entries={cohortEntries}
+                  running={cohortRunning}
+                  deidentify={deidentify}
+                  onDeidentifyChange={setDeidentify}
+                  onAddFiles={addCohortFiles}
+                  onRemove={(id) => setCohortEntries((prev) => prev.filter((e) => e.id !== id))}
+                  onClear={() => setCohortEntries([])}
+                />
+              ) : workspace === "manual" ? (
+                <GenotypeEntry
+                  genes={manualGenes(knowledge)}
+                  genotype={manualGenotype}
+                  lastRun={manualRun?.genotype || null}
+                  disabled={loading}
+                  onChange={setManualGenotype}
+                  onRerun={() => handleAnalyze()}
+                />
+              ) : (
+                <>
+                  <label
+                    onDragEnter={(e) => {
+                      e.preventDefault();
+                      setDragActive(true);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragActive(true);
+                    }}
+                    onDragLeave={(e) => {
+                      e.preventDefault();
+                      setDragActive(false);
+                    }}
+                    onDrop={async (e) => {
+                      e.preventDefault();
+                      setDragActive(false);
+                      await assignFile(e.dataTransfer.files?.[0] || null);
+                    }}
+                    className="block cursor-pointer rounded-xl border-2 border-dashed p-5 text-center transition-all duration-300 hover:-translate-y-0.5 sm:p-8"
                     style={{
-                      borderColor: file && !fileError ? "#A7F3D0" : "#CBD5E1",
-                      background: file && !fileError ? "#ECFDF5" : "#F1F5F9",
-                      color: file && !fileError ? "#047857" : "#475569",
+                      borderColor: dragActive ? CYAN : "#B9C9D9",
+                      background: dragActive ? "#E9F8FC" : "#F8FBFF",
                     }}
                   >
-                    {file && !fileError ? "Ready to Process" : "Waiting for Valid VCF"}
-                  </span>
-                </div>
-                <div className="mx-auto mt-3 h-2 w-full max-w-md overflow-hidden rounded-full bg-slate-200">
-                  <div className="h-full" style={{ width: `${fileUsagePercent}%`, background: fileError ? TOXIC : NAVY }} />
-                </div>
-                <p className="mt-1 text-xs" style={{ color: MUTED }}>
-                  {file ? `${file.name} (${formatBytes(file.size)})` : "No file selected"}
-                </p>
-              </label>
+                    <input ref={fileInputRef} className="sr-only" type="file" accept=".vcf,.gz,.bgz" onChange={async (e) => assignFile(e.target.files?.[0] || null)} />
+                    <div className="mx-auto mb-3 inline-flex h-12 w-12 items-center justify-center rounded-xl border border-[#BFEFF8] bg-[#E8FAFE]">
+                      <svg viewBox="0 0 24 24" className="h-6 w-6" fill="none" stroke={CYAN} strokeWidth="1.8">
+                        <path d="M7 3c2 2 2 4 0 6s-2 4 0 6 2 4 0 6" />
+                        <path d="M17 3c-2 2-2 4 0 6s2 4 0 6-2 4 0 6" />
+                        <path d="M8 8h8M8 16h8" />
+                      </svg>
+                    </div>
+                    <p className="text-sm font-medium">Drag and drop .vcf file or click to browse</p>
+                    <p className="mt-1 text-xs" style={{ color: MUTED }}>
+                      Supported formats: `.vcf`, bgzipped `.vcf.gz`. Larger files are reduced to the panel loci.
+                    </p>
+                    <div className="mt-3 flex justify-center gap-2">
+                      <span className="rounded-full border px-2 py-1 text-[11px] font-semibold" style={{ borderColor: "#BEE3F8", background: "#EBF8FF", color: NAVY }}>
+                        5 MB max
+                      </span>
+                      <span
+                        className="rounded-full border px-2 py-1 text-[11px] font-semibold"
+                        style={{
+                          borderColor: file && !fileError ? "#A7F3D0" : "#CBD5E1",
+                          background: file && !fileError ? "#ECFDF5" : "#F1F5F9",
+                          color: file && !fileError ? "#047857" : "#475569",
+                        }}
+                      >
+                        {file && !fileError ? "Ready to Process" : "Waiting for Valid VCF"}
+                      </span>
+                    </div>
+                    <div
+                      role="meter"
+                      aria-label={`File size of the ${formatBytes(MAX_FILE_SIZE)} limit`}
+                      aria-valuenow={fileUsagePercent}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuetext={`${fileUsagePercent}%`}
+                      className="mx-auto mt-3 h-2 w-full max-w-md overflow-hidden rounded-full bg-slate-200"
+                    >
+                      <div className="h-full" style={{ width: `${fileUsagePercent}%`, background: fileError ? TOXIC : NAVY }} />
+                    </div>
+                    <p className="mt-1 text-xs" style={{ color: MUTED }}>
+                      {preparing ? "Reading file..." : file ? `${file.name} (${formatBytes(file.size)})` : "No file selected"}
+                    </p>
+                  </label>
+                  {vcfInput && (
+                    <SamplePicker
+                      input={vcfInput.input}
+                      selected={vcfInput.sample}
+                      disabled={loading || preparing}
+                      onSelect={(index) => {
+                        setVcfInput({ ...vcfInput, sample: index });
+                        void selectSample(vcfInput.input, index);
+                      }}
+                      onAnalyzeAll={analyzeAllSamples}
+                    />
+                  )}
+                  {file && coverage && (
+                    <GeneCoveragePreview coverage={coverage.genes} totalRows={coverage.rows} selectedDrugs={selectedDrugs} drugGenes={drugGeneMap(knowledge)} />
+                  )}
+                  {file && redaction && <RedactionSummary summary={redaction.summary} enabled={deidentify} onToggle={setDeidentify} />}
+                </>
+              )}
             </div>
 
             <div>
-              <p className="mb-2 text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+              <p id="section-drugs" tabIndex={-1} className="mb-2 text-xs font-semibold uppercase tracking-[0.14em] outline-none" style={{ color: MUTED }}>
                 Drug Selector
               </p>
               <div className="rounded-xl border bg-[#F8FBFF] p-3 sm:p-4" style={{ borderColor: "#D7E1EC", boxShadow: "inset 0 1px 0 rgba(255,255,255,0.8)" }}>
@@ -618,6 +1036,7 @@ export default function Home() {
                     <button
                       type="button"
                       onClick={() => setMode("single")}
+                      aria-pressed={!multiMode}
                       className="rounded-md px-3 py-1 text-xs font-semibold transition"
                       style={{ background: !multiMode ? NAVY : "transparent", color: !multiMode ? "#fff" : MUTED }}
                     >
@@ -626,6 +1045,7 @@ export default function Home() {
                     <button
                       type="button"
                       onClick={() => setMode("multi")}
+                      aria-pressed={multiMode}
                       className="rounded-md px-3 py-1 text-xs font-semibold transition"
                       style={{ background: multiMode ? NAVY : "transparent", color: multiMode ? "#fff" : MUTED }}
                     >
@@ -635,7 +1055,9 @@ export default function Home() {
                 </div>
                 <div className="flex gap-2">
                   <input
+                    id="drug-search"
                     list="drug-options"
+                    aria-label="Search or add drug"
                     value={drugInput}
                     onChange={(e) => setDrugInput(e.target.value.toUpperCase())}
                     onKeyDown={(e) => {
@@ -658,16 +1080,53 @@ export default function Home() {
                   </button>
                 </div>
                 <datalist id="drug-options">
-                  {DRUG_OPTIONS.map((d) => (
-                    <option key={d} value={d} />
-                  ))}
+                  {drugMatches.length
+                    ? drugMatches.map((m) => (
+                        <option key={m.drug} value={m.drug}>
+                          {m.kind === "exact" ? findDrug(knowledge, m.drug)?.therapeuticClass : `${m.matched} → ${m.drug}`}
+                        </option>
+                      ))
+                    : drugNames(knowledge).map((d) => <option key={d} value={d} />)}
                 </datalist>
+                {!!drugInput.trim() && !drugMatches.some((m) => m.kind === "exact") && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5 text-[11px]" style={{ color: MUTED }}>
+                    {drugMatches.length ? (
+                      <>
+                        <span>Matches:</span>
+                        {drugMatches.slice(0, 4).map((m) => (
+                          <button key={m.drug} type="button" onClick={() => addDrug(m.drug)} className="rounded-full border px-2 py-0.5 font-semibold hover:bg-[#EFF6FF]" style={{ borderColor: "#D7E1EC", color: NAVY }}>
+                            {m.kind === "synonym" || m.kind === "prefix" ? `${m.matched} → ${m.drug}` : m.drug}
+                          </button>
+                        ))}
+                      </>
+                    ) : (
+                      <span className="text-amber-700">Not a supported drug.</span>
+                    )}
+                  </div>
+                )}
+
+                {multiMode &&
+                  (importOpen ? (
+                    <MedicationImport
+                      knowledge={knowledge}
+                      onApply={(drugs) => {
+                        setSelectedDrugs(drugs);
+                        setInputError("");
+                        setImportOpen(false);
+                      }}
+                      onClose={() => setImportOpen(false)}
+                    />
+                  ) : (
+                    <button type="button" onClick={() => setImportOpen(true)} className="mt-2 text-xs font-semibold" style={{ color: NAVY }}>
+                      Import medication list (CSV, HL7 v2, FHIR)
+                    </button>
+                  ))}
 
                 <div className="mt-3 flex flex-wrap gap-2">
                   {selectedDrugs.map((d) => (
                     <span key={d} className="inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5" style={{ borderColor: "#9ADDF0", background: "#E9F8FC", color: NAVY }}>
                       {d}
-                      <button type="button" onClick={() => removeDrug(d)} className="rounded-full px-1 font-bold" style={{ color: CYAN }}>
+                      <button type="button" onClick={() => removeDrug(d)} aria-label={`Remove ${d}`} className="rounded-full px-1 font-bold" style={{ color: CYAN }}>
                         x
                       </button>
                     </span>
@@ -690,7 +1149,7 @@ export default function Home() {
                 </div>
 
                 <div className="mt-4 flex flex-wrap gap-2">
-                  {CORE_DRUGS.map((d) => (
+                  {coreDrugNames(knowledge).map((d) => (
                     <button
                       key={d}
                       type="button"
@@ -705,44 +1164,97 @@ export default function Home() {
 
                 <button
                   type="button"
-                  onClick={handleAnalyze}
-                  disabled={loading}
+                  onClick={workspace === "cohort" ? handleCohortRun : () => handleAnalyze()}
+                  disabled={loading || cohortRunning}
                   className="mt-5 w-full rounded-full px-5 py-3 text-sm font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:brightness-110 active:translate-y-0 disabled:opacity-60"
                   style={{ background: NAVY, boxShadow: "0 4px 10px rgba(15,76,129,0.25)" }}
                 >
-                  Analyze Genomic Profile
+                  {workspace === "cohort"
+                    ? cohortRunning
+                      ? "Screening Cohort..."
+                      : `Screen ${cohortEntries.length} Patient${cohortEntries.length === 1 ? "" : "s"}`
+                    : "Analyze Genomic Profile"}
                 </button>
               </div>
             </div>
           </div>
 
-          {(fileError || inputError || apiError) && (
+          {(fileError || inputError || apiError || historyError) && (
             <div className="mt-4 space-y-2">
-              {!!fileError && <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{fileError}</p>}
-              {!!inputError && <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">{inputError}</p>}
-              {!!apiError && <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{apiError}</p>}
+              {!!fileError && <p role="alert" className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{fileError}</p>}
+              {!!inputError && <p role="alert" className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">{inputError}</p>}
+              {!!apiError && <p role="alert" className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{apiError}</p>}
+              {!!historyError && <p role="status" className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">{historyError}</p>}
             </div>
           )}
         </section>
 
-        {loading && (
+        {workspace === "cohort" && cohortRunning && (
           <section className="reveal mt-6 rounded-2xl border p-4 shadow-sm sm:p-5" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.6)" }}>
-            <div className="mb-4 flex items-center gap-3">
-              <span className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />
-              <p className="text-sm font-semibold" style={{ color: NAVY }}>
-                {LOADING_STEPS[loadingStep]}
-              </p>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <span className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />
+                <p className="text-sm font-semibold" style={{ color: NAVY }} role="status" aria-live="polite">
+                  Screened {cohortEntries.filter((e) => e.status === "done" || e.status === "failed").length} of {cohortEntries.length} patients
+                </p>
+              </div>
+              <button type="button" onClick={() => abortRef.current?.abort()} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors duration-200 hover:bg-red-50" style={{ borderColor: "#FECACA", color: TOXIC }}>
+                Cancel
+              </button>
             </div>
-            <div className="grid gap-3 md:grid-cols-3">
-              <SkeletonCard />
-              <SkeletonCard />
-              <SkeletonCard />
+            <p className="mt-1 text-[11px]" style={{ color: MUTED }}>
+              Cancelling stops the files in flight and returns them to the queue; finished results are kept.
+            </p>
+          </section>
+        )}
+
+        {workspace === "cohort" && cohortDrugs.length > 0 && cohortEntries.some((e) => e.status !== "queued") && (
+          <section className="mt-6">
+            <CohortMatrix entries={cohortEntries} drugs={cohortDrugs} />
+          </section>
+        )}
+
+        {workspace !== "cohort" && loading && (
+          <section className="reveal mt-6 rounded-2xl border p-4 shadow-sm sm:p-5" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.6)" }}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <span className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />
+                <p className="text-sm font-semibold" style={{ color: NAVY }} role="status" aria-live="polite">
+                  {progress.label}
+                </p>
+              </div>
+              <button type="button" onClick={() => abortRef.current?.abort()} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors duration-200 hover:bg-red-50" style={{ borderColor: "#FECACA", color: TOXIC }}>
+                Cancel
+              </button>
             </div>
+            {progress.total > 1 && (
+              <div className="mt-3">
+                <div role="progressbar" aria-label="Drugs analyzed" aria-valuenow={progress.done} aria-valuemin={0} aria-valuemax={progress.total} className="h-1.5 overflow-hidden rounded-full bg-slate-200">
+                  <div className="h-full rounded-full transition-all duration-300" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%`, background: CYAN }} />
+                </div>
+                <p className="mt-1 text-[11px]" style={{ color: MUTED }}>
+                  {progress.done} of {progress.total} drugs analyzed
+                </p>
+              </div>
+            )}
+            {!singleResult && !batchResult && (
+              <div className="mt-4 grid gap-3 md:grid-cols-3">
+                <SkeletonCard />
+                <SkeletonCard />
+                <SkeletonCard />
+              </div>
+            )}
           </section>
         )}
 
-        {(singleResult || batchResult) && !loading && (
-          <section className="mt-6 space-y-4">
+        {workspace !== "cohort" && (singleResult || batchResult) && (
+          <section className="mt-6 space-y-4" aria-busy={loading}>
+            {isOfflineResult(currentAnalysis) && (
+              <div className="reveal rounded-xl border border-amber-200 bg-amber-50 p-4" role="status">
+                <p className="text-xs font-semibold uppercase tracking-[0.14em] text-amber-800">{OFFLINE_LABEL}</p>
+                <p className="mt-1 text-sm text-amber-900">{OFFLINE_DRUGS_NOTE}</p>
+              </div>
+            )}
             {!!annotationNotes.length && (
               <div className="reveal rounded-xl border border-amber-200 bg-amber-50 p-4">
                 <p className="text-xs font-semibold uppercase tracking-[0.14em] text-amber-800">
@@ -767,8 +1279,13 @@ export default function Home() {
                     Patient Identity
                   </p>
                   <p className="mt-1 text-sm font-semibold">
-                    {singleResult?.patient_id || batchResult?.patient_id || "N/A"}
+                    {reidentified ? reidentified.realId : shownPatientId || "N/A"}
                   </p>
+                  {reidentified && (
+                    <p className="text-[11px]" style={{ color: MUTED }}>
+                      Sent as {reidentified.pseudonym}, re-identified in this browser
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
@@ -781,46 +1298,104 @@ export default function Home() {
 
             <div className="grid gap-4 lg:grid-cols-[1.2fr_1fr]">
               <div className="space-y-3">
-                <div className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.5)" }}>
+                <div id="section-risk" tabIndex={-1} className="reveal rounded-2xl border p-4 shadow-sm outline-none" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.5)" }}>
                   <div className="flex flex-wrap items-center justify-between gap-2">
                     <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
                       Risk Matrix
                     </p>
                     <div className="flex flex-wrap items-center gap-2 text-[10px] font-semibold">
-                      <span className="rounded-full border px-2 py-1" style={{ borderColor: "#A7F3D0", background: "#ECFDF5", color: "#047857" }}>Green = Safe</span>
-                      <span className="rounded-full border px-2 py-1" style={{ borderColor: "#FDE68A", background: "#FFFBEB", color: "#B45309" }}>Yellow = Adjust</span>
-                      <span className="rounded-full border px-2 py-1" style={{ borderColor: "#FECACA", background: "#FEF2F2", color: "#B91C1C" }}>Red = Toxic/Ineffective</span>
+                      {RISK_LEGEND.map(({ tone, label, shape }) => (
+                        <span key={tone} title={`${label}: ${shape}`} className="inline-flex items-center gap-1 rounded-full border px-2 py-1" style={riskBadgeStyle(label)}>
+                          <RiskIcon tone={tone} size={10} />
+                          {label}
+                        </span>
+                      ))}
                     </div>
                   </div>
+                  {!!graphSelection && (
+                    <div className="mt-2 flex items-center justify-between rounded-lg border px-3 py-1.5 text-xs" style={{ borderColor: "#9ADDF0", background: "#E9F8FC", color: NAVY }}>
+                      <span>
+                        Showing {graphSelection.kind === "gene" ? `drugs metabolized by ${graphSelection.id}` : graphSelection.id} ({visibleCards.length} of {riskCards.length})
+                      </span>
+                      <button type="button" onClick={() => setGraphSelection(null)} className="font-semibold" style={{ color: CYAN }}>
+                        Clear filter
+                      </button>
+                    </div>
+                  )}
                   <div className="mt-3 space-y-3">
-                    {riskCards.map((card) => (
-                      <div key={card.drug} className="rounded-xl border bg-white p-3 shadow-sm transition-all duration-200 hover:-translate-y-0.5 hover:shadow-md" style={{ borderLeft: `6px solid ${riskColor(card.label)}`, borderColor: "#D7E1EC" }}>
+                    {visibleCards.map((engineCard) => {
+                      const decision = decisionFor(review, engineCard.drug);
+                      const card = effectiveCard(engineCard, decision);
+                      const overridden = card !== engineCard;
+                      return (
+                      <div key={card.drug} className="rounded-xl border bg-white p-3 shadow-sm transition-all duration-200 hover:-translate-y-0.5 hover:shadow-md" style={{ borderColor: overridden ? OVERRIDE : "#D7E1EC", borderLeft: riskStripe(card.label) }}>
                         <div className="flex items-center justify-between gap-3">
                           <div>
                             <p className="text-sm font-semibold">{card.drug}</p>
-                            <div className="mt-1 flex items-center gap-2">
-                              <span className="rounded-full border px-2 py-0.5 text-[10px] font-bold uppercase" style={riskBadgeStyle(card.label)}>
+                            <div className="mt-1 flex flex-wrap items-center gap-2">
+                              <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-bold uppercase" style={riskBadgeStyle(card.label)}>
+                                <RiskIcon tone={toneFor(card.label)} size={10} />
                                 {card.label}
                               </span>
+                              {overridden && (
+                                <>
+                                  <span className="rounded-full px-2 py-0.5 text-[10px] font-bold uppercase text-white" style={{ background: OVERRIDE }}>
+                                    Clinician override
+                                  </span>
+                                  <span className="text-[11px] line-through" style={{ color: MUTED }} title="Engine output">
+                                    Engine: {engineCard.label}
+                                  </span>
+                                </>
+                              )}
                               <span className="text-xs" style={{ color: MUTED }}>
                                 Severity: {card.severity}
                               </span>
                             </div>
                           </div>
-                          <ConfidenceDonut value={card.confidence} color={CYAN} />
+                          <div className="flex flex-col items-center gap-1">
+                            <ConfidenceDonut value={card.confidence} color={CYAN} label={`${card.drug} confidence`} />
+                            <button
+                              type="button"
+                              onClick={() => setConfidenceOpen((open) => (open === card.drug ? null : card.drug))}
+                              aria-expanded={confidenceOpen === card.drug}
+                              aria-label={`${confidenceOpen === card.drug ? "Hide" : "Show"} ${card.drug} confidence breakdown`}
+                              className="text-[10px] font-semibold"
+                              style={{ color: NAVY }}
+                            >
+                              {confidenceOpen === card.drug ? "Hide" : "Why?"}
+                            </button>
+                          </div>
                         </div>
+                        {confidenceOpen === card.drug && <ConfidenceBreakdown explanation={confidenceBreakdownFor(card.drug)} />}
                         <p className="mt-2 text-xs" style={{ color: MUTED }}>
                           Gene: {card.gene} | Phenotype: {card.phenotype}
                         </p>
                         <p className="mt-2 text-xs">
-                          <span className="font-semibold" style={{ color: NAVY }}>
-                            Recommendation:
+                          <span className="font-semibold" style={{ color: overridden ? OVERRIDE : NAVY }}>
+                            {overridden ? "Clinician recommendation:" : "Recommendation:"}
                           </span>{" "}
                           {card.recommendation}
                         </p>
+                        {overridden && card.recommendation !== engineCard.recommendation && (
+                          <p className="mt-1 text-xs line-through" style={{ color: MUTED }}>
+                            Engine: {engineCard.recommendation}
+                          </p>
+                        )}
+                        <DoseCalculator key={`${engineCard.drug}-${shownPatientId}-${engineCard.diplotype}`} card={engineCard} variants={variantsFor(engineCard.drug)} />
+                        <AlternativesPanel drug={card.drug} alternatives={suggestAlternatives(knowledge, card, riskCards)} canRerun={canRerun} onTry={(to) => handleAnalyze({ from: card.drug, to })} />
+                        <ReviewControls
+                          key={`${card.drug}-${decision?.reviewed_at || "none"}`}
+                          card={engineCard}
+                          decision={decision}
+                          readOnly={reviewLocked}
+                          onDecide={(input) => reviewCard(engineCard, input)}
+                          onUndo={() => updateReview(undoDecision(review, engineCard.drug))}
+                        />
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
+                  <SignOffPanel review={review} total={riskCards.length} pending={pendingDrugs(review, riskCards)} readOnly={reviewLocked} onSign={signReport} />
                 </div>
               </div>
 
@@ -840,7 +1415,7 @@ export default function Home() {
                     <div className="pt-1">
                       <p className="text-xs text-slate-400">Detected Core Genes:</p>
                       <div className="mt-2 flex flex-wrap gap-2">
-                        {CORE_GENES.map((g) => (
+                        {geneSymbols(knowledge).map((g) => (
                           <span key={g} className="rounded-full border px-2 py-0.5 text-[10px] font-semibold" style={{ borderColor: detectedGenes.has(g) ? "#34D399" : "#475569", color: detectedGenes.has(g) ? "#6EE7B7" : "#94A3B8" }}>
                             {g}
                           </span>
@@ -851,7 +1426,9 @@ export default function Home() {
                 </div>
 
                 <div
-                  className="reveal rounded-2xl border p-4 shadow-sm"
+                  id="section-explanation"
+                  tabIndex={-1}
+                  className="reveal rounded-2xl border p-4 shadow-sm outline-none"
                   style={{
                     background: CARD_BG,
                     borderColor: "#7DDFF2",
@@ -870,7 +1447,7 @@ export default function Home() {
                       <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3 transition-all duration-200 hover:shadow-sm">
                         <p className="text-xs font-semibold text-amber-800">Dosing Recommendation (CPIC-aligned)</p>
                         <p className="mt-1 text-sm">
-                          {singleResult.llm_generated_explanation?.recommendation || singleResult.clinical_recommendation?.action || "CPIC-aligned recommendation pending clinician review."}
+                          {singleResult.llm_generated_explanation?.recommendation || singleResult.clinical_recommendation?.action || singleResult.clinical_recommendation?.recommendation_text || "CPIC-aligned recommendation pending clinician review."}
                         </p>
                       </div>
                     </>
@@ -896,47 +1473,98 @@ export default function Home() {
                   )}
                 </div>
 
-                {!!batchResult?.polypharmacy_warnings?.length && (
-                  <div className="reveal rounded-2xl border border-red-200 bg-red-50 p-4">
-                    <p className="text-xs font-semibold uppercase tracking-[0.14em] text-red-700">Polypharmacy Warnings</p>
-                    <div className="mt-2 space-y-2">
-                      {batchResult.polypharmacy_warnings.map((w, i) => (
-                        <div key={`${w.warning || "w"}-${i}`} className="rounded-lg border border-red-200 bg-white p-2 text-sm">
-                          <p className="font-semibold text-red-800">{w.warning}</p>
-                          <p className="mt-1 text-xs text-red-700">{w.clinical_note}</p>
-                        </div>
-                      ))}
+                {!!interactionGraph && (
+                  <div id="section-interactions" tabIndex={-1} className="reveal rounded-2xl border p-4 shadow-sm outline-none" style={{ background: CARD_BG, borderColor: "#D7E1EC" }}>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+                        Polypharmacy Interactions
+                      </p>
+                      <p className="text-[10px]" style={{ color: MUTED }}>
+                        Click a node to filter the Risk Matrix
+                      </p>
+                    </div>
+                    <div className="mt-2">
+                      <InteractionGraph graph={interactionGraph} selection={graphSelection} onSelect={setGraphSelection} />
                     </div>
                   </div>
                 )}
               </div>
             </div>
 
-            <div className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.5)" }}>
-              <div className="flex flex-wrap items-center justify-between gap-3">
-                <button type="button" className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }} onClick={() => setRawOpen((v) => !v)}>
-                  {rawOpen ? "Hide Raw JSON" : "View Raw JSON"}
-                </button>
-                {rawOpen && (
+            {whatIf && workspace === "manual" && !loading && (
+              <div className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#7DDFF2" }}>
+                <p className="mb-2 text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: CYAN }}>
+                  What-if: previous run vs this run
+                </p>
+                <WhatIfDiff before={whatIf.before} after={whatIf.after} changes={whatIf.changes} />
+              </div>
+            )}
+
+            {swapResult && !loading && (
+              <div className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#7DDFF2" }}>
+                <p className="mb-2 text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: CYAN }}>
+                  Alternative: previous run vs this run
+                </p>
+                <SwapDiff outcome={swapResult} />
+              </div>
+            )}
+
+            {hasVariants && currentAnalysis && (
+              <div id="section-variants" tabIndex={-1} className="reveal rounded-2xl border p-4 shadow-sm outline-none" style={{ background: CARD_BG, borderColor: "#D7E1EC" }}>
+                <div className="mb-3 flex items-center justify-between gap-2">
+                  <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+                    Variant Explorer
+                  </p>
+                  <p className="text-[10px]" style={{ color: MUTED }}>
+                    Click a variant to see how its diplotype was assembled
+                  </p>
+                </div>
+                <VariantExplorer analysis={currentAnalysis} />
+              </div>
+            )}
+
+            {/* Exports wait for the full result; a streaming run only has some drugs so far. */}
+            {!loading && (
+              <div id="section-exports" tabIndex={-1} className="reveal rounded-2xl border p-4 shadow-sm outline-none" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.5)" }}>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <button type="button" className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }} onClick={() => setRawOpen((v) => !v)}>
+                    {rawOpen ? "Hide Raw JSON" : "View Raw JSON"}
+                  </button>
                   <div className="flex gap-2">
-                    <button type="button" onClick={copyJson} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
-                      {copyState || "Copy JSON"}
+                    <button type="button" onClick={downloadPdfReport} disabled={reportBusy} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF] disabled:opacity-60" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+                      {reportBusy ? "Building PDF..." : "PDF Report"}
                     </button>
-                    <button type="button" onClick={downloadJson} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
-                      Download
+                    <button type="button" onClick={printHtmlReport} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+                      Print Report
                     </button>
                   </div>
+                  {rawOpen && (
+                    <div className="flex gap-2">
+                      <button type="button" onClick={copyJson} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+                        {copyState || "Copy JSON"}
+                      </button>
+                      <button type="button" onClick={downloadJson} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+                        Download
+                      </button>
+                      <button type="button" onClick={downloadFhir} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+                        FHIR Bundle
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {rawOpen && (
+                  <pre className="mt-3 max-h-96 overflow-auto rounded-lg border border-slate-700 bg-[#0F172A] p-3 text-xs leading-relaxed text-slate-100">
+                    {rawJson}
+                  </pre>
                 )}
               </div>
-              {rawOpen && (
-                <pre className="mt-3 max-h-96 overflow-auto rounded-lg border border-slate-700 bg-[#0F172A] p-3 text-xs leading-relaxed text-slate-100">
-                  {rawJson}
-                </pre>
-              )}
-            </div>
+            )}
           </section>
         )}
       </main>
+      <HistoryDrawer open={historyOpen} revision={historyRevision} onClose={() => setHistoryOpen(false)} onOpenEntry={openHistoryEntry} />
+      <CommandPalette open={paletteOpen} commands={paletteOpen ? paletteCommands() : []} onClose={() => setPaletteOpen(false)} />
+      {compareOpen && <CompareView onClose={() => setCompareOpen(false)} current={currentAnalysis} />}
       <style jsx global>{`
         .reveal {
           animation: rise-in 420ms ease-out both;
@@ -0,0 +1,59 @@
+import RiskIcon from "@/components/RiskIcon";
+import { type AlternativeCheck, type AlternativeVerdict, VERDICT_LABELS } from "@/lib/alternatives";
+import { toneBadgeStyle } from "@/lib/risk";
+import { MUTED, NAVY } from "@/lib/theme";
+import type { Tone } from "@/lib/types";
+
+type Props = {
+  drug: string;
+  alternatives: AlternativeCheck[];
+  /** False while an analysis runs or when there is no genotype to re-run against. */
+  canRerun: boolean;
+  onTry: (alternative: string) => void;
+};
+
+const VERDICT_TONE: Record<AlternativeVerdict, Tone> = { suitable: "safe", caution: "adjust", avoid: "toxic", untested: "unknown" };
+
+export default function AlternativesPanel({ drug, alternatives, canRerun, onTry }: Props) {
+  if (!alternatives.length) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border p-2" style={{ borderColor: "#D7E1EC", background: "#F8FAFC" }}>
+      <p className="text-[11px] font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+        Alternatives to {drug}
+      </p>
+      <ul className="mt-1.5 space-y-1.5">
+        {alternatives.map((alt) => (
+          <li key={alt.drug} className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-semibold" style={{ color: NAVY }}>
+              {alt.drug}
+            </span>
+            <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-bold uppercase" style={toneBadgeStyle(VERDICT_TONE[alt.verdict])}>
+              <RiskIcon tone={VERDICT_TONE[alt.verdict]} size={10} />
+              {VERDICT_LABELS[alt.verdict]}
+            </span>
+            <span style={{ color: MUTED }}>
+              {alt.note}
+              {!!alt.reasons.length && ` (${alt.reasons.join("; ")})`}
+            </span>
+            {alt.analyzable ? (
+              <button
+                type="button"
+                disabled={!canRerun}
+                onClick={() => onTry(alt.drug)}
+                className="ml-auto rounded-lg border px-2.5 py-1 text-[11px] font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF] disabled:cursor-not-allowed disabled:opacity-50"
+                style={{ borderColor: "#C7D4E3", color: NAVY }}
+              >
+                Re-run with {alt.drug}
+              </button>
+            ) : (
+              <span className="ml-auto text-[10px]" style={{ color: MUTED }}>
+                Not analyzable by PharmaGuard
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
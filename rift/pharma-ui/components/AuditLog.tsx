@@ -0,0 +1,206 @@
+import { type FormEvent, useEffect, useState } from "react";
+import { getAuditLog, toFriendlyApiError } from "@/lib/api";
+import { ADJUST, CARD_BG, MUTED, NAVY, SAFE, TEXT, TOXIC } from "@/lib/theme";
+import type { AuditEntry, AuditOutcome, AuditQuery } from "@/lib/types";
+
+const OUTCOME_COLORS: Record<AuditOutcome, string> = {
+  success: SAFE,
+  rejected: ADJUST,
+  error: TOXIC,
+  cancelled: MUTED,
+};
+
+const ENDPOINTS = ["/analyze", "/analyze/batch", "/analyze/stream"];
+
+const inputClass = "mt-1 w-full rounded-lg border bg-white px-2 py-1.5 text-xs outline-none focus:border-[#00B4D8]";
+
+export default function AuditLog() {
+  const [draft, setDraft] = useState<AuditQuery>({});
+  const [query, setQuery] = useState<AuditQuery>({});
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getAuditLog(query, { signal: controller.signal })
+      .then((rows) => {
+        setEntries(rows);
+        setError("");
+      })
+      .catch((e) => {
+        if (!controller.signal.aborted) setError(toFriendlyApiError(e));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [query, revision]);
+
+  function apply(e: FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setQuery({ ...draft });
+  }
+
+  function reset() {
+    setDraft({});
+    setLoading(true);
+    setQuery({});
+  }
+
+  const field = (key: keyof AuditQuery) => ({
+    value: String(draft[key] ?? ""),
+    onChange: (e: { target: { value: string } }) => setDraft((d) => ({ ...d, [key]: e.target.value || undefined })),
+  });
+
+  return (
+    <section className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#D7E1EC" }}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+            Analysis Audit Log
+          </p>
+          <p className="mt-1 text-xs" style={{ color: MUTED }}>
+            Every analysis call with who ran it, the file&apos;s SHA-256, the drugs requested and how it ended. Files themselves are never stored.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setLoading(true);
+            setRevision((r) => r + 1);
+          }}
+          className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]"
+          style={{ borderColor: "#C7D4E3", color: NAVY }}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <form onSubmit={apply} className="mt-3 grid gap-2 sm:grid-cols-3 lg:grid-cols-7">
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          User
+          <input {...field("user")} placeholder="Name or id" className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }} />
+        </label>
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          Drug
+          <input {...field("drug")} placeholder="e.g. WARFARIN" className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }} />
+        </label>
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          Outcome
+          <select {...field("outcome")} className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }}>
+            <option value="">Any</option>
+            {(Object.keys(OUTCOME_COLORS) as AuditOutcome[]).map((o) => (
+              <option key={o} value={o}>
+                {o}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          Endpoint
+          <select {...field("endpoint")} className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }}>
+            <option value="">Any</option>
+            {ENDPOINTS.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          From
+          <input type="date" {...field("since")} className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }} />
+        </label>
+        <label className="text-[11px] font-semibold" style={{ color: MUTED }}>
+          To
+          <input type="date" {...field("until")} className={inputClass} style={{ borderColor: "#C7D4E3", color: TEXT }} />
+        </label>
+        <div className="flex items-end gap-2">
+          <button type="submit" className="rounded-lg px-3 py-1.5 text-xs font-semibold text-white transition hover:opacity-90" style={{ background: NAVY }}>
+            Apply
+          </button>
+          <button type="button" onClick={reset} className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition hover:bg-[#EFF6FF]" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <p className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm" style={{ color: TOXIC }} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full min-w-[860px] text-left text-xs">
+          <thead>
+            <tr className="border-b" style={{ borderColor: "#E2E8F0", color: MUTED }}>
+              <th className="py-2 pr-3 font-semibold">Time (UTC)</th>
+              <th className="py-2 pr-3 font-semibold">User</th>
+              <th className="py-2 pr-3 font-semibold">Endpoint</th>
+              <th className="py-2 pr-3 font-semibold">Drugs</th>
+              <th className="py-2 pr-3 font-semibold">File</th>
+              <th className="py-2 pr-3 font-semibold">Outcome</th>
+              <th className="py-2 font-semibold">Detail</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-b align-top" style={{ borderColor: "#F1F5F9", color: TEXT }}>
+                <td className="py-2 pr-3 whitespace-nowrap">{entry.timestamp.replace("T", " ").slice(0, 19)}</td>
+                <td className="py-2 pr-3">
+                  <p className="font-semibold">{entry.user_name}</p>
+                  <p style={{ color: MUTED }}>
+                    {entry.role}
+                    {entry.user_id !== entry.user_name ? ` · ${entry.user_id}` : ""}
+                  </p>
+                </td>
+                <td className="py-2 pr-3 font-mono">{entry.endpoint}</td>
+                <td className="py-2 pr-3">
+                  {entry.drugs.map((drug) => (
+                    <p key={drug}>
+                      {drug}
+                      {entry.risk_labels[drug] && <span style={{ color: MUTED }}> · {entry.risk_labels[drug]}</span>}
+                    </p>
+                  ))}
+                </td>
+                <td className="py-2 pr-3">
+                  <p>{entry.file_name || "—"}</p>
+                  {entry.file_sha256 && (
+                    <p className="font-mono" style={{ color: MUTED }} title={entry.file_sha256}>
+                      sha256 {entry.file_sha256.slice(0, 12)}…
+                    </p>
+                  )}
+                </td>
+                <td className="py-2 pr-3">
+                  <span className="rounded-full px-2 py-0.5 text-[11px] font-semibold text-white" style={{ background: OUTCOME_COLORS[entry.outcome] }}>
+                    {entry.outcome}
+                  </span>
+                  <p className="mt-1" style={{ color: MUTED }}>
+                    HTTP {entry.status_code}
+                  </p>
+                </td>
+                <td className="py-2" style={{ color: MUTED }}>
+                  {entry.detail || ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && !error && !entries.length && (
+          <p className="py-6 text-center text-sm" style={{ color: MUTED }}>
+            No analysis calls match these filters.
+          </p>
+        )}
+        {loading && (
+          <p className="py-6 text-center text-sm" style={{ color: MUTED }}>
+            Loading audit entries...
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
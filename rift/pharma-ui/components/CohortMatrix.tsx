@@ -0,0 +1,84 @@
+import RiskIcon from "@/components/RiskIcon";
+import type { CohortEntry } from "@/lib/cohort";
+import { riskBadgeStyle, riskStripe, toneFor } from "@/lib/risk";
+import { CARD_BG, MUTED, TOXIC } from "@/lib/theme";
+
+type Props = {
+  entries: CohortEntry[];
+  drugs: string[];
+};
+
+export default function CohortMatrix({ entries, drugs }: Props) {
+  const toxicPatients = entries.filter((e) => e.cards?.some((c) => toneFor(c.label) === "toxic")).length;
+  const failed = entries.filter((e) => e.status === "failed").length;
+
+  return (
+    <div className="reveal rounded-2xl border p-4 shadow-sm" style={{ background: CARD_BG, borderColor: "#D7E1EC", boxShadow: "0 12px 22px -18px rgba(15, 76, 129, 0.5)" }}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+          Cohort Risk Grid
+        </p>
+        <p className="text-xs" style={{ color: MUTED }}>
+          {toxicPatients} patient(s) with a toxic/ineffective result · {failed} file(s) failed
+        </p>
+      </div>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left font-semibold" style={{ color: MUTED }}>
+                Patient
+              </th>
+              {drugs.map((drug) => (
+                <th key={drug} className="px-2 py-1 text-center font-semibold" style={{ color: MUTED }}>
+                  {drug}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => {
+              const byDrug = new Map((entry.cards || []).map((c) => [c.drug.toUpperCase(), c]));
+              return (
+                <tr key={entry.id}>
+                  <td className="whitespace-nowrap px-2 py-1 font-semibold" title={entry.file.name}>
+                    {entry.patientId}
+                  </td>
+                  {entry.status === "failed" ? (
+                    <td colSpan={drugs.length} className="rounded-md border px-2 py-1 text-[11px]" style={{ borderColor: "#FECACA", background: "#FEF2F2", color: TOXIC }}>
+                      {entry.error}
+                    </td>
+                  ) : (
+                    drugs.map((drug) => {
+                      const card = byDrug.get(drug);
+                      if (!card) {
+                        return (
+                          <td key={drug} className="rounded-md border px-2 py-1 text-center" style={{ borderColor: "#E2E8F0", color: MUTED }}>
+                            {entry.status === "running" ? "…" : "—"}
+                          </td>
+                        );
+                      }
+                      return (
+                        <td
+                          key={drug}
+                          className="rounded-md border px-2 py-1 text-center text-[10px] font-bold uppercase"
+                          style={{ ...riskBadgeStyle(card.label), borderLeft: riskStripe(card.label, 4) }}
+                          title={`${card.gene} · ${card.phenotype} · ${card.confidence}% confidence\n${card.recommendation}`}
+                        >
+                          <span className="inline-flex items-center gap-1">
+                            <RiskIcon tone={toneFor(card.label)} size={10} />
+                            {card.label}
+                          </span>
+                        </td>
+                      );
+                    })
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
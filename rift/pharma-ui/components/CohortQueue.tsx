@@ -0,0 +1,136 @@
+import { useState } from "react";
+import type { CohortEntry, CohortStatus } from "@/lib/cohort";
+import { CYAN, MUTED, NAVY, TOXIC } from "@/lib/theme";
+import { formatBytes } from "@/lib/vcf";
+
+const STATUS_STYLE: Record<CohortStatus, { label: string; color: string }> = {
+  queued: { label: "Queued", color: MUTED },
+  running: { label: "Running", color: CYAN },
+  done: { label: "Done", color: "#047857" },
+  failed: { label: "Failed", color: TOXIC },
+};
+
+// Not in React's input typings; React still forwards it to the DOM.
+const FOLDER_PICKER_PROPS = { webkitdirectory: "", directory: "" };
+
+type Props = {
+  entries: CohortEntry[];
+  running: boolean;
+  deidentify: boolean;
+  onDeidentifyChange: (enabled: boolean) => void;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+export default function CohortQueue({ entries, running, deidentify, onDeidentifyChange, onAddFiles, onRemove, onClear }: Props) {
+  const [dragActive, setDragActive] = useState(false);
+  const settled = entries.filter((e) => e.status === "done" || e.status === "failed").length;
+  const progress = entries.length ? Math.round((settled / entries.length) * 100) : 0;
+
+  return (
+    <div>
+      <div
+        onDragEnter={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          setDragActive(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragActive(false);
+          if (!running) onAddFiles(Array.from(e.dataTransfer.files || []));
+        }}
+        className="rounded-xl border-2 border-dashed p-5 text-center transition-all duration-300"
+        style={{ borderColor: dragActive ? CYAN : "#B9C9D9", background: dragActive ? "#E9F8FC" : "#F8FBFF" }}
+      >
+        <p className="text-sm font-medium">Drop several .vcf or .vcf.gz files, or pick a folder</p>
+        <p className="mt-1 text-xs" style={{ color: MUTED }}>
+          One patient per sample: multi-sample files add an entry for each. Non-VCF files in a folder are skipped.
+        </p>
+        <div className="mt-3 flex justify-center gap-2">
+          <label className="cursor-pointer rounded-lg border bg-white px-3 py-1.5 text-xs font-semibold" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+            <input
+              className="sr-only"
+              type="file"
+              accept=".vcf,.gz,.bgz"
+              multiple
+              disabled={running}
+              onChange={(e) => {
+                onAddFiles(Array.from(e.target.files || []));
+                e.target.value = "";
+              }}
+            />
+            Choose files
+          </label>
+          <label className="cursor-pointer rounded-lg border bg-white px-3 py-1.5 text-xs font-semibold" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+            <input
+              className="sr-only"
+              type="file"
+              {...FOLDER_PICKER_PROPS}
+              disabled={running}
+              onChange={(e) => {
+                onAddFiles(Array.from(e.target.files || []));
+                e.target.value = "";
+              }}
+            />
+            Choose folder
+          </label>
+        </div>
+      </div>
+
+      {!!entries.length && (
+        <div className="mt-3 rounded-xl border bg-white p-3" style={{ borderColor: "#D7E1EC" }}>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-semibold" style={{ color: MUTED }}>
+              {entries.length} patient file(s) · {settled} settled
+            </p>
+            <label className="inline-flex items-center gap-1.5 text-xs font-semibold" style={{ color: NAVY }}>
+              <input type="checkbox" checked={deidentify} disabled={running} onChange={(e) => onDeidentifyChange(e.target.checked)} />
+              De-identify uploads
+            </label>
+            {!running && (
+              <button type="button" onClick={onClear} className="text-xs font-semibold" style={{ color: NAVY }}>
+                Clear
+              </button>
+            )}
+          </div>
+          <div role="progressbar" aria-label="Patients screened" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100} className="mt-2 h-2 w-full overflow-hidden rounded-full bg-slate-200">
+            <div className="h-full transition-all duration-300" style={{ width: `${progress}%`, background: NAVY }} />
+          </div>
+          <ul className="mt-2 max-h-56 space-y-1 overflow-auto">
+            {entries.map((entry) => {
+              const style = STATUS_STYLE[entry.status];
+              return (
+                <li key={entry.id} className="flex items-center justify-between gap-2 rounded-lg border px-2 py-1 text-xs" style={{ borderColor: "#E2E8F0" }}>
+                  <span className="min-w-0 truncate" title={entry.error || entry.file.name}>
+                    {entry.file.webkitRelativePath || entry.file.name}{" "}
+                    <span style={{ color: MUTED }}>({formatBytes(entry.file.size)})</span>
+                  </span>
+                  <span className="inline-flex shrink-0 items-center gap-2">
+                    <span className="font-semibold" style={{ color: style.color }}>
+                      {entry.status === "running" && <span className="mr-1 inline-block h-2 w-2 animate-pulse rounded-full" style={{ background: CYAN }} />}
+                      {style.label}
+                    </span>
+                    {!running && (
+                      <button type="button" onClick={() => onRemove(entry.id)} className="rounded-full px-1 font-bold" style={{ color: CYAN }}>
+                        x
+                      </button>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
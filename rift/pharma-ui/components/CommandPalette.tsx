@@ -0,0 +1,150 @@
+import { type KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { type Command, COMMAND_GROUPS, filterCommands } from "@/lib/commands";
+import { MUTED, NAVY, TEXT } from "@/lib/theme";
+
+type Props = {
+  open: boolean;
+  commands: Command[];
+  onClose: () => void;
+};
+
+type DialogProps = {
+  commands: Command[];
+  onClose: () => void;
+  onRun: (command: Command) => void;
+};
+
+function optionId(command: Command) {
+  return `command-${command.id}`;
+}
+
+/** Mounted only while open, so the query and selection start fresh every time. */
+function PaletteDialog({ commands, onClose, onRun }: DialogProps) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  // Read before the input takes focus, so closing can hand focus back.
+  const [returnTo] = useState(() => (document.activeElement instanceof HTMLElement ? document.activeElement : null));
+  const inputRef = useRef<HTMLInputElement>(null);
+  const matches = useMemo(() => filterCommands(commands, query), [commands, query]);
+  // Best matches lead each group; arrow keys walk the list in the order it is shown.
+  const groups = COMMAND_GROUPS.map((group) => ({ group, items: matches.filter((c) => c.group === group) })).filter((g) => g.items.length);
+  const ordered = groups.flatMap((g) => g.items);
+  const current = ordered[Math.min(active, ordered.length - 1)];
+
+  useEffect(() => inputRef.current?.focus(), []);
+
+  function close() {
+    returnTo?.focus();
+    onClose();
+  }
+
+  // Focus goes back first so a command that moves focus (a jump to a section) wins.
+  function run(command: Command) {
+    close();
+    onRun(command);
+  }
+
+  function move(next: number) {
+    if (!ordered.length) return;
+    const index = (next + ordered.length) % ordered.length;
+    setActive(index);
+    document.getElementById(optionId(ordered[index]))?.scrollIntoView({ block: "nearest" });
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown") move(active + 1);
+    else if (e.key === "ArrowUp") move(active - 1);
+    else if (e.key === "Home") move(0);
+    else if (e.key === "End") move(ordered.length - 1);
+    else if (e.key === "Enter") {
+      if (current) run(current);
+    } else if (e.key === "Escape") close();
+    // The input is the only tab stop; options are reached with the arrow keys.
+    else if (e.key !== "Tab") return;
+    e.preventDefault();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-900/30 px-3 pt-[12vh]" onClick={close}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-lg overflow-hidden rounded-2xl bg-white shadow-2xl"
+        style={{ color: TEXT }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={onKeyDown}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-list"
+          aria-activedescendant={current ? optionId(current) : undefined}
+          aria-autocomplete="list"
+          placeholder="Type a command, drug or section"
+          className="w-full border-b px-4 py-3 text-sm outline-none focus-visible:bg-[#F8FBFF]"
+          style={{ borderColor: "#D7E1EC" }}
+        />
+        <p className="sr-only" role="status" aria-live="polite">
+          {matches.length ? `${matches.length} command${matches.length === 1 ? "" : "s"} available` : "No matching commands"}
+        </p>
+        <ul id="command-list" role="listbox" aria-label="Commands" className="max-h-80 overflow-auto py-2">
+          {!matches.length && (
+            <li className="px-4 py-2 text-sm" style={{ color: MUTED }}>
+              No matching commands.
+            </li>
+          )}
+          {groups.map(({ group, items }) => (
+            <li key={group} role="presentation">
+              <p className="px-4 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }} aria-hidden="true">
+                {group}
+              </p>
+              <ul role="group" aria-label={group}>
+                {items.map((command) => {
+                  const selected = command === current;
+                  return (
+                    <li
+                      key={command.id}
+                      id={optionId(command)}
+                      role="option"
+                      aria-selected={selected}
+                      onMouseEnter={() => setActive(ordered.indexOf(command))}
+                      onClick={() => run(command)}
+                      className={`cursor-pointer border-l-4 px-4 py-1.5 text-sm ${selected ? "font-semibold" : ""}`}
+                      style={{ borderColor: selected ? NAVY : "transparent", background: selected ? "#EFF6FF" : "transparent", color: selected ? NAVY : TEXT }}
+                    >
+                      {command.label}
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+        <p className="border-t px-4 py-2 text-[10px]" style={{ borderColor: "#D7E1EC", color: MUTED }}>
+          ↑↓ to move · Enter to run · Esc to close
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default function CommandPalette({ open, commands, onClose }: Props) {
+  // Lives outside the dialog so the outcome is still read after it closes.
+  const [announcement, setAnnouncement] = useState("");
+
+  return (
+    <>
+      <p className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </p>
+      {open && <PaletteDialog commands={commands} onClose={onClose} onRun={(command) => setAnnouncement(command.run() || `${command.label}.`)} />}
+    </>
+  );
+}
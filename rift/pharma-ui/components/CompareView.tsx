@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from "react";
+import RiskIcon from "@/components/RiskIcon";
+import { decodeAnalysis } from "@/lib/api";
+import { type DrugDiff, diffAnalyses, type FieldChange, toneDirection } from "@/lib/compare";
+import { type HistoryEntry, listHistory } from "@/lib/history";
+import { riskBadgeStyle } from "@/lib/risk";
+import { CYAN, MUTED, NAVY, TEXT } from "@/lib/theme";
+import type { AnalysisResult } from "@/lib/types";
+
+type Slot = { source: string; result: AnalysisResult } | null;
+
+type Props = {
+  onClose: () => void;
+  /** The analysis currently on screen, offered as the "after" side. */
+  current: AnalysisResult | null;
+};
+
+function describe(result: AnalysisResult): string {
+  const drugs = result.kind === "single" ? result.data.drug : Object.keys(result.data.results || {}).join(", ");
+  return `${result.data.patient_id || "patient"} · ${result.data.timestamp ? new Date(result.data.timestamp).toLocaleString() : "no timestamp"} · ${drugs}`;
+}
+
+function SlotPicker({ title, slot, history, onChange }: { title: string; slot: Slot; history: HistoryEntry[]; onChange: (slot: Slot, error?: string) => void }) {
+  async function loadFile(file: File | null) {
+    if (!file) return;
+    try {
+      onChange({ source: file.name, result: decodeAnalysis(JSON.parse(await file.text())) });
+    } catch (e) {
+      onChange(null, `${file.name}: ${e instanceof Error ? e.message : "not a PharmaGuard JSON export."}`);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border p-3" style={{ borderColor: "#D7E1EC" }}>
+      <p className="text-xs font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+        {title}
+      </p>
+      <select
+        aria-label={`${title}: pick from history`}
+        className="mt-2 w-full rounded-lg border px-2 py-1.5 text-xs"
+        style={{ borderColor: "#C7D4E3" }}
+        value=""
+        onChange={(e) => {
+          const entry = history.find((h) => h.id === e.target.value);
+          if (entry) onChange({ source: `History: ${entry.fileName}`, result: entry.result });
+        }}
+      >
+        <option value="">Pick from history…</option>
+        {history.map((h) => (
+          <option key={h.id} value={h.id}>
+            {h.patientId} · {new Date(h.timestamp).toLocaleString()} · {h.drugs.join(", ")}
+          </option>
+        ))}
+      </select>
+      <label className="mt-2 inline-block cursor-pointer text-xs font-semibold" style={{ color: NAVY }}>
+        <input className="sr-only" type="file" accept=".json,application/json" onChange={(e) => loadFile(e.target.files?.[0] || null)} />
+        …or upload a JSON export
+      </label>
+      <p className="mt-2 truncate text-[11px]" style={{ color: slot ? TEXT : MUTED }} title={slot ? describe(slot.result) : undefined}>
+        {slot ? `${slot.source} — ${describe(slot.result)}` : "Nothing selected"}
+      </p>
+    </div>
+  );
+}
+
+function Cell({ field, format = String }: { field: FieldChange<string> | FieldChange<number>; format?: (v: string | number) => string }) {
+  if (!field.changed) return <span style={{ color: MUTED }}>{format(field.after)}</span>;
+  return (
+    <span>
+      <span className="line-through" style={{ color: MUTED }}>
+        {format(field.before)}
+      </span>{" "}
+      → <span className="font-semibold">{format(field.after)}</span>
+    </span>
+  );
+}
+
+function rowAccent(diff: DrugDiff): string {
+  if (diff.presence !== "both") return "#E2E8F0";
+  const direction = toneDirection(diff.tone);
+  if (direction > 0) return "#FECACA";
+  if (direction < 0) return "#A7F3D0";
+  return "#E2E8F0";
+}
+
+/** Mounted only while open, so the "after" slot picks up whatever is on screen at that moment. */
+export default function CompareView({ onClose, current }: Props) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [before, setBefore] = useState<Slot>(null);
+  const [after, setAfter] = useState<Slot>(current ? { source: "Current result", result: current } : null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory()
+      .then((entries) => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setHistory([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const diff = useMemo(() => (before && after ? diffAnalyses(before.result, after.result) : null), [before, after]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-5xl rounded-2xl bg-white p-4 shadow-2xl" style={{ color: TEXT }} onClick={(e) => e.stopPropagation()} aria-label="Compare analyses">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+            Compare Analyses
+          </p>
+          <button type="button" onClick={onClose} className="rounded-full px-2 text-sm font-bold" style={{ color: CYAN }}>
+            x
+          </button>
+        </div>
+
+        <div className="mt-3 grid gap-3 md:grid-cols-2">
+          <SlotPicker
+            title="Before"
+            slot={before}
+            history={history}
+            onChange={(slot, err) => {
+              setBefore(slot);
+              setError(err || "");
+            }}
+          />
+          <SlotPicker
+            title="After"
+            slot={after}
+            history={history}
+            onChange={(slot, err) => {
+              setAfter(slot);
+              setError(err || "");
+            }}
+          />
+        </div>
+        {!!error && <p role="alert" className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>}
+
+        {diff && (
+          <div className="mt-4 space-y-3">
+            {!diff.samePatient && (
+              <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                These analyses belong to different patient IDs. The comparison is shown, but check that you picked the right pair.
+              </p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full border-separate border-spacing-y-1 text-xs">
+                <thead>
+                  <tr style={{ color: MUTED }}>
+                    <th className="px-2 text-left">Drug</th>
+                    <th className="px-2 text-left">Risk</th>
+                    <th className="px-2 text-left">Severity</th>
+                    <th className="px-2 text-left">Confidence</th>
+                    <th className="px-2 text-left">Phenotype</th>
+                    <th className="px-2 text-left">Diplotype</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.drugs.map((d) => (
+                    <tr key={d.drug}>
+                      <td className="rounded-l-lg border-y border-l px-2 py-1.5 font-semibold" style={{ borderColor: rowAccent(d), borderLeftWidth: 4 }}>
+                        {d.drug}
+                        {d.presence !== "both" && (
+                          <span className="ml-1 text-[10px] font-bold uppercase" style={{ color: MUTED }}>
+                            ({d.presence})
+                          </span>
+                        )}
+                      </td>
+                      <td className="border-y px-2 py-1.5" style={{ borderColor: rowAccent(d) }}>
+                        {d.tone.changed ? (
+                          <span className="inline-flex items-center gap-1">
+                            <span className="inline-flex items-center gap-1 rounded-full border px-1.5 text-[10px] font-bold uppercase" style={riskBadgeStyle(d.label.before)}>
+                              <RiskIcon tone={d.tone.before} size={10} />
+                              {d.label.before}
+                            </span>
+                            →
+                            <span className="inline-flex items-center gap-1 rounded-full border px-1.5 text-[10px] font-bold uppercase" style={riskBadgeStyle(d.label.after)}>
+                              <RiskIcon tone={d.tone.after} size={10} />
+                              {d.label.after}
+                            </span>
+                          </span>
+                        ) : (
+                          <Cell field={d.label} />
+                        )}
+                      </td>
+                      <td className="border-y px-2 py-1.5" style={{ borderColor: rowAccent(d) }}>
+                        <Cell field={d.severity} />
+                      </td>
+                      <td className="border-y px-2 py-1.5" style={{ borderColor: rowAccent(d) }}>
+                        <Cell field={d.confidence} format={(v) => `${v}%`} />
+                      </td>
+                      <td className="border-y px-2 py-1.5" style={{ borderColor: rowAccent(d) }}>
+                        <Cell field={d.phenotype} />
+                      </td>
+                      <td className="rounded-r-lg border-y border-r px-2 py-1.5" style={{ borderColor: rowAccent(d) }}>
+                        <Cell field={d.diplotype} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="rounded-xl border p-3 text-xs" style={{ borderColor: "#D7E1EC" }}>
+              <p className="font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+                Detected Variants
+              </p>
+              {!diff.variantsComparable ? (
+                <p className="mt-1" style={{ color: MUTED }}>
+                  Variant lists are only available on single-drug results; pick two single-drug analyses to compare them.
+                </p>
+              ) : !diff.variantsAdded.length && !diff.variantsRemoved.length ? (
+                <p className="mt-1" style={{ color: MUTED }}>
+                  No change in detected variants.
+                </p>
+              ) : (
+                <div className="mt-1 space-y-1">
+                  {!!diff.variantsAdded.length && <p className="text-emerald-700">+ {diff.variantsAdded.join(", ")}</p>}
+                  {!!diff.variantsRemoved.length && <p className="text-red-700">− {diff.variantsRemoved.join(", ")}</p>}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
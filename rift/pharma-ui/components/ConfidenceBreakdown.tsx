@@ -0,0 +1,52 @@
+import type { ConfidenceExplanation } from "@/lib/confidence";
+import { CYAN, MUTED, NAVY } from "@/lib/theme";
+
+type Props = {
+  explanation: ConfidenceExplanation | null;
+};
+
+export default function ConfidenceBreakdown({ explanation }: Props) {
+  if (!explanation) {
+    return (
+      <p className="mt-2 rounded-lg border bg-slate-50 px-3 py-2 text-xs" style={{ borderColor: "#E2E8F0", color: MUTED }}>
+        This result has no confidence breakdown. It was produced by a backend that only returns the final score.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 rounded-lg border bg-slate-50 p-3 text-xs" style={{ borderColor: "#E2E8F0" }}>
+      <div className="space-y-2">
+        {explanation.components.map((c) => (
+          <div key={c.key}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold" style={{ color: NAVY }}>
+                {c.label}
+              </span>
+              <span style={{ color: MUTED }}>
+                {c.score.toFixed(2)} × {Math.round(c.weight * 100)}% = <span className="font-semibold">{c.contribution.toFixed(1)} pts</span>
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-slate-200" aria-hidden="true">
+              <div className="h-full" style={{ width: `${Math.round(c.score * 100)}%`, background: CYAN }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="mt-2 border-t pt-2 font-semibold" style={{ borderColor: "#E2E8F0", color: NAVY }}>
+        Confidence {Math.round(explanation.score * 100)}%
+      </p>
+      {explanation.reasons.length ? (
+        <ul className="mt-1 list-disc space-y-1 pl-4" style={{ color: MUTED }}>
+          {explanation.reasons.map((r) => (
+            <li key={r}>{r}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1" style={{ color: MUTED }}>
+          Every component scored well; nothing notable lowered confidence.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { isHighContrast, setHighContrast, subscribeContrast } from "@/lib/contrast";
+
+export default function ContrastToggle() {
+  const high = useSyncExternalStore(subscribeContrast, isHighContrast, () => false);
+
+  return (
+    <button
+      type="button"
+      onClick={() => setHighContrast(!high)}
+      aria-pressed={high}
+      className="rounded-full border border-[#2B6CA3] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[#0C426F]"
+    >
+      High contrast
+    </button>
+  );
+}
@@ -0,0 +1,253 @@
+import { type ReactNode, useState } from "react";
+import {
+  azathioprineDose,
+  CYP2C9_GENOTYPES,
+  cyp2c9Genotype,
+  type DoseEstimate,
+  DosingError,
+  DPYD_ACTIVITY_SCORES,
+  dpydActivityScore,
+  fluorouracilDose,
+  RACE_LABELS,
+  TPMT_LABELS,
+  type TpmtPhenotype,
+  tpmtPhenotype,
+  VKORC1_GENOTYPES,
+  vkorc1Genotype,
+  type WarfarinRace,
+  warfarinDose,
+} from "@/lib/dosing";
+import type { RiskCard } from "@/lib/risk";
+import { MUTED, NAVY } from "@/lib/theme";
+import type { DetectedVariant } from "@/lib/types";
+
+type Props = {
+  /** Engine output for the drug; its diplotype and phenotype prefill the form. */
+  card: RiskCard;
+  variants?: DetectedVariant[];
+};
+
+const INPUT = "mt-1 block w-full rounded-md border bg-white px-2 py-1 text-xs font-normal";
+const INPUT_STYLE = { borderColor: "#C7D4E3" };
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block text-[11px] font-semibold" style={{ color: NAVY }}>
+      {label}
+      {children}
+    </label>
+  );
+}
+
+function NumberField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <Field label={label}>
+      <input type="number" inputMode="decimal" min={0} value={value} onChange={(e) => onChange(e.target.value)} className={INPUT} style={INPUT_STYLE} />
+    </Field>
+  );
+}
+
+/** Runs a calculator, turning a {@link DosingError} into a message for the form. */
+function estimate(compute: () => DoseEstimate): DoseEstimate | string {
+  try {
+    return compute();
+  } catch (e) {
+    if (e instanceof DosingError) return e.message;
+    throw e;
+  }
+}
+
+function Estimate({ result }: { result: DoseEstimate | string }) {
+  if (typeof result === "string") return <p role="status" className="mt-2 text-[11px] text-amber-700">{result}</p>;
+  return (
+    <div className="mt-2 rounded-lg border bg-white p-2" style={{ borderColor: result.avoid ? "#FECACA" : "#D7E1EC" }}>
+      <p className="text-xs font-semibold" style={{ color: result.avoid ? "#B91C1C" : NAVY }}>
+        {result.avoid ? "Avoid: no starting dose recommended" : `Starting dose: ${result.low === result.high ? result.low : `${result.low}–${result.high}`} ${result.unit}`}
+      </p>
+      <div className="mt-1 space-y-0.5 font-mono text-[10px]" style={{ color: MUTED }}>
+        {result.formula.map((line) => (
+          <p key={line}>{line}</p>
+        ))}
+      </div>
+      <p className="mt-1 text-[11px]" style={{ color: MUTED }}>
+        {result.note}
+      </p>
+    </div>
+  );
+}
+
+function WarfarinForm({ card, variants }: Props) {
+  const [age, setAge] = useState("");
+  const [height, setHeight] = useState("");
+  const [weight, setWeight] = useState("");
+  const [race, setRace] = useState<WarfarinRace>("other");
+  const [cyp2c9, setCyp2c9] = useState(() => cyp2c9Genotype(card.diplotype));
+  const [vkorc1, setVkorc1] = useState(() => vkorc1Genotype(variants));
+  const [enzymeInducer, setEnzymeInducer] = useState(false);
+  const [amiodarone, setAmiodarone] = useState(false);
+
+  const ready = age && height && weight;
+  const result = ready
+    ? estimate(() => warfarinDose({ ageYears: Number(age), heightCm: Number(height), weightKg: Number(weight), race, cyp2c9, vkorc1, enzymeInducer, amiodarone }))
+    : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField label="Age (years)" value={age} onChange={setAge} />
+        <NumberField label="Height (cm)" value={height} onChange={setHeight} />
+        <NumberField label="Weight (kg)" value={weight} onChange={setWeight} />
+        <Field label="CYP2C9">
+          <select value={cyp2c9} onChange={(e) => setCyp2c9(e.target.value as typeof cyp2c9)} className={INPUT} style={INPUT_STYLE}>
+            {CYP2C9_GENOTYPES.map((g) => (
+              <option key={g} value={g}>
+                {g === "unknown" ? "Not genotyped" : g}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="VKORC1 -1639">
+          <select value={vkorc1} onChange={(e) => setVkorc1(e.target.value as typeof vkorc1)} className={INPUT} style={INPUT_STYLE}>
+            {VKORC1_GENOTYPES.map((g) => (
+              <option key={g} value={g}>
+                {g === "unknown" ? "Not genotyped" : g}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Race">
+          <select value={race} onChange={(e) => setRace(e.target.value as WarfarinRace)} className={INPUT} style={INPUT_STYLE}>
+            {(Object.keys(RACE_LABELS) as WarfarinRace[]).map((r) => (
+              <option key={r} value={r}>
+                {RACE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-3 text-[11px]" style={{ color: NAVY }}>
+        <label className="inline-flex items-center gap-1.5">
+          <input type="checkbox" checked={enzymeInducer} onChange={(e) => setEnzymeInducer(e.target.checked)} />
+          Carbamazepine, phenytoin or rifampin
+        </label>
+        <label className="inline-flex items-center gap-1.5">
+          <input type="checkbox" checked={amiodarone} onChange={(e) => setAmiodarone(e.target.checked)} />
+          Amiodarone
+        </label>
+      </div>
+      {result ? <Estimate result={result} /> : <p className="mt-2 text-[11px]" style={{ color: MUTED }}>Enter age, height and weight.</p>}
+    </>
+  );
+}
+
+/** Shown when the engine's call cannot be scored, so no dose appears until someone picks a value. */
+const UNSET = "";
+
+function AzathioprineForm({ card }: Props) {
+  const [weight, setWeight] = useState("");
+  const [phenotype, setPhenotype] = useState<TpmtPhenotype | typeof UNSET>(() => tpmtPhenotype(card.phenotype) || UNSET);
+  const [standardLow, setStandardLow] = useState("2");
+  const [standardHigh, setStandardHigh] = useState("3");
+
+  const result =
+    weight && phenotype ? estimate(() => azathioprineDose({ weightKg: Number(weight), phenotype, standardLow: Number(standardLow), standardHigh: Number(standardHigh) })) : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <NumberField label="Weight (kg)" value={weight} onChange={setWeight} />
+        <Field label="TPMT">
+          <select value={phenotype} onChange={(e) => setPhenotype(e.target.value as TpmtPhenotype)} className={INPUT} style={INPUT_STYLE}>
+            {!phenotype && <option value={UNSET}>Not scored: pick from the TPMT result</option>}
+            {(Object.keys(TPMT_LABELS) as TpmtPhenotype[]).map((p) => (
+              <option key={p} value={p}>
+                {TPMT_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <NumberField label="Usual dose from (mg/kg/day)" value={standardLow} onChange={setStandardLow} />
+        <NumberField label="to (mg/kg/day)" value={standardHigh} onChange={setStandardHigh} />
+      </div>
+      {result ? (
+        <Estimate result={result} />
+      ) : (
+        <p className="mt-2 text-[11px]" style={{ color: MUTED }}>
+          {phenotype ? "Enter weight." : `The engine's TPMT phenotype (${card.phenotype || "none"}) cannot be scored. Pick the phenotype from the lab report.`}
+        </p>
+      )}
+    </>
+  );
+}
+
+function FluorouracilForm({ card }: Props) {
+  const [height, setHeight] = useState("");
+  const [weight, setWeight] = useState("");
+  const [standardDose, setStandardDose] = useState("");
+  const [activityScore, setActivityScore] = useState<number | null>(() => dpydActivityScore(card.diplotype));
+
+  const result =
+    height && weight && standardDose && activityScore !== null
+      ? estimate(() => fluorouracilDose({ heightCm: Number(height), weightKg: Number(weight), standardDose: Number(standardDose), activityScore }))
+      : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <NumberField label="Height (cm)" value={height} onChange={setHeight} />
+        <NumberField label="Weight (kg)" value={weight} onChange={setWeight} />
+        <NumberField label="Regimen dose (mg/m²)" value={standardDose} onChange={setStandardDose} />
+        <Field label="DPYD activity score">
+          <select value={activityScore ?? UNSET} onChange={(e) => setActivityScore(Number(e.target.value))} className={INPUT} style={INPUT_STYLE}>
+            {activityScore === null && <option value={UNSET}>Not scored: pick from the DPYD result</option>}
+            {DPYD_ACTIVITY_SCORES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+      {result ? (
+        <Estimate result={result} />
+      ) : (
+        <p className="mt-2 text-[11px]" style={{ color: MUTED }}>
+          {activityScore === null
+            ? `The engine's DPYD diplotype (${card.diplotype || "none"}) cannot be scored. Pick the activity score from the lab report.`
+            : "Enter height, weight and the regimen dose."}
+        </p>
+      )}
+    </>
+  );
+}
+
+const FORMS: Record<string, (props: Props) => ReactNode> = {
+  WARFARIN: WarfarinForm,
+  AZATHIOPRINE: AzathioprineForm,
+  FLUOROURACIL: FluorouracilForm,
+};
+
+export default function DoseCalculator({ card, variants }: Props) {
+  const [open, setOpen] = useState(false);
+  const Form = FORMS[card.drug.toUpperCase()];
+  if (!Form) return null;
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="rounded-lg border px-2.5 py-1 text-[11px] font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]"
+        style={{ borderColor: "#C7D4E3", color: NAVY }}
+      >
+        {open ? "Hide dose calculator" : "Dose calculator"}
+      </button>
+      {open && (
+        <div className="mt-2 rounded-lg border p-2" style={{ borderColor: "#D7E1EC", background: "#F8FAFC" }}>
+          <Form card={card} variants={variants} />
+        </div>
+      )}
+    </div>
+  );
+}
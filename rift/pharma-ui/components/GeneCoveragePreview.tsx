@@ -0,0 +1,71 @@
+import type { CoverageStatus, GeneCoverage } from "@/lib/panel";
+import { MUTED, NAVY } from "@/lib/theme";
+
+const STATUS_STYLE: Record<CoverageStatus, { label: string; borderColor: string; background: string; color: string }> = {
+  covered: { label: "Covered", borderColor: "#A7F3D0", background: "#ECFDF5", color: "#047857" },
+  no_call: { label: "No call", borderColor: "#FDE68A", background: "#FFFBEB", color: "#B45309" },
+  missing: { label: "Missing", borderColor: "#FECACA", background: "#FEF2F2", color: "#B91C1C" },
+};
+
+type Props = {
+  coverage: GeneCoverage[];
+  totalRows: number;
+  selectedDrugs: string[];
+  /** Drug name -> every gene the backend consults for it (see `drugGeneMap`). */
+  drugGenes: Record<string, string[]>;
+};
+
+export default function GeneCoveragePreview({ coverage, totalRows, selectedDrugs, drugGenes }: Props) {
+  const byGene = new Map(coverage.map((c) => [c.gene, c]));
+  const gaps = selectedDrugs
+    .flatMap((drug) => (drugGenes[drug] || []).map((gene) => ({ drug, gene })))
+    .filter(({ gene }) => byGene.get(gene)?.status !== "covered");
+
+  return (
+    <div className="mt-3 rounded-xl border bg-white p-3 text-left" style={{ borderColor: "#D7E1EC" }}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+          Panel Coverage Preview
+        </p>
+        <p className="text-[11px]" style={{ color: MUTED }}>
+          {totalRows} variant rows read
+        </p>
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {coverage.map((c) => {
+          const style = STATUS_STYLE[c.status];
+          return (
+            <div key={c.gene} className="rounded-lg border px-2 py-1.5" style={{ borderColor: style.borderColor, background: style.background }}>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-xs font-semibold" style={{ color: NAVY }}>
+                  {c.gene}
+                </span>
+                <span className="text-[10px] font-bold uppercase" style={{ color: style.color }}>
+                  {style.label}
+                </span>
+              </div>
+              <p className="mt-0.5 text-[11px]" style={{ color: MUTED }}>
+                {c.hits.length}/{c.panelSize} panel rsIDs
+              </p>
+              {!!c.hits.length && (
+                <p className="mt-0.5 truncate text-[10px]" style={{ color: MUTED }} title={c.hits.map((h) => `${h.rsid} ${h.allele} ${h.genotype}`).join(", ")}>
+                  {c.hits.map((h) => `${h.allele} ${h.genotype}`).join(", ")}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {!!gaps.length && (
+        <div className="mt-2 space-y-1">
+          {gaps.map(({ drug, gene }) => (
+            <p key={`${drug}-${gene}`} className="rounded-lg border border-amber-200 bg-amber-50 px-2 py-1 text-[11px] text-amber-900">
+              {drug} needs {gene}, which is{" "}
+              {!byGene.has(gene) ? "not on the screening panel yet" : byGene.get(gene)?.status === "no_call" ? "present but has no genotype call in this file" : "not covered in this file"}. The result will be incomplete.
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
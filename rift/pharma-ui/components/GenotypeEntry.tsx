@@ -0,0 +1,89 @@
+import { backendDiplotype, formatDiplotype, genotypeChanges, type ManualGene, type ManualGenotype } from "@/lib/genotype";
+import { REFERENCE_ALLELE } from "@/lib/panel";
+import { MUTED, NAVY, TEXT } from "@/lib/theme";
+
+type Props = {
+  genes: ManualGene[];
+  genotype: ManualGenotype;
+  /** Genotype of the last manual run, so edits since then can be listed as the what-if. */
+  lastRun: ManualGenotype | null;
+  disabled: boolean;
+  onChange: (genotype: ManualGenotype) => void;
+  onRerun: () => void;
+};
+
+export default function GenotypeEntry({ genes, genotype, lastRun, disabled, onChange, onRerun }: Props) {
+  const pending = lastRun ? genotypeChanges(lastRun, genotype) : [];
+
+  const setAllele = (gene: string, index: 0 | 1, allele: string) => {
+    const pair: [string, string] = [...(genotype[gene] || [REFERENCE_ALLELE, REFERENCE_ALLELE])];
+    pair[index] = allele;
+    onChange({ ...genotype, [gene]: pair });
+  };
+
+  return (
+    <div className="rounded-xl border bg-[#F8FBFF] p-3 sm:p-4" style={{ borderColor: "#D7E1EC" }}>
+      <p className="text-xs" style={{ color: MUTED }}>
+        Enter star alleles from an outside lab report. A synthetic VCF is generated from these calls and analyzed like an upload.
+      </p>
+      <div className="mt-3 space-y-2">
+        {genes.map((gene) => {
+          const pair = genotype[gene.symbol] || [REFERENCE_ALLELE, REFERENCE_ALLELE];
+          const entered = formatDiplotype(pair);
+          const called = backendDiplotype(pair);
+          return (
+            <div key={gene.symbol} className="rounded-lg border bg-white p-2" style={{ borderColor: "#E2E8F0" }}>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-20 text-xs font-bold" style={{ color: NAVY }}>
+                  {gene.symbol}
+                </span>
+                {([0, 1] as const).map((index) => (
+                  <select
+                    key={index}
+                    value={pair[index]}
+                    disabled={disabled}
+                    onChange={(e) => setAllele(gene.symbol, index, e.target.value)}
+                    aria-label={`${gene.symbol} allele ${index + 1}`}
+                    className="rounded-lg border bg-white px-2 py-1 text-xs"
+                    style={{ borderColor: "#C7D4E3", color: TEXT }}
+                  >
+                    <option value={REFERENCE_ALLELE}>{REFERENCE_ALLELE} (reference)</option>
+                    {gene.alleles.map((a) => (
+                      <option key={a.name} value={a.name}>
+                        {a.name} ({a.function.toLowerCase()})
+                      </option>
+                    ))}
+                  </select>
+                ))}
+                <span className="ml-auto font-mono text-xs font-semibold" style={{ color: NAVY }}>
+                  {entered}
+                </span>
+              </div>
+              {called !== entered && (
+                <p className="mt-1 text-[11px] text-amber-800">
+                  The backend keeps only the first variant allele of a compound heterozygote and will call this {called}.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!!pending.length && (
+        <div className="mt-3 rounded-lg border border-cyan-100 bg-white p-2 text-xs">
+          <p className="font-semibold" style={{ color: NAVY }}>
+            Changed since last run
+          </p>
+          <ul className="mt-1 space-y-0.5" style={{ color: MUTED }}>
+            {pending.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+          <button type="button" onClick={onRerun} disabled={disabled} className="mt-2 rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF] disabled:opacity-60" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+            Re-run and compare
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
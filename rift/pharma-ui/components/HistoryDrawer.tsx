@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from "react";
+import { forgetPseudonyms, reidentify } from "@/lib/deidentify";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  estimateStorage,
+  type HistoryEntry,
+  listHistory,
+  matchesHistoryQuery,
+} from "@/lib/history";
+import { CYAN, MUTED, NAVY, TEXT } from "@/lib/theme";
+import { formatBytes } from "@/lib/vcf";
+
+type Props = {
+  open: boolean;
+  /** Bumped by the page after each save so an open drawer picks up the new entry. */
+  revision: number;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+};
+
+type Snapshot = { entries: HistoryEntry[]; storage: { usage: number; quota: number } | null; error: string };
+
+async function loadSnapshot(): Promise<Snapshot> {
+  try {
+    return { entries: await listHistory(), storage: await estimateStorage(), error: "" };
+  } catch (e) {
+    return { entries: [], storage: null, error: e instanceof Error ? e.message : "Unable to read local history." };
+  }
+}
+
+export default function HistoryDrawer({ open, revision, onClose, onOpenEntry }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState("");
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  function apply(snapshot: Snapshot) {
+    setEntries(snapshot.entries);
+    setStorage(snapshot.storage);
+    setError(snapshot.error);
+  }
+
+  async function refresh() {
+    apply(await loadSnapshot());
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadSnapshot().then((snapshot) => {
+      if (!cancelled) apply(snapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, revision]);
+
+  const visible = useMemo(() => entries.filter((e) => matchesHistoryQuery(e, query)), [entries, query]);
+  const realIds = useMemo(() => Object.fromEntries(entries.map((e) => [e.patientId, reidentify(e.patientId)?.realId || ""])), [entries]);
+
+  async function remove(id: string) {
+    try {
+      await deleteHistoryEntry(id);
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unable to delete this analysis.");
+    }
+  }
+
+  async function removeAll() {
+    if (!window.confirm("Delete every saved analysis and the pseudonym-to-patient map from this browser? This cannot be undone.")) return;
+    try {
+      await clearHistory();
+      forgetPseudonyms();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unable to clear history.");
+    }
+  }
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/30" onClick={onClose}>
+      <aside
+        className="flex h-full w-full max-w-md flex-col bg-white shadow-2xl"
+        style={{ color: TEXT }}
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Analysis history"
+      >
+        <div className="flex items-center justify-between border-b px-4 py-3" style={{ borderColor: "#D7E1EC" }}>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+              Analysis History
+            </p>
+            <p className="text-[11px]" style={{ color: MUTED }}>
+              Stored only in this browser{storage ? ` · ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used` : ""}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="rounded-full px-2 text-sm font-bold" style={{ color: CYAN }}>
+            x
+          </button>
+        </div>
+
+        <div className="border-b px-4 py-3" style={{ borderColor: "#D7E1EC" }}>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search patient, drug or file"
+            aria-label="Search history"
+            className="w-full rounded-lg border px-3 py-2 text-sm outline-none"
+            style={{ borderColor: "#C7D4E3" }}
+          />
+          {!!error && <p role="alert" className="mt-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{error}</p>}
+        </div>
+
+        <ul className="flex-1 space-y-2 overflow-auto px-4 py-3">
+          {!visible.length && (
+            <li className="text-sm" style={{ color: MUTED }}>
+              {entries.length ? "No saved analyses match this search." : "Completed analyses will appear here."}
+            </li>
+          )}
+          {visible.map((entry) => (
+            <li key={entry.id} className="rounded-xl border p-3" style={{ borderColor: "#D7E1EC" }}>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-semibold" title={realIds[entry.patientId] ? `Sent as ${entry.patientId}` : undefined}>
+                    {realIds[entry.patientId] || entry.patientId}
+                  </p>
+                  <p className="truncate text-[11px]" style={{ color: MUTED }}>
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.fileName}
+                  </p>
+                  <p className="mt-1 truncate text-[11px] font-semibold" style={{ color: NAVY }}>
+                    {entry.drugs.join(", ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onOpenEntry(entry)}
+                    className="rounded-lg border px-2 py-1 text-[11px] font-semibold hover:bg-[#EFF6FF]"
+                    style={{ borderColor: "#C7D4E3", color: NAVY }}
+                  >
+                    Open
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(entry.id)}
+                    className="rounded-lg border px-2 py-1 text-[11px] font-semibold hover:bg-red-50"
+                    style={{ borderColor: "#FECACA", color: "#B91C1C" }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="border-t px-4 py-3" style={{ borderColor: "#D7E1EC" }}>
+          <button
+            type="button"
+            onClick={removeAll}
+            disabled={!entries.length}
+            className="w-full rounded-lg border px-3 py-2 text-xs font-semibold disabled:opacity-50"
+            style={{ borderColor: "#FECACA", color: "#B91C1C" }}
+          >
+            Clear all history
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+}
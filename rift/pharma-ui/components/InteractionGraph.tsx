@@ -0,0 +1,161 @@
+import type { KeyboardEvent } from "react";
+import RiskIcon from "@/components/RiskIcon";
+import type { GraphSelection, InteractionGraph as Graph } from "@/lib/interactions";
+import { riskBadgeStyle, riskColor, toneColor, toneFor } from "@/lib/risk";
+import { MUTED, NAVY, TEXT, TOXIC } from "@/lib/theme";
+
+type Props = {
+  graph: Graph;
+  selection: GraphSelection;
+  onSelect: (selection: GraphSelection) => void;
+};
+
+const WIDTH = 380;
+const ROW = 44;
+const PAD = 28;
+const DRUG_X = 90;
+const GENE_X = 290;
+
+const SEVERITY_STYLE: Record<string, { borderColor: string; background: string; color: string }> = {
+  critical: { borderColor: "#FCA5A5", background: "#FEE2E2", color: "#991B1B" },
+  high: { borderColor: "#FECACA", background: "#FEF2F2", color: "#B91C1C" },
+  moderate: { borderColor: "#FDE68A", background: "#FFFBEB", color: "#B45309" },
+};
+
+/** "Poor metabolizer" -> "PM"; codes such as "URM" pass through. Keeps the node label inside its pill. */
+function shortPhenotype(phenotype: string) {
+  if (phenotype.length <= 4) return phenotype;
+  return phenotype
+    .split(/[\s-]+/)
+    .map((w) => w[0]?.toUpperCase() || "")
+    .join("");
+}
+
+function rowY(index: number, count: number, height: number) {
+  const span = (count - 1) * ROW;
+  return (height - span) / 2 + index * ROW;
+}
+
+export default function InteractionGraph({ graph, selection, onSelect }: Props) {
+  const height = Math.max(graph.drugs.length, graph.genes.length, 1) * ROW + PAD;
+  const drugY = new Map(graph.drugs.map((d, i) => [d.id, rowY(i, graph.drugs.length, height)]));
+  const geneY = new Map(graph.genes.map((g, i) => [g.id, rowY(i, graph.genes.length, height)]));
+
+  // Everything not touching the selection fades so the crowded enzyme stands out.
+  const active = (drug: string, gene: string) => !selection || (selection.kind === "drug" ? selection.id === drug : selection.id === gene);
+  const nodeActive = (kind: "drug" | "gene", id: string) =>
+    !selection || (selection.kind === kind && selection.id === id) || graph.edges.some((e) => (kind === "drug" ? e.drug === id : e.gene === id) && active(e.drug, e.gene));
+
+  const toggle = (kind: "drug" | "gene", id: string) => onSelect(selection?.kind === kind && selection.id === id ? null : { kind, id });
+  const keyToggle = (kind: "drug" | "gene", id: string) => (e: KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      toggle(kind, id);
+    }
+  };
+
+  const bottlenecks = graph.genes.filter((g) => g.bottleneck);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="group" aria-label="Drug to enzyme interaction graph">
+        {graph.edges.map((e) => (
+          <line
+            key={`${e.drug}-${e.gene}`}
+            x1={DRUG_X + 52}
+            y1={drugY.get(e.drug)}
+            x2={GENE_X - 46}
+            y2={geneY.get(e.gene)}
+            stroke={e.bottleneck ? TOXIC : "#CBD5E1"}
+            strokeWidth={e.bottleneck ? 2.5 : 1.5}
+            strokeDasharray={e.bottleneck ? undefined : "4 3"}
+            opacity={active(e.drug, e.gene) ? 1 : 0.15}
+          />
+        ))}
+
+        {graph.drugs.map((d) => {
+          const y = drugY.get(d.id) || 0;
+          const badge = riskBadgeStyle(d.riskLabel);
+          const selected = selection?.kind === "drug" && selection.id === d.id;
+          return (
+            <g
+              key={d.id}
+              role="button"
+              tabIndex={0}
+              aria-pressed={selected}
+              aria-label={`${d.label}, ${d.riskLabel}. Filter the risk matrix to this drug.`}
+              className="cursor-pointer outline-none"
+              opacity={nodeActive("drug", d.id) ? 1 : 0.3}
+              onClick={() => toggle("drug", d.id)}
+              onKeyDown={keyToggle("drug", d.id)}
+            >
+              <rect x={DRUG_X - 80} y={y - 14} width={132} height={28} rx={14} fill={badge.background} stroke={selected ? NAVY : riskColor(d.riskLabel)} strokeWidth={selected ? 2.5 : 1.5} />
+              <RiskIcon tone={toneFor(d.riskLabel)} x={DRUG_X - 74} y={y - 6} />
+              <text x={DRUG_X - 14} y={y + 4} textAnchor="middle" fontSize={11} fontWeight={600} fill={TEXT}>
+                {d.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {graph.genes.map((g) => {
+          const y = geneY.get(g.id) || 0;
+          const color = toneColor(g.phenotypeTone);
+          const selected = selection?.kind === "gene" && selection.id === g.id;
+          return (
+            <g
+              key={g.id}
+              role="button"
+              tabIndex={0}
+              aria-pressed={selected}
+              aria-label={`${g.id}, phenotype ${g.phenotype}, ${g.load} drug${g.load === 1 ? "" : "s"}${g.bottleneck ? `, ${g.bottleneck.severity} bottleneck` : ""}. Filter the risk matrix to drugs using this enzyme.`}
+              className="cursor-pointer outline-none"
+              opacity={nodeActive("gene", g.id) ? 1 : 0.3}
+              onClick={() => toggle("gene", g.id)}
+              onKeyDown={keyToggle("gene", g.id)}
+            >
+              {g.bottleneck && <rect x={GENE_X - 50} y={y - 18} width={136} height={36} rx={18} fill="none" stroke={TOXIC} strokeWidth={2} strokeDasharray="3 2" />}
+              <rect x={GENE_X - 46} y={y - 14} width={128} height={28} rx={14} fill="#fff" stroke={selected ? NAVY : color} strokeWidth={selected ? 2.5 : 2} />
+              <RiskIcon tone={g.phenotypeTone} x={GENE_X - 38} y={y - 6} />
+              <text x={GENE_X - 22} y={y + 4} fontSize={11} fontWeight={700} fill={NAVY}>
+                {g.id}
+              </text>
+              <text x={GENE_X + 74} y={y + 4} textAnchor="end" fontSize={9} fill={MUTED}>
+                {shortPhenotype(g.phenotype)} · {g.load}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="mt-2 flex flex-wrap gap-2 text-[10px] font-semibold" style={{ color: MUTED }}>
+        <span>Node shape and color = risk or phenotype</span>
+        <span>· Dashed line = metabolized by</span>
+        <span style={{ color: TOXIC }}>· Solid red line = shared-enzyme bottleneck</span>
+      </div>
+
+      {!!bottlenecks.length && (
+        <div className="mt-3 space-y-2">
+          {bottlenecks.map((g) => {
+            const style = SEVERITY_STYLE[g.bottleneck?.severity || ""] || SEVERITY_STYLE.moderate;
+            return (
+              <div key={g.id} className="rounded-lg border bg-white p-2 text-xs" style={{ borderColor: style.borderColor }}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold" style={{ color: NAVY }}>
+                    {g.id} · {graph.edges.filter((e) => e.gene === g.id && e.bottleneck).map((e) => e.drug).join(", ")}
+                  </span>
+                  <span className="rounded-full border px-2 py-0.5 text-[10px] font-bold uppercase" style={style}>
+                    {g.bottleneck?.severity}
+                  </span>
+                </div>
+                <p className="mt-1" style={{ color: MUTED }}>
+                  {g.bottleneck?.note}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { APP_BG, CARD_BG, CYAN, MUTED, NAVY, TEXT, TOXIC } from "@/lib/theme";
+
+type Props = {
+  /** AUTH_SECRET is set; without it no session can be issued. */
+  configured: boolean;
+  localEnabled: boolean;
+  ssoEnabled: boolean;
+  ssoName: string;
+  /** Error code from the SSO callback (`/login?error=`). */
+  error: string;
+  next: string;
+};
+
+const SSO_ERRORS: Record<string, string> = {
+  sso_disabled: "Single sign-on is not configured for this console.",
+  idp_unreachable: "The identity provider could not be reached. Try again or use a local account.",
+  idp_denied: "The identity provider declined the sign-in.",
+  state_mismatch: "The sign-in attempt expired. Please start again.",
+  invalid_response: "The identity provider returned an incomplete response.",
+  invalid_token: "The identity provider returned a token this console could not accept.",
+  token_exchange_failed: "The sign-in could not be completed with the identity provider.",
+  no_role: "Your account has no PharmaGuard role (clinician, pharmacist or auditor). Ask an administrator to assign one.",
+  auth_not_configured: "Authentication is not configured on the server.",
+  sso_failed: "Single sign-on failed. Please try again.",
+};
+
+export default function LoginForm({ configured, localEnabled, ssoEnabled, ssoName, error, next }: Props) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [formError, setFormError] = useState(error ? SSO_ERRORS[error] || "Sign-in failed. Please try again." : "");
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setFormError("");
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ username, password, next }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setFormError(typeof body?.detail === "string" ? body.detail : "Sign-in failed. Please try again.");
+        return;
+      }
+      window.location.assign(typeof body?.redirect === "string" ? body.redirect : "/");
+    } catch {
+      setFormError("Could not reach the console. Check your connection and retry.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const ssoHref = `/api/auth/oidc${next ? `?next=${encodeURIComponent(next)}` : ""}`;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4" style={{ background: APP_BG, color: TEXT }}>
+      <div className="reveal w-full max-w-sm rounded-2xl border p-6 shadow-sm" style={{ background: CARD_BG, borderColor: "#D7E1EC" }}>
+        <h1 className="text-lg font-bold tracking-wide" style={{ color: NAVY }}>
+          Pharma<span style={{ color: CYAN }}>Guard</span>
+        </h1>
+        <p className="text-xs font-semibold uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+          Clinical Intelligence Console
+        </p>
+
+        {!configured ? (
+          <p className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            Sign-in is not configured. Set <code>AUTH_SECRET</code> (32+ characters) and <code>AUTH_USERS</code> or the <code>OIDC_*</code> variables, then restart the console.
+          </p>
+        ) : (
+          <>
+            {localEnabled && (
+              <form onSubmit={submit} className="mt-4 space-y-3">
+                <label className="block text-xs font-semibold" style={{ color: MUTED }}>
+                  Username
+                  <input
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                    required
+                    className="mt-1 w-full rounded-lg border px-3 py-2 text-sm outline-none focus:border-[#00B4D8]"
+                    style={{ borderColor: "#C7D4E3", color: TEXT }}
+                  />
+                </label>
+                <label className="block text-xs font-semibold" style={{ color: MUTED }}>
+                  Password
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    required
+                    className="mt-1 w-full rounded-lg border px-3 py-2 text-sm outline-none focus:border-[#00B4D8]"
+                    style={{ borderColor: "#C7D4E3", color: TEXT }}
+                  />
+                </label>
+                <button type="submit" disabled={busy} className="w-full rounded-lg px-3 py-2 text-sm font-semibold text-white transition hover:opacity-90 disabled:opacity-60" style={{ background: NAVY }}>
+                  {busy ? "Signing in..." : "Sign in"}
+                </button>
+              </form>
+            )}
+            {localEnabled && ssoEnabled && (
+              <p className="my-3 text-center text-[11px] uppercase tracking-[0.14em]" style={{ color: MUTED }}>
+                or
+              </p>
+            )}
+            {ssoEnabled && (
+              <a
+                href={ssoHref}
+                className={`${localEnabled ? "" : "mt-4 "}block rounded-lg border px-3 py-2 text-center text-sm font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]`}
+                style={{ borderColor: "#C7D4E3", color: NAVY }}
+              >
+                Sign in with {ssoName}
+              </a>
+            )}
+            {!localEnabled && !ssoEnabled && (
+              <p className="mt-4 text-sm" style={{ color: MUTED }}>
+                No sign-in method is configured. Set <code>AUTH_USERS</code> or <code>OIDC_ISSUER</code> and <code>OIDC_CLIENT_ID</code>.
+              </p>
+            )}
+          </>
+        )}
+
+        {formError && (
+          <p className="mt-3 text-sm" style={{ color: TOXIC }} role="alert">
+            {formError}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import type { KnowledgeBase } from "@/lib/knowledge";
+import { detectMedListFormat, importMedicationList, MED_LIST_FORMAT_LABELS, MedListError, type MedListFormat, type MedListImport } from "@/lib/medlist";
+import { MUTED, NAVY } from "@/lib/theme";
+
+type Props = {
+  knowledge: KnowledgeBase;
+  onApply: (drugs: string[]) => void;
+  onClose: () => void;
+};
+
+export default function MedicationImport({ knowledge, onApply, onClose }: Props) {
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<MedListFormat | "auto">("auto");
+  const [result, setResult] = useState<MedListImport | null>(null);
+  const [error, setError] = useState("");
+
+  function read(source = text) {
+    setError("");
+    setResult(null);
+    try {
+      setResult(importMedicationList(knowledge, source, format === "auto" ? detectMedListFormat(source) : format));
+    } catch (e) {
+      setError(e instanceof MedListError ? e.message : "The medication list could not be read.");
+    }
+  }
+
+  async function loadFile(file: File | null) {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    read(content);
+  }
+
+  const drugs = result ? [...new Set(result.assessable.map((a) => a.drug))] : [];
+
+  return (
+    <div className="mt-3 rounded-xl border bg-white p-3" style={{ borderColor: "#D7E1EC" }}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+          Import Medication List
+        </p>
+        <button type="button" onClick={onClose} className="text-xs font-semibold" style={{ color: MUTED }}>
+          Close
+        </button>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        placeholder={"CSV (drug,dose,status), HL7 v2 RXE/RXO segments or a FHIR MedicationStatement bundle"}
+        className="mt-2 w-full rounded-lg border px-2 py-1.5 font-mono text-[11px] outline-none"
+        style={{ borderColor: "#C7D4E3" }}
+        aria-label="Medication list"
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value as MedListFormat | "auto")} className="rounded-lg border bg-white px-2 py-1 text-xs" style={{ borderColor: "#C7D4E3", color: NAVY }} aria-label="List format">
+          <option value="auto">Detect format</option>
+          {(Object.keys(MED_LIST_FORMAT_LABELS) as MedListFormat[]).map((f) => (
+            <option key={f} value={f}>
+              {MED_LIST_FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+        <label className="cursor-pointer rounded-lg border bg-white px-3 py-1.5 text-xs font-semibold" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+          <input
+            className="sr-only"
+            type="file"
+            accept=".csv,.txt,.hl7,.json"
+            onChange={(e) => {
+              void loadFile(e.target.files?.[0] || null);
+              e.target.value = "";
+            }}
+          />
+          Upload file
+        </label>
+        <button
+          type="button"
+          onClick={() => read()}
+          className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]"
+          style={{ borderColor: "#C7D4E3", color: NAVY }}
+        >
+          Read list
+        </button>
+      </div>
+      {error && <p role="alert" className="mt-2 text-xs text-red-700">{error}</p>}
+
+      {result && (
+        <div className="mt-3 space-y-2 text-xs">
+          <p style={{ color: MUTED }}>Read as {MED_LIST_FORMAT_LABELS[result.format]}.</p>
+          <div>
+            <p className="font-semibold text-emerald-700">Assessable ({drugs.length})</p>
+            <div className="mt-1 flex flex-wrap gap-1.5">
+              {result.assessable.map(({ ingredient, drug }) => (
+                <span key={drug} className="rounded-full border px-2 py-0.5 text-[11px]" style={{ borderColor: "#A7F3D0", background: "#ECFDF5", color: "#047857" }} title={ingredient.source}>
+                  {ingredient.name.toUpperCase() === drug ? drug : `${ingredient.name} → ${drug}`}
+                </span>
+              ))}
+              {!result.assessable.length && <span style={{ color: MUTED }}>None of these drugs has a pharmacogenomic rule in PharmaGuard.</span>}
+            </div>
+          </div>
+          {!!result.unassessable.length && (
+            <div>
+              <p className="font-semibold" style={{ color: MUTED }}>
+                Not assessable ({result.unassessable.length})
+              </p>
+              <ul className="mt-1 space-y-0.5 text-[11px]" style={{ color: MUTED }}>
+                {result.unassessable.map(({ ingredient, suggestions }) => (
+                  <li key={`${ingredient.source}-${ingredient.name}`}>
+                    {ingredient.name} <span className="opacity-70">({ingredient.source})</span>
+                    {!!suggestions.length && ` · did you mean ${suggestions.join(", ")}?`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {!!result.skipped.length && (
+            <div>
+              <p className="font-semibold text-amber-700">Skipped ({result.skipped.length})</p>
+              <ul className="mt-1 space-y-0.5 text-[11px]" style={{ color: MUTED }}>
+                {result.skipped.map((s) => (
+                  <li key={s}>{s}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <button
+            type="button"
+            disabled={!drugs.length}
+            onClick={() => onApply(drugs)}
+            className="rounded-lg px-3 py-1.5 text-xs font-semibold text-white transition-transform duration-200 hover:-translate-y-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+            style={{ background: NAVY }}
+          >
+            Use {drugs.length} assessable drug{drugs.length === 1 ? "" : "s"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { RedactionSummary as Summary } from "@/lib/deidentify";
+import { MUTED, NAVY } from "@/lib/theme";
+
+type Props = {
+  summary: Summary;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+};
+
+export default function RedactionSummary({ summary, enabled, onToggle }: Props) {
+  const droppedLines = summary.droppedMeta.reduce((sum, d) => sum + d.count, 0);
+
+  return (
+    <div className="mt-3 rounded-xl border bg-white p-3 text-left" style={{ borderColor: enabled ? "#A7F3D0" : "#FDE68A" }}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+          De-identification
+        </p>
+        <label className="inline-flex items-center gap-2 text-xs font-semibold" style={{ color: NAVY }}>
+          <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+          De-identify before upload
+        </label>
+      </div>
+      {enabled ? (
+        <>
+          <p className="mt-2 text-xs" style={{ color: NAVY }}>
+            Uploads as <span className="font-mono font-semibold">{summary.fileName}</span>. The link back to{" "}
+            <span className="font-semibold">{summary.originalFileName}</span> stays in this browser.
+          </p>
+          <ul className="mt-2 space-y-1 text-[11px]" style={{ color: MUTED }}>
+            <li>
+              Samples renamed:{" "}
+              {summary.samples.length ? summary.samples.map((s) => `${s.original} → ${s.pseudonym}`).join(", ") : "no sample columns"}
+            </li>
+            <li>
+              Header lines dropped: {droppedLines}
+              {!!summary.droppedMeta.length && ` (${summary.droppedMeta.map((d) => `${d.key} ×${d.count}`).join(", ")})`}
+            </li>
+            <li>Header keys kept: {summary.keptMetaKeys.join(", ") || "none"}</li>
+            <li>
+              Variant rows kept: {summary.rowsKept} pharmacogenomic panel rows, {summary.rowsDropped} others removed
+            </li>
+          </ul>
+          {!summary.rowsKept && (
+            <p className="mt-2 text-xs text-amber-800">
+              None of this file&apos;s rows are on the panel, so the server will reject the de-identified copy as having no variant rows.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="mt-2 text-xs text-amber-800">
+          The file goes to the server under its own name with every variant row. The console still strips identifying header lines and
+          sample names on the way.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { DECISION_LABELS, RISK_LABELS } from "@/lib/review";
+import type { RiskCard } from "@/lib/risk";
+import { MUTED, NAVY, OVERRIDE } from "@/lib/theme";
+import type { DrugReview, ReviewDecision } from "@/lib/types";
+
+type Props = {
+  /** Engine output for this drug. */
+  card: RiskCard;
+  decision?: DrugReview;
+  /** Signed reports and auditors only see the decision. */
+  readOnly: boolean;
+  /** Returns an error message when the decision was refused. */
+  onDecide: (input: { decision: ReviewDecision; riskLabel?: string; recommendation?: string; reason?: string }) => string;
+  onUndo: () => void;
+};
+
+const BUTTON = "rounded-lg border px-2.5 py-1 text-[11px] font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF]";
+
+export default function ReviewControls({ card, decision, readOnly, onDecide, onUndo }: Props) {
+  const [mode, setMode] = useState<"overridden" | "flagged" | null>(null);
+  const [riskLabel, setRiskLabel] = useState(card.label);
+  const [recommendation, setRecommendation] = useState(card.recommendation);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+
+  function open(next: "overridden" | "flagged") {
+    setMode(next);
+    setRiskLabel(decision?.clinician?.risk_label || card.label);
+    setRecommendation(decision?.clinician?.recommendation || card.recommendation);
+    setReason(decision?.reason || "");
+    setError("");
+  }
+
+  function submit(input: Parameters<Props["onDecide"]>[0]) {
+    const message = onDecide(input);
+    setError(message);
+    if (!message) setMode(null);
+  }
+
+  return (
+    <div className="mt-3 border-t pt-2" style={{ borderColor: "#E2E8F0" }}>
+      {decision && (
+        <div className="rounded-lg border px-2 py-1.5 text-[11px]" style={{ borderColor: "#DDD6FE", background: "#F5F3FF", color: OVERRIDE }}>
+          <p className="font-semibold">
+            {DECISION_LABELS[decision.decision]} by {decision.reviewer}
+            <span className="font-normal" style={{ color: MUTED }}>
+              {" "}
+              · {new Date(decision.reviewed_at).toLocaleString()}
+            </span>
+          </p>
+          {decision.reason && <p className="mt-0.5">Reason: {decision.reason}</p>}
+        </div>
+      )}
+
+      {!readOnly && !mode && (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          <button type="button" className={BUTTON} style={{ borderColor: "#A7F3D0", color: "#047857" }} onClick={() => submit({ decision: "accepted" })}>
+            Accept
+          </button>
+          <button type="button" className={BUTTON} style={{ borderColor: "#DDD6FE", color: OVERRIDE }} onClick={() => open("overridden")}>
+            Override
+          </button>
+          <button type="button" className={BUTTON} style={{ borderColor: "#FDE68A", color: "#B45309" }} onClick={() => open("flagged")}>
+            Flag
+          </button>
+          {decision && (
+            <button type="button" className="text-[11px] font-semibold" style={{ color: MUTED }} onClick={onUndo}>
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+
+      {!readOnly && mode && (
+        <form
+          className="mt-2 space-y-2 rounded-lg border p-2"
+          style={{ borderColor: "#DDD6FE" }}
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(mode === "overridden" ? { decision: mode, riskLabel, recommendation, reason } : { decision: mode, reason });
+          }}
+        >
+          {mode === "overridden" && (
+            <>
+              <label className="block text-[11px] font-semibold" style={{ color: NAVY }}>
+                Risk label
+                <select value={riskLabel} onChange={(e) => setRiskLabel(e.target.value)} className="mt-1 block w-full rounded-md border px-2 py-1 text-xs font-normal" style={{ borderColor: "#C7D4E3" }}>
+                  {[...new Set([card.label, ...RISK_LABELS])].map((label) => (
+                    <option key={label} value={label}>
+                      {label}
+                      {label === card.label ? " (engine)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-[11px] font-semibold" style={{ color: NAVY }}>
+                Recommendation
+                <textarea value={recommendation} onChange={(e) => setRecommendation(e.target.value)} rows={2} className="mt-1 block w-full rounded-md border px-2 py-1 text-xs font-normal" style={{ borderColor: "#C7D4E3" }} />
+              </label>
+            </>
+          )}
+          <label className="block text-[11px] font-semibold" style={{ color: NAVY }}>
+            Reason{mode === "overridden" ? " (required)" : " (optional)"}
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} className="mt-1 block w-full rounded-md border px-2 py-1 text-xs font-normal" style={{ borderColor: "#C7D4E3" }} />
+          </label>
+          <div className="flex gap-1.5">
+            <button type="submit" className={BUTTON} style={{ borderColor: "#DDD6FE", color: OVERRIDE }}>
+              {mode === "overridden" ? "Save override" : "Flag for follow-up"}
+            </button>
+            <button type="button" className="text-[11px] font-semibold" style={{ color: MUTED }} onClick={() => setMode(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <p role="alert" className="mt-1 text-[11px] text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { toneColor } from "@/lib/risk";
+import type { Tone } from "@/lib/types";
+
+type Props = {
+  tone: Tone;
+  size?: number;
+  /** Position when drawn inside an SVG chart. */
+  x?: number;
+  y?: number;
+};
+
+/**
+ * A distinct shape per tone (circle, triangle, octagon, diamond) so risk reads
+ * without colour. Decorative: always sits next to the label text.
+ */
+export default function RiskIcon({ tone, size = 12, x, y }: Props) {
+  const fill = toneColor(tone);
+  const mark = { fill: "none", stroke: "#fff", strokeWidth: 1.8, strokeLinecap: "round", strokeLinejoin: "round" } as const;
+
+  return (
+    <svg x={x} y={y} width={size} height={size} viewBox="0 0 16 16" aria-hidden="true" focusable="false" className="inline-block shrink-0">
+      {tone === "safe" && (
+        <>
+          <circle cx={8} cy={8} r={7.5} fill={fill} />
+          <path d="M4.6 8.3 7 10.6l4.4-5" {...mark} />
+        </>
+      )}
+      {tone === "adjust" && (
+        <>
+          <path d="M8 0.8 15.6 14.6H0.4Z" fill={fill} />
+          <path d="M8 5.6v4" {...mark} />
+          <circle cx={8} cy={12.2} r={1} fill="#fff" />
+        </>
+      )}
+      {tone === "toxic" && (
+        <>
+          <path d="M4.9 0.5h6.2l4.4 4.4v6.2l-4.4 4.4H4.9L0.5 11.1V4.9Z" fill={fill} />
+          <path d="m5.4 5.4 5.2 5.2m0-5.2-5.2 5.2" {...mark} />
+        </>
+      )}
+      {tone === "unknown" && (
+        <>
+          <path d="M8 0.5 15.5 8 8 15.5 0.5 8Z" fill={fill} />
+          <path d="M8 9V8.4c0-.8 1.6-1.1 1.6-2.3 0-.9-.7-1.5-1.6-1.5s-1.6.6-1.6 1.4" {...mark} strokeWidth={1.5} />
+          <circle cx={8} cy={11.4} r={0.9} fill="#fff" />
+        </>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,64 @@
+import { MUTED, NAVY } from "@/lib/theme";
+import { formatBytes, MAX_FILE_SIZE } from "@/lib/vcf";
+import type { VcfInput } from "@/lib/vcfinput";
+
+type Props = {
+  input: VcfInput;
+  selected: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+  /** Queues one analysis per sample in the cohort workspace. */
+  onAnalyzeAll: () => void;
+};
+
+export default function SamplePicker({ input, selected, disabled, onSelect, onAnalyzeAll }: Props) {
+  const multi = input.samples.length > 1;
+  if (!multi && !input.compressed && !input.reduced) return null;
+
+  return (
+    <div className="mt-3 rounded-xl border bg-white p-3 text-left" style={{ borderColor: "#D7E1EC" }}>
+      <p className="text-xs font-semibold uppercase tracking-[0.12em]" style={{ color: MUTED }}>
+        Input File
+      </p>
+      <ul className="mt-2 space-y-1 text-[11px]" style={{ color: MUTED }}>
+        {input.compressed && <li>Decompressed {input.sourceName} in the browser.</li>}
+        {input.reduced && (
+          <li>
+            Over {formatBytes(MAX_FILE_SIZE)} uncompressed, so only the {input.rowsKept} pharmacogenomic panel rows of {input.rowsRead} were kept.
+          </li>
+        )}
+        {multi && <li>{input.samples.length} samples found. The backend reads one sample per analysis.</li>}
+      </ul>
+      {multi && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <label className="text-xs font-semibold" style={{ color: NAVY }} htmlFor="sample-picker">
+            Sample
+          </label>
+          <select
+            id="sample-picker"
+            value={selected}
+            disabled={disabled}
+            onChange={(e) => onSelect(Number(e.target.value))}
+            className="min-w-0 flex-1 rounded-lg border bg-white px-2 py-1 text-xs"
+            style={{ borderColor: "#C7D4E3", color: NAVY }}
+          >
+            {input.samples.map((sample, i) => (
+              <option key={`${sample}-${i}`} value={i}>
+                {sample}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onAnalyzeAll}
+            disabled={disabled}
+            className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF] disabled:opacity-50"
+            style={{ borderColor: "#C7D4E3", color: NAVY }}
+          >
+            Analyze all {input.samples.length} as a cohort
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
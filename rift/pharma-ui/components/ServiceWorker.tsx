@@ -0,0 +1,12 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers `public/sw.js`. Skipped in development, where a cached shell would hide edits. */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(() => undefined);
+  }, []);
+  return null;
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { MUTED, NAVY, OVERRIDE } from "@/lib/theme";
+import type { ClinicianReview } from "@/lib/types";
+
+type Props = {
+  review?: ClinicianReview;
+  total: number;
+  pending: string[];
+  readOnly: boolean;
+  /** Returns an error message when signing was refused. */
+  onSign: () => string;
+};
+
+export default function SignOffPanel({ review, total, pending, readOnly, onSign }: Props) {
+  const [error, setError] = useState("");
+  const signed = review?.signed_off;
+  const overrides = review?.decisions.filter((d) => d.decision === "overridden").length || 0;
+  const flags = review?.decisions.filter((d) => d.decision === "flagged").length || 0;
+
+  if (signed) {
+    return (
+      <div className="mt-3 rounded-lg border px-3 py-2 text-xs" style={{ borderColor: "#DDD6FE", background: "#F5F3FF", color: OVERRIDE }}>
+        <p className="font-semibold">
+          Signed by {signed.reviewer} ({signed.role}) on {new Date(signed.signed_at).toLocaleString()}
+        </p>
+        <p className="mt-0.5" style={{ color: MUTED }}>
+          {overrides} override(s), {flags} flag(s). The review is frozen; re-run the analysis to start a new one.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2 text-xs" style={{ borderColor: "#D7E1EC" }}>
+      <p style={{ color: MUTED }}>
+        {total - pending.length} of {total} drug result(s) reviewed
+        {!!overrides && ` · ${overrides} override(s)`}
+        {!!flags && ` · ${flags} flag(s)`}
+      </p>
+      {!readOnly && (
+        <button
+          type="button"
+          disabled={!!pending.length}
+          title={pending.length ? `Still to review: ${pending.join(", ")}` : undefined}
+          onClick={() => {
+            if (!window.confirm("Sign this report? Decisions cannot be changed afterwards.")) return;
+            setError(onSign());
+          }}
+          className="rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-[#EFF6FF] disabled:cursor-not-allowed disabled:opacity-50"
+          style={{ borderColor: "#C7D4E3", color: NAVY }}
+        >
+          Sign report
+        </button>
+      )}
+      {error && <p role="alert" className="w-full text-[11px] text-red-700">{error}</p>}
+    </div>
+  );
+}
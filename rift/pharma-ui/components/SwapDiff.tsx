@@ -0,0 +1,42 @@
+import type { SwapOutcome } from "@/lib/alternatives";
+import RiskIcon from "@/components/RiskIcon";
+import { riskInk, toneFor } from "@/lib/risk";
+import { MUTED, NAVY } from "@/lib/theme";
+
+type Props = {
+  outcome: SwapOutcome;
+};
+
+const DIRECTION_TEXT: Record<-1 | 0 | 1, string> = { 1: "Higher risk", 0: "No change", [-1]: "Lower risk" };
+
+export default function SwapDiff({ outcome }: Props) {
+  const { from, to, before, after, direction } = outcome;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-white px-2 py-1.5 text-xs" style={{ borderColor: direction > 0 ? "#FECACA" : direction < 0 ? "#A7F3D0" : "#E2E8F0" }}>
+      <span className="font-semibold" style={{ color: NAVY }}>
+        {from}
+      </span>
+      <span className="inline-flex items-center gap-1" style={{ color: riskInk(before?.label) }}>
+        {before && <RiskIcon tone={toneFor(before.label)} size={10} />}
+        {before?.label || "—"}
+      </span>
+      <span style={{ color: MUTED }}>→</span>
+      <span className="font-semibold" style={{ color: NAVY }}>
+        {to}
+      </span>
+      <span className="inline-flex items-center gap-1 font-semibold" style={{ color: riskInk(after?.label) }}>
+        {after && <RiskIcon tone={toneFor(after.label)} size={10} />}
+        {after?.label || "No result"}
+      </span>
+      {after && (
+        <span style={{ color: MUTED }}>
+          ({after.gene} {after.phenotype})
+        </span>
+      )}
+      <span className="ml-auto text-[10px] font-bold uppercase" style={{ color: MUTED }}>
+        {DIRECTION_TEXT[direction]}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { type ClientSession, signOut } from "@/lib/account";
+import { ROLE_LABELS } from "@/lib/roles";
+
+type Props = {
+  session: ClientSession | null;
+};
+
+export default function UserMenu({ session }: Props) {
+  if (!session) return null;
+  const { user } = session;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="hidden text-right sm:block">
+        <p className="text-xs font-semibold text-white">{user.name}</p>
+        <p className="text-[10px] text-blue-100/90">{ROLE_LABELS[user.role]}</p>
+      </div>
+      <button
+        type="button"
+        onClick={() => void signOut()}
+        className="rounded-full border border-[#2B6CA3] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[#0C426F]"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
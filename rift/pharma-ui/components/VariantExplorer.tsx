@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { MUTED, NAVY, TEXT, TOXIC } from "@/lib/theme";
+import type { AnalysisResult } from "@/lib/types";
+import { assembleDiplotype, collectVariantRows, geneCalls, isLegacyOrder, matchesVariantQuery, sortVariantRows, type VariantRow, type VariantSortKey } from "@/lib/variants";
+import type { Zygosity } from "@/lib/vcf";
+
+type Props = {
+  analysis: AnalysisResult;
+};
+
+const ZYGOSITY_STYLE: Record<Zygosity, { label: string; borderColor: string; background: string; color: string }> = {
+  hom_alt: { label: "Hom alt", borderColor: "#FECACA", background: "#FEF2F2", color: "#B91C1C" },
+  het: { label: "Het", borderColor: "#FDE68A", background: "#FFFBEB", color: "#B45309" },
+  hom_ref: { label: "Hom ref", borderColor: "#BBF7D0", background: "#F0FDF4", color: "#15803D" },
+  no_call: { label: "No call", borderColor: "#E2E8F0", background: "#F8FAFC", color: "#64748B" },
+};
+
+const COLUMNS: Array<{ key: VariantSortKey; label: string }> = [
+  { key: "rsid", label: "rsID" },
+  { key: "gene", label: "Gene" },
+  { key: "allele", label: "Star allele" },
+  { key: "function", label: "Function" },
+  { key: "genotype", label: "Genotype" },
+  { key: "zygosity", label: "Zygosity" },
+  { key: "qualityScore", label: "Quality" },
+];
+
+function provenance(row: VariantRow) {
+  const parts = [row.locus, row.qualityScore !== undefined ? `QUAL ${row.qualityScore}` : "", row.readDepth !== undefined ? `DP ${row.readDepth}` : "", row.filter ? `FILTER ${row.filter}` : ""];
+  return parts.filter(Boolean).join(" · ") || "Not reported";
+}
+
+export default function VariantExplorer({ analysis }: Props) {
+  const rows = useMemo(() => collectVariantRows(analysis), [analysis]);
+  const calls = useMemo(() => geneCalls(analysis), [analysis]);
+  const [query, setQuery] = useState("");
+  const [gene, setGene] = useState("");
+  const [zygosity, setZygosity] = useState<Zygosity | "">("");
+  const [sort, setSort] = useState<{ key: VariantSortKey; direction: 1 | -1 }>({ key: "gene", direction: 1 });
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const genes = useMemo(() => [...new Set(rows.map((r) => r.gene))].sort(), [rows]);
+  const visible = useMemo(
+    () => sortVariantRows(rows.filter((r) => matchesVariantQuery(r, query) && (!gene || r.gene === gene) && (!zygosity || r.zygosity === zygosity)), sort.key, sort.direction),
+    [rows, query, gene, zygosity, sort],
+  );
+  const selectedRow = rows.find((r) => r.rsid === selected);
+  const assembly = selectedRow ? assembleDiplotype(selectedRow.gene, rows, calls) : null;
+
+  const toggleSort = (key: VariantSortKey) => setSort((s) => ({ key, direction: s.key === key ? (s.direction === 1 ? -1 : 1) : 1 }));
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter by rsID, allele, drug..."
+          aria-label="Filter variants"
+          className="min-w-[180px] flex-1 rounded-lg border px-3 py-1.5 text-xs outline-none focus:border-[#00B4D8]"
+          style={{ borderColor: "#C7D4E3", color: TEXT }}
+        />
+        <select value={gene} onChange={(e) => setGene(e.target.value)} aria-label="Filter by gene" className="rounded-lg border bg-white px-2 py-1.5 text-xs" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+          <option value="">All genes</option>
+          {genes.map((g) => (
+            <option key={g} value={g}>
+              {g}
+            </option>
+          ))}
+        </select>
+        <select value={zygosity} onChange={(e) => setZygosity(e.target.value as Zygosity | "")} aria-label="Filter by zygosity" className="rounded-lg border bg-white px-2 py-1.5 text-xs" style={{ borderColor: "#C7D4E3", color: NAVY }}>
+          <option value="">All zygosities</option>
+          {(Object.keys(ZYGOSITY_STYLE) as Zygosity[]).map((z) => (
+            <option key={z} value={z}>
+              {ZYGOSITY_STYLE[z].label}
+            </option>
+          ))}
+        </select>
+        <span className="text-[10px] font-semibold" style={{ color: MUTED }}>
+          {visible.length} of {rows.length}
+        </span>
+      </div>
+
+      <div className="mt-3 overflow-x-auto rounded-lg border" style={{ borderColor: "#E2E8F0" }}>
+        <table className="w-full min-w-[760px] text-left text-xs">
+          <thead className="bg-slate-50">
+            <tr>
+              {COLUMNS.map((c) => (
+                <th key={c.key} className="px-3 py-2" aria-sort={sort.key === c.key ? (sort.direction === 1 ? "ascending" : "descending") : "none"}>
+                  <button type="button" onClick={() => toggleSort(c.key)} className="font-semibold uppercase tracking-[0.1em]" style={{ color: sort.key === c.key ? NAVY : MUTED }}>
+                    {c.label}
+                    {sort.key === c.key ? (sort.direction === 1 ? " ▲" : " ▼") : ""}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2 font-semibold uppercase tracking-[0.1em]" style={{ color: MUTED }}>
+                Drugs
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((row) => {
+              const style = ZYGOSITY_STYLE[row.zygosity];
+              const active = row.rsid === selected;
+              return (
+                <tr
+                  key={row.rsid}
+                  onClick={() => setSelected(active ? null : row.rsid)}
+                  className="cursor-pointer border-t transition-colors hover:bg-[#EFF6FF]"
+                  style={{ borderColor: "#E2E8F0", background: active ? "#EFF6FF" : undefined }}
+                  title={provenance(row)}
+                >
+                  <td className="px-3 py-2 font-mono">
+                    <a href={row.dbSnpUrl} target="_blank" rel="noreferrer" onClick={(e) => e.stopPropagation()} className="underline decoration-dotted" style={{ color: NAVY }}>
+                      {row.rsid}
+                    </a>
+                  </td>
+                  <td className="px-3 py-2 font-semibold" style={{ color: NAVY }}>
+                    {row.gene}
+                  </td>
+                  <td className="px-3 py-2">{row.allele}</td>
+                  <td className="px-3 py-2" style={{ color: MUTED }}>
+                    {row.function}
+                  </td>
+                  <td className="px-3 py-2 font-mono">{row.genotype}</td>
+                  <td className="px-3 py-2">
+                    <span className="rounded-full border px-2 py-0.5 text-[10px] font-bold uppercase" style={style}>
+                      {style.label}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2" style={{ color: MUTED }}>
+                    {row.qualityScore ?? "—"}
+                    {row.readDepth !== undefined && <span className="ml-1 text-[10px]">DP {row.readDepth}</span>}
+                  </td>
+                  <td className="px-3 py-2">{row.drugs.join(", ")}</td>
+                </tr>
+              );
+            })}
+            {!visible.length && (
+              <tr>
+                <td colSpan={COLUMNS.length + 1} className="px-3 py-4 text-center" style={{ color: MUTED }}>
+                  No variants match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedRow && assembly && (
+        <div className="mt-3 rounded-lg border bg-white p-3 text-xs" style={{ borderColor: "#C7D4E3" }}>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="font-semibold uppercase tracking-[0.1em]" style={{ color: NAVY }}>
+              {assembly.gene} diplotype assembly
+            </p>
+            <button type="button" onClick={() => setSelected(null)} className="text-[11px] font-semibold underline" style={{ color: MUTED }}>
+              Close
+            </button>
+          </div>
+          <p className="mt-1" style={{ color: MUTED }}>
+            {selectedRow.rsid}: {provenance(selectedRow)}
+          </p>
+
+          <ol className="mt-2 space-y-1">
+            {assembly.steps.map((step, i) => (
+              <li key={step.rsid} className="flex flex-wrap items-center gap-2" style={{ fontWeight: step.rsid === selectedRow.rsid ? 700 : 400 }}>
+                <span style={{ color: MUTED }}>{i + 1}.</span>
+                <span className="font-mono">{step.rsid}</span>
+                <span className="font-mono" style={{ color: MUTED }}>
+                  {step.genotype}
+                </span>
+                <span>{step.note}</span>
+                {!!step.contributes.length && <span className="font-mono" style={{ color: NAVY }}>→ {step.contributes.join(" + ")}</span>}
+              </li>
+            ))}
+          </ol>
+
+          <div className="mt-3 grid gap-2 md:grid-cols-2">
+            <div className="rounded-lg border p-2" style={{ borderColor: "#E2E8F0" }}>
+              <p className="text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: MUTED }}>
+                Assembled from these calls
+              </p>
+              <p className="mt-1 font-mono text-sm font-semibold" style={{ color: NAVY }}>
+                {assembly.assembled}
+              </p>
+              <p className="mt-1" style={{ color: MUTED }}>
+                Alleles collected: {assembly.alleles.join(", ") || "none (defaults to *1/*1)"}
+              </p>
+              {!!assembly.ignored.length && (
+                <p className="mt-1" style={{ color: MUTED }}>
+                  Only the first two are used; ignored: {assembly.ignored.join(", ")}
+                </p>
+              )}
+            </div>
+            <div className="rounded-lg border p-2" style={{ borderColor: "#E2E8F0" }}>
+              <p className="text-[10px] font-semibold uppercase tracking-[0.1em]" style={{ color: MUTED }}>
+                Reported in results
+              </p>
+              {assembly.reported.length ? (
+                assembly.reported.map((call) => (
+                  <div key={`${call.diplotype}-${call.phenotype}`} className="mt-1">
+                    <span className="font-mono text-sm font-semibold" style={{ color: call.diplotype === assembly.assembled ? NAVY : TOXIC }}>
+                      {call.diplotype}
+                    </span>
+                    <span className="ml-2">{call.phenotype}</span>
+                    <span className="ml-2" style={{ color: MUTED }}>
+                      ({call.drugs.join(", ")})
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="mt-1" style={{ color: MUTED }}>
+                  {assembly.gene} is not the primary gene of any result.
+                </p>
+              )}
+            </div>
+          </div>
+          {assembly.reported.some((c) => isLegacyOrder(c.diplotype, assembly.assembled)) && (
+            <p className="mt-2 font-semibold text-amber-800">
+              Saved before the backend wrote diplotypes reference-first. The alleles match, but that version reported most such heterozygotes as Unknown; re-run the analysis for the current call.
+            </p>
+          )}
+          {assembly.reported.some((c) => c.diplotype !== assembly.assembled && !isLegacyOrder(c.diplotype, assembly.assembled)) && (
+            <p className="mt-2 font-semibold" style={{ color: TOXIC }}>
+              The reported diplotype differs from what these variants assemble to. The backend may have applied a CPIC default or phasing not visible here; review before acting on it.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
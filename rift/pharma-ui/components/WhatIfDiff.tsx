@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import RiskIcon from "@/components/RiskIcon";
+import { diffAnalyses, toneDirection } from "@/lib/compare";
+import { riskInk } from "@/lib/risk";
+import { MUTED, NAVY } from "@/lib/theme";
+import type { AnalysisResult } from "@/lib/types";
+
+type Props = {
+  before: AnalysisResult;
+  after: AnalysisResult;
+  /** Genotype edits between the two runs, as listed by `genotypeChanges`. */
+  changes: string[];
+};
+
+const DIRECTION_TEXT: Record<-1 | 0 | 1, string> = { 1: "Higher risk", 0: "No change", [-1]: "Lower risk" };
+
+export default function WhatIfDiff({ before, after, changes }: Props) {
+  const diff = useMemo(() => diffAnalyses(before, after), [before, after]);
+
+  return (
+    <div>
+      <p className="text-xs" style={{ color: MUTED }}>
+        {changes.length ? changes.join(" · ") : "Same genotype as the previous run."}
+      </p>
+      <div className="mt-2 space-y-1.5">
+        {diff.drugs.map((d) => {
+          const direction = d.presence === "both" ? toneDirection(d.tone) : 0;
+          return (
+            <div key={d.drug} className="flex flex-wrap items-center gap-2 rounded-lg border bg-white px-2 py-1.5 text-xs" style={{ borderColor: direction > 0 ? "#FECACA" : direction < 0 ? "#A7F3D0" : "#E2E8F0" }}>
+              <span className="w-28 font-semibold" style={{ color: NAVY }}>
+                {d.drug}
+              </span>
+              {d.presence === "both" ? (
+                <>
+                  <span className="inline-flex items-center gap-1" style={{ color: riskInk(d.label.before) }}>
+                    <RiskIcon tone={d.tone.before} size={10} />
+                    {d.label.before}
+                  </span>
+                  <span style={{ color: MUTED }}>→</span>
+                  <span className="inline-flex items-center gap-1 font-semibold" style={{ color: riskInk(d.label.after) }}>
+                    <RiskIcon tone={d.tone.after} size={10} />
+                    {d.label.after}
+                  </span>
+                  <span style={{ color: MUTED }}>
+                    ({d.diplotype.before} {d.phenotype.before} → {d.diplotype.after} {d.phenotype.after})
+                  </span>
+                  <span className="ml-auto text-[10px] font-bold uppercase" style={{ color: MUTED }}>
+                    {DIRECTION_TEXT[direction]}
+                  </span>
+                </>
+              ) : (
+                <span style={{ color: MUTED }}>{d.presence === "added" ? "Only in this run" : "Only in the previous run"}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { forgetPseudonyms } from "./deidentify";
+import { clearHistory } from "./history";
+import { isRole, type SessionUser } from "./roles";
+
+/** The signed-in user as the browser sees it, from `GET /api/auth/session`. */
+export type ClientSession = {
+  user: SessionUser;
+  /** Unix seconds. */
+  expiresAt: number;
+};
+
+/**
+ * Loads the current session. Resolves null when signed out or expired; rejects when
+ * the console itself is unreachable (offline), so callers can keep working instead
+ * of bouncing to /login.
+ */
+export async function loadSession(signal?: AbortSignal): Promise<ClientSession | null> {
+  const res = await fetch("/api/auth/session", { cache: "no-store", signal });
+  const body = res.ok ? await res.json().catch(() => null) : null;
+  if (!body || !isRole(body.user?.role)) return null;
+  return { user: body.user, expiresAt: Number(body.expires_at) || 0 };
+}
+
+const OWNER_KEY = "pharmaguard.owner";
+
+/** Deletes the patient data this browser keeps: saved analyses and the pseudonym map. */
+export async function clearLocalPatientData() {
+  forgetPseudonyms();
+  await clearHistory().catch(() => undefined);
+  try {
+    localStorage.removeItem(OWNER_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+}
+
+/**
+ * Marks this browser's patient data as `user`'s, first clearing whatever another user
+ * left behind, e.g. when their session expired on a shared workstation instead of
+ * signing out. Data with no recorded owner is cleared too.
+ */
+export async function claimLocalPatientData(user: SessionUser) {
+  try {
+    if (localStorage.getItem(OWNER_KEY) === user.sub) return;
+  } catch {
+    return;
+  }
+  await clearLocalPatientData();
+  try {
+    localStorage.setItem(OWNER_KEY, user.sub);
+  } catch {
+    // Storage disabled; the next sign-in clears again.
+  }
+}
+
+export async function signOut() {
+  await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+  await clearLocalPatientData();
+  window.location.assign("/login");
+}
@@ -0,0 +1,140 @@
+import { cardsOf, toneDirection } from "./compare";
+import { phenotypeTone } from "./interactions";
+import { findDrug, type KnowledgeBase } from "./knowledge";
+import { type RiskCard, toneFor } from "./risk";
+import type { AnalysisResult } from "./types";
+
+/** A same-class option for a drug the patient should not get, per the CPIC guideline for that drug. */
+export type TherapeuticAlternative = {
+  drug: string;
+  /** Pharmacogenes that change how the alternative is handled; empty when none on the panel matters. */
+  genes: string[];
+  note: string;
+};
+
+/**
+ * Alternatives per supported drug. Kept in the console rather than the knowledge base
+ * because most of them are not drugs the backend can analyze; the ones it can are
+ * offered for a re-run.
+ */
+const ALTERNATIVES: Record<string, TherapeuticAlternative[]> = {
+  CLOPIDOGREL: [
+    { drug: "PRASUGREL", genes: [], note: "P2Y12 inhibitor activated without CYP2C19." },
+    { drug: "TICAGRELOR", genes: [], note: "Direct-acting P2Y12 inhibitor; no CYP2C19 activation step." },
+  ],
+  CODEINE: [
+    { drug: "MORPHINE", genes: [], note: "Active opioid; not a CYP2D6 prodrug." },
+    { drug: "HYDROMORPHONE", genes: [], note: "Active opioid cleared by glucuronidation." },
+    { drug: "IBUPROFEN", genes: ["CYP2C9"], note: "Non-opioid analgesic for mild to moderate pain." },
+    { drug: "TRAMADOL", genes: ["CYP2D6"], note: "Also activated by CYP2D6; CPIC advises against it when codeine is avoided." },
+  ],
+  WARFARIN: [
+    { drug: "APIXABAN", genes: [], note: "Direct factor Xa inhibitor; no CYP2C9/VKORC1 dosing." },
+    { drug: "RIVAROXABAN", genes: [], note: "Direct factor Xa inhibitor; no CYP2C9/VKORC1 dosing." },
+    { drug: "DABIGATRAN", genes: [], note: "Direct thrombin inhibitor; renally cleared." },
+  ],
+  SIMVASTATIN: [
+    { drug: "ROSUVASTATIN", genes: ["SLCO1B1"], note: "Less SLCO1B1-dependent; CPIC caps the dose in poor function." },
+    { drug: "PRAVASTATIN", genes: ["SLCO1B1"], note: "Lower myopathy risk; dose limit in poor SLCO1B1 function." },
+    { drug: "FLUVASTATIN", genes: ["SLCO1B1", "CYP2C9"], note: "Metabolized by CYP2C9; check both genes." },
+  ],
+  AZATHIOPRINE: [{ drug: "MYCOPHENOLATE", genes: [], note: "Non-thiopurine antimetabolite; not affected by TPMT." }],
+  FLUOROURACIL: [{ drug: "RALTITREXED", genes: [], note: "Thymidylate synthase inhibitor not cleared by DPD." }],
+  OMEPRAZOLE: [
+    { drug: "RABEPRAZOLE", genes: ["CYP2C19"], note: "PPI with more non-enzymatic clearance; still partly CYP2C19." },
+    { drug: "FAMOTIDINE", genes: [], note: "H2 blocker; renally cleared, for when a PPI is not required." },
+  ],
+  FLUOXETINE: [
+    { drug: "SERTRALINE", genes: ["CYP2C19"], note: "SSRI mainly cleared by CYP2C19." },
+    { drug: "ESCITALOPRAM", genes: ["CYP2C19"], note: "SSRI mainly cleared by CYP2C19." },
+  ],
+  PAROXETINE: [
+    { drug: "SERTRALINE", genes: ["CYP2C19"], note: "SSRI mainly cleared by CYP2C19." },
+    { drug: "ESCITALOPRAM", genes: ["CYP2C19"], note: "SSRI mainly cleared by CYP2C19." },
+  ],
+  RISPERIDONE: [
+    { drug: "PALIPERIDONE", genes: [], note: "Active risperidone metabolite; renally cleared." },
+    { drug: "QUETIAPINE", genes: [], note: "Atypical antipsychotic metabolized by CYP3A4." },
+  ],
+  IBUPROFEN: [
+    { drug: "NAPROXEN", genes: [], note: "NSAID not primarily metabolized by CYP2C9." },
+    { drug: "KETOROLAC", genes: [], note: "NSAID not primarily metabolized by CYP2C9." },
+  ],
+};
+
+/** How the patient's phenotypes bear on an alternative. `untested` means a relevant gene has no phenotype in this analysis. */
+export type AlternativeVerdict = "suitable" | "caution" | "avoid" | "untested";
+
+export const VERDICT_LABELS: Record<AlternativeVerdict, string> = {
+  suitable: "No genetic concern",
+  caution: "Use with caution",
+  avoid: "Avoid",
+  untested: "Not assessed",
+};
+
+export type AlternativeCheck = TherapeuticAlternative & {
+  verdict: AlternativeVerdict;
+  /** One line per gene, e.g. "CYP2C19: PM" or "CYP2C9 not assessed in this analysis". */
+  reasons: string[];
+  /** The backend can analyze it, so it can be swapped into a re-run. */
+  analyzable: boolean;
+};
+
+const VERDICT_RANK: Record<AlternativeVerdict, number> = { suitable: 0, untested: 1, caution: 2, avoid: 3 };
+
+function known(value?: string): value is string {
+  return !!value && value !== "N/A" && value.toLowerCase() !== "unknown";
+}
+
+/** Gene -> phenotype as already computed for the patient, first card wins. */
+export function patientPhenotypes(cards: RiskCard[]): Map<string, string> {
+  const phenotypes = new Map<string, string>();
+  for (const card of cards) {
+    if (known(card.gene) && known(card.phenotype) && !phenotypes.has(card.gene)) phenotypes.set(card.gene, card.phenotype);
+  }
+  return phenotypes;
+}
+
+/** Alternatives for a card the engine rated toxic or ineffective, safest first. Empty for any other card. */
+export function suggestAlternatives(kb: KnowledgeBase, card: RiskCard, cards: RiskCard[]): AlternativeCheck[] {
+  if (toneFor(card.label) !== "toxic") return [];
+  const phenotypes = patientPhenotypes(cards);
+  const analyzed = new Set(cards.map((c) => c.drug.toUpperCase()));
+
+  return (ALTERNATIVES[card.drug.toUpperCase()] || [])
+    .filter((alt) => !analyzed.has(alt.drug))
+    .map((alt): AlternativeCheck => {
+      let verdict: AlternativeVerdict = "suitable";
+      const reasons = alt.genes.map((gene) => {
+        const phenotype = phenotypes.get(gene);
+        const tone = phenotypeTone(phenotype);
+        const next: AlternativeVerdict = tone === "toxic" ? "avoid" : tone === "adjust" ? "caution" : tone === "safe" ? "suitable" : "untested";
+        if (VERDICT_RANK[next] > VERDICT_RANK[verdict]) verdict = next;
+        return phenotype ? `${gene}: ${phenotype}` : `${gene} not assessed in this analysis`;
+      });
+      return { ...alt, verdict, reasons, analyzable: !!findDrug(kb, alt.drug) };
+    })
+    .sort((a, b) => VERDICT_RANK[a.verdict] - VERDICT_RANK[b.verdict]);
+}
+
+/** The drug list of a re-run: `from` replaced by `to` in place, without duplicates. */
+export function swapDrug(drugs: string[], from: string, to: string): string[] {
+  return [...new Set(drugs.map((d) => (d.toUpperCase() === from.toUpperCase() ? to : d)))];
+}
+
+export type SwapOutcome = {
+  from: string;
+  to: string;
+  before?: RiskCard;
+  after?: RiskCard;
+  /** +1 when the alternative is riskier than the original drug, -1 when it is safer. */
+  direction: -1 | 0 | 1;
+};
+
+/** Compares the original drug's card in `before` with the alternative's card in `after`. */
+export function swapOutcome(before: AnalysisResult, after: AnalysisResult, from: string, to: string): SwapOutcome {
+  const was = cardsOf(before).find((c) => c.drug.toUpperCase() === from.toUpperCase());
+  const now = cardsOf(after).find((c) => c.drug.toUpperCase() === to.toUpperCase());
+  const direction = was && now ? toneDirection({ before: toneFor(was.label), after: toneFor(now.label), changed: was.label !== now.label }) : 0;
+  return { from, to, before: was, after: now, direction };
+}
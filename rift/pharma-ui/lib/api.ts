@@ -0,0 +1,636 @@
+import type {
+  AnalysisResult,
+  ApiErrorCode,
+  AnalysisStreamEvent,
+  AuditEntry,
+  AuditOutcome,
+  AuditQuery,
+  BatchDrugResult,
+  BatchResult,
+  ClinicianReview,
+  ConfidenceBreakdown,
+  ConfidenceModel,
+  DetectedVariant,
+  DrugReview,
+  PolypharmacyWarning,
+  ReviewDecision,
+  ServiceInfo,
+  SingleResult,
+  StreamStage,
+  VariantCitation,
+} from "./types";
+
+/** Base class for every failure raised by the analysis client. */
+export class ApiError extends Error {
+  readonly status?: number;
+  /** Normalized reason from the console's `/api` routes, when it sent one. */
+  readonly code?: ApiErrorCode;
+
+  constructor(message: string, status?: number, code?: ApiErrorCode) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** The console has no analysis server configured (PHARMAGUARD_API_URL), so nothing was analyzed. */
+export class ApiConfigError extends ApiError {
+  constructor(message = "Backend URL not configured.") {
+    super(message, 503, "backend_not_configured");
+    this.name = "ApiConfigError";
+  }
+}
+
+/** The request was rejected (4xx). `message` carries the `detail`, `code` the reason. */
+export class ApiValidationError extends ApiError {
+  constructor(message: string, status: number, code?: ApiErrorCode) {
+    super(message, status, code);
+    this.name = "ApiValidationError";
+  }
+}
+
+/** Too many analyses in the last minute (429). `retryAfter` is the console's `retry-after`, in seconds. */
+export class ApiRateLimitError extends ApiValidationError {
+  readonly retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, code?: ApiErrorCode) {
+    super(message, 429, code);
+    this.name = "ApiRateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** The session is missing or expired (401), or the user's role may not make this call (403). */
+export class ApiAuthError extends ApiError {
+  constructor(message: string, status: number, code?: ApiErrorCode) {
+    super(message, status, code);
+    this.name = "ApiAuthError";
+  }
+}
+
+/** The backend failed, or could not be reached by the console (5xx). */
+export class ApiServerError extends ApiError {
+  constructor(message: string, status: number, code?: ApiErrorCode) {
+    super(message, status, code);
+    this.name = "ApiServerError";
+  }
+}
+
+/** The request never reached the console (offline, DNS, aborted). */
+export class ApiNetworkError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiNetworkError";
+  }
+}
+
+/** The backend answered 2xx but the payload does not match the expected shape. */
+export class ApiSchemaError extends ApiError {
+  readonly path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const got = received === null ? "null" : Array.isArray(received) ? "array" : typeof received;
+    super(`Unexpected response shape at \`${path}\`: expected ${expected}, received ${got}.`);
+    this.name = "ApiSchemaError";
+    this.path = path;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response decoders
+// ---------------------------------------------------------------------------
+
+type Decoder<T> = (value: unknown, path: string) => T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const str: Decoder<string> = (value, path) => {
+  if (typeof value !== "string") throw new ApiSchemaError(path, "string", value);
+  return value;
+};
+
+const num: Decoder<number> = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) throw new ApiSchemaError(path, "number", value);
+  return value;
+};
+
+const bool: Decoder<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new ApiSchemaError(path, "boolean", value);
+  return value;
+};
+
+/** Absent and `null` both decode to `undefined`; the backend serializes Python `None` as `null`. */
+function optional<T>(decode: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : decode(value, path));
+}
+
+function arrayOf<T>(decode: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ApiSchemaError(path, "array", value);
+    return value.map((item, i) => decode(item, `${path}[${i}]`));
+  };
+}
+
+function recordOf<T>(decode: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, path) => {
+    if (!isRecord(value)) throw new ApiSchemaError(path, "object", value);
+    const out: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = decode(item, `${path}.${key}`);
+    return out;
+  };
+}
+
+/**
+ * Checks the listed fields and keeps any extra ones untouched, so fields the UI
+ * does not model yet still show up in the raw JSON panel and downloads.
+ */
+function object<T>(shape: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+  return (value, path) => {
+    if (!isRecord(value)) throw new ApiSchemaError(path, "object", value);
+    const out: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const decoded = shape[key](value[key], path ? `${path}.${key}` : key);
+      if (decoded === undefined) delete out[key];
+      else out[key] = decoded;
+    }
+    return out as T;
+  };
+}
+
+const variantRef = object<VariantCitation>({
+  rsid: optional(str),
+  gene: optional(str),
+  dbSNP_url: optional(str),
+});
+
+const decodeVariant = object<DetectedVariant>({
+  rsid: optional(str),
+  gene: optional(str),
+  allele: optional(str),
+  function: optional(str),
+  genotype: optional(str),
+  chromosome: optional(str),
+  position: optional(str),
+  ref: optional(str),
+  alt: optional(str),
+  quality_score: optional(num),
+  read_depth: optional(num),
+  filter: optional(str),
+});
+
+const decodeWarning = object<PolypharmacyWarning>({
+  gene: optional(str),
+  competing_drugs: optional(arrayOf(str)),
+  count: optional(num),
+  severity: optional(str),
+  risk_level: optional(str),
+  patient_phenotype: optional(str),
+  warning: optional(str),
+  clinical_note: optional(str),
+});
+
+const decodeBreakdown = object<ConfidenceBreakdown>({
+  q_vcf: num,
+  g_cpic: num,
+  p_llm: num,
+  q_qual: optional(num),
+  q_depth: optional(num),
+  q_annotation: optional(num),
+});
+
+const decodeConfidenceModel = object<ConfidenceModel>({
+  w_vcf: num,
+  w_cpic: num,
+  w_llm: num,
+  qual_min: optional(num),
+  qual_max: optional(num),
+  dp_min: optional(num),
+  dp_max: optional(num),
+  vcf_w_qual: optional(num),
+  vcf_w_depth: optional(num),
+  vcf_w_annotation: optional(num),
+});
+
+const REVIEW_DECISIONS: ReviewDecision[] = ["accepted", "overridden", "flagged"];
+
+const decodeRiskText = object<DrugReview["engine"]>({ risk_label: str, recommendation: str });
+
+/** Never sent by the backend, but present in downloaded JSON that is loaded back in (e.g. for comparison). */
+const decodeClinicianReview = object<ClinicianReview>({
+  decisions: arrayOf(
+    object<DrugReview>({
+      drug: str,
+      decision: (value, path) => {
+        if (!REVIEW_DECISIONS.includes(value as ReviewDecision)) throw new ApiSchemaError(path, REVIEW_DECISIONS.join(" | "), value);
+        return value as ReviewDecision;
+      },
+      engine: decodeRiskText,
+      clinician: optional(decodeRiskText),
+      reason: optional(str),
+      reviewer: str,
+      reviewed_at: str,
+    }),
+  ),
+  signed_off: optional(object<NonNullable<ClinicianReview["signed_off"]>>({ reviewer: str, role: str, signed_at: str })),
+});
+
+const decodeSingleResult: Decoder<SingleResult> = object<SingleResult>({
+  patient_id: str,
+  drug: str,
+  timestamp: optional(str),
+  analysis_engine: optional(str),
+  risk_assessment: object<NonNullable<SingleResult["risk_assessment"]>>({
+    risk_label: str,
+    severity: optional(str),
+    confidence_score: optional(num),
+    confidence_breakdown: optional(decodeBreakdown),
+    cpic_level: optional(str),
+  }),
+  pharmacogenomic_profile: object<NonNullable<SingleResult["pharmacogenomic_profile"]>>({
+    primary_gene: optional(str),
+    phenotype: optional(str),
+    diplotype: optional(str),
+    detected_variants: optional(arrayOf(decodeVariant)),
+  }),
+  clinical_recommendation: optional(
+    object<NonNullable<SingleResult["clinical_recommendation"]>>({
+      action: optional(str),
+      recommendation_text: optional(str),
+      guideline_source: optional(str),
+    }),
+  ),
+  llm_generated_explanation: optional(
+    object<NonNullable<SingleResult["llm_generated_explanation"]>>({
+      summary: optional(str),
+      mechanism: optional(str),
+      recommendation: optional(str),
+      citations: optional(arrayOf(variantRef)),
+      variant_citations: optional(arrayOf(variantRef)),
+    }),
+  ),
+  quality_metrics: optional(
+    object<NonNullable<SingleResult["quality_metrics"]>>({
+      total_variants_analyzed: optional(num),
+      variants_detected: optional(num),
+      vcf_parsing_success: optional(bool),
+      file_name: optional(str),
+      file_size_bytes: optional(num),
+      confidence_model: optional(decodeConfidenceModel),
+    }),
+  ),
+  polypharmacy_warnings: optional(arrayOf(decodeWarning)),
+  clinician_review: optional(decodeClinicianReview),
+});
+
+const decodeBatchObject: Decoder<BatchResult> = object<BatchResult>({
+  patient_id: optional(str),
+  timestamp: optional(str),
+  analysis_engine: optional(str),
+  drugs_analyzed: optional(arrayOf(str)),
+  polypharmacy_warnings: optional(arrayOf(decodeWarning)),
+  llm_explanations: optional(
+    recordOf(
+      object<{ summary?: string; mechanism?: string; recommendation?: string }>({
+        summary: optional(str),
+        mechanism: optional(str),
+        recommendation: optional(str),
+      }),
+    ),
+  ),
+  results: recordOf(
+    object<BatchDrugResult>({
+      risk_label: str,
+      severity: optional(str),
+      confidence_score: optional(num),
+      confidence_breakdown: optional(decodeBreakdown),
+      confidence_model: optional(decodeConfidenceModel),
+      cpic_level: optional(str),
+      gene: optional(str),
+      phenotype: optional(str),
+      diplotype: optional(str),
+      recommendation: optional(str),
+      detected_variants: optional(arrayOf(decodeVariant)),
+    }),
+  ),
+  clinician_review: optional(decodeClinicianReview),
+});
+
+/** Folds the per-drug list that `/analyze/batch` returns into the keyed `BatchResult` the console renders. */
+export function batchFromItems(items: SingleResult[]): BatchResult {
+  const results: Record<string, BatchDrugResult> = {};
+  const llm_explanations: NonNullable<BatchResult["llm_explanations"]> = {};
+  // Each drug repeats the bottlenecks it takes part in; keep one per gene.
+  const warnings = new Map<string, PolypharmacyWarning>();
+  for (const item of items) {
+    for (const w of item.polypharmacy_warnings || []) warnings.set(w.gene || w.warning || "", w);
+    const drug = (item.drug || "UNKNOWN").toUpperCase();
+    const recommendation =
+      item.llm_generated_explanation?.recommendation ||
+      item.clinical_recommendation?.recommendation_text ||
+      item.clinical_recommendation?.action;
+    results[drug] = {
+      risk_label: item.risk_assessment?.risk_label,
+      severity: item.risk_assessment?.severity,
+      confidence_score: item.risk_assessment?.confidence_score,
+      confidence_breakdown: item.risk_assessment?.confidence_breakdown,
+      confidence_model: item.quality_metrics?.confidence_model,
+      cpic_level: item.risk_assessment?.cpic_level,
+      gene: item.pharmacogenomic_profile?.primary_gene,
+      phenotype: item.pharmacogenomic_profile?.phenotype,
+      diplotype: item.pharmacogenomic_profile?.diplotype,
+      recommendation,
+      detected_variants: item.pharmacogenomic_profile?.detected_variants,
+    };
+    llm_explanations[drug] = {
+      summary: item.llm_generated_explanation?.summary,
+      mechanism: item.llm_generated_explanation?.mechanism,
+      recommendation,
+    };
+  }
+  return {
+    patient_id: items[0]?.patient_id,
+    timestamp: items[0]?.timestamp,
+    ...(items[0]?.analysis_engine ? { analysis_engine: items[0].analysis_engine } : {}),
+    drugs_analyzed: Object.keys(results),
+    polypharmacy_warnings: [...warnings.values()],
+    llm_explanations,
+    results,
+  };
+}
+
+export function decodeSingle(payload: unknown): SingleResult {
+  return decodeSingleResult(payload, "");
+}
+
+/** Accepts both the keyed `BatchResult` object and the per-drug list the backend currently returns. */
+export function decodeBatch(payload: unknown): BatchResult {
+  if (Array.isArray(payload)) {
+    return batchFromItems(payload.map((item, i) => decodeSingleResult(item, `[${i}]`)));
+  }
+  return decodeBatchObject(payload, "");
+}
+
+/** Decodes a saved JSON export of either endpoint, telling the two apart by the single-drug `drug` field. */
+export function decodeAnalysis(payload: unknown): AnalysisResult {
+  if (isRecord(payload) && typeof payload.drug === "string") return { kind: "single", data: decodeSingle(payload) };
+  return { kind: "batch", data: decodeBatch(payload) };
+}
+
+export function decodeServiceInfo(payload: unknown): ServiceInfo {
+  return object<ServiceInfo>({
+    version: optional(str),
+    supported_drugs: arrayOf(str),
+    supported_genes: optional(arrayOf(str)),
+    cpic_guidelines: optional(recordOf(str)),
+  })(payload, "");
+}
+
+const AUDIT_OUTCOMES: AuditOutcome[] = ["success", "rejected", "error", "cancelled"];
+
+const decodeAuditEntry = object<AuditEntry>({
+  id: num,
+  timestamp: str,
+  user_id: str,
+  user_name: str,
+  role: str,
+  endpoint: str,
+  file_name: optional(str),
+  file_sha256: optional(str),
+  drugs: arrayOf(str),
+  outcome: (value, path) => {
+    if (!AUDIT_OUTCOMES.includes(value as AuditOutcome)) throw new ApiSchemaError(path, AUDIT_OUTCOMES.join(" | "), value);
+    return value as AuditOutcome;
+  },
+  status_code: num,
+  detail: optional(str),
+  risk_labels: recordOf(optional(str)),
+});
+
+export function decodeAuditLog(payload: unknown): AuditEntry[] {
+  return object<{ entries: AuditEntry[] }>({ entries: arrayOf(decodeAuditEntry) })(payload, "").entries;
+}
+
+const STREAM_STAGES: StreamStage[] = ["vcf_parsed", "genes_identified", "risk_computed", "explanation_ready"];
+
+const decodeStage = object<Extract<AnalysisStreamEvent, { event: "stage" }>>({
+  event: (value, path) => {
+    if (value !== "stage") throw new ApiSchemaError(path, '"stage"', value);
+    return value;
+  },
+  stage: (value, path) => {
+    if (!STREAM_STAGES.includes(value as StreamStage)) throw new ApiSchemaError(path, STREAM_STAGES.join(" | "), value);
+    return value as StreamStage;
+  },
+  drug: optional(str),
+  index: optional(num),
+  total: optional(num),
+  genes: optional(arrayOf(str)),
+  variants_count: optional(num),
+  vcf_parsing_success: optional(bool),
+  risk_label: optional(str),
+});
+
+export function decodeStreamEvent(payload: unknown): AnalysisStreamEvent {
+  const kind = isRecord(payload) ? payload.event : undefined;
+  if (kind === "stage") return decodeStage(payload, "");
+  if (kind === "result" && isRecord(payload)) return { event: "result", item: decodeSingleResult(payload.item, "item") };
+  if (kind === "error" && isRecord(payload)) return { event: "error", detail: typeof payload.detail === "string" ? payload.detail : "Analysis failed." };
+  if (kind === "complete") return { event: "complete" };
+  throw new ApiSchemaError("event", "stage | result | error | complete", kind);
+}
+
+// ---------------------------------------------------------------------------
+// Request builders
+// ---------------------------------------------------------------------------
+
+export function buildAnalyzeRequest(file: File, drug: string, patientId?: string): FormData {
+  const form = new FormData();
+  form.append("vcf", file);
+  form.append("drug", drug);
+  if (patientId) form.append("patient_id", patientId);
+  return form;
+}
+
+export function buildBatchRequest(file: File, drugs: string[], patientId?: string): FormData {
+  const form = new FormData();
+  form.append("vcf", file);
+  form.append("drugs", drugs.join(","));
+  if (patientId) form.append("patient_id", patientId);
+  return form;
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/** Same-origin route handlers that proxy the backend; see `lib/proxy.ts`. */
+const API_BASE = "/api";
+
+/** Errors arrive as `{code, detail}`; FastAPI shapes (`{detail: [{msg}]}`, `{error}`) are still read for older deployments. */
+function extractErrorDetail(body: unknown): string {
+  if (!isRecord(body)) return "";
+  const { detail, error } = body;
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map((d) => (isRecord(d) && typeof d.msg === "string" ? d.msg : ""))
+      .filter(Boolean)
+      .join("; ");
+  }
+  return typeof error === "string" ? error : "";
+}
+
+type RequestOptions = { signal?: AbortSignal; patientId?: string };
+
+function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+async function send(path: string, init: RequestInit): Promise<Response> {
+  try {
+    // The session cookie rides along; the route handler turns it into the backend's bearer token.
+    return await fetch(`${API_BASE}${path}`, { ...init, credentials: "same-origin" });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    throw new ApiNetworkError(e instanceof Error ? e.message : "Network request failed.");
+  }
+}
+
+function errorForStatus(res: Response, body: unknown): ApiError {
+  const detail = extractErrorDetail(body) || `Request failed (${res.status})`;
+  const code = isRecord(body) && typeof body.code === "string" ? (body.code as ApiErrorCode) : undefined;
+  if (code === "backend_not_configured") return new ApiConfigError(detail);
+  if (res.status === 401 || res.status === 403) return new ApiAuthError(detail, res.status, code);
+  if (res.status === 429) {
+    const retryAfter = Number(res.headers.get("retry-after"));
+    return new ApiRateLimitError(detail, retryAfter > 0 ? retryAfter : undefined, code);
+  }
+  if (res.status >= 400 && res.status < 500) return new ApiValidationError(detail, res.status, code);
+  return new ApiServerError(detail, res.status, code);
+}
+
+async function request<T>(path: string, init: RequestInit, decode: (payload: unknown) => T): Promise<T> {
+  const res = await send(path, init);
+  const data: unknown = await res.json().catch(() => null);
+  if (!res.ok) throw errorForStatus(res, data);
+  return decode(data);
+}
+
+function postForm<T>(path: string, body: FormData, decode: (payload: unknown) => T, options: RequestOptions = {}): Promise<T> {
+  return request(path, { method: "POST", body, signal: options.signal }, decode);
+}
+
+export function analyzeSingle(file: File, drug: string, options?: RequestOptions): Promise<SingleResult> {
+  return postForm("/analyze", buildAnalyzeRequest(file, drug, options?.patientId), decodeSingle, options);
+}
+
+export function analyzeBatch(file: File, drugs: string[], options?: RequestOptions): Promise<BatchResult> {
+  return postForm("/analyze/batch", buildBatchRequest(file, drugs, options?.patientId), decodeBatch, options);
+}
+
+type StreamOptions = RequestOptions & { onEvent?: (event: AnalysisStreamEvent) => void };
+
+/**
+ * `POST /analyze/stream`: reports each stage as it happens and resolves with the
+ * per-drug items once the server says `complete`. Aborting `signal` cancels the
+ * request server-side too; the AbortError is rethrown as-is.
+ */
+export async function analyzeStream(file: File, drugs: string[], options: StreamOptions = {}): Promise<SingleResult[]> {
+  const res = await send("/analyze/stream", { method: "POST", body: buildBatchRequest(file, drugs, options.patientId), signal: options.signal });
+  if (!res.ok) throw errorForStatus(res, await res.json().catch(() => null));
+  if (!res.body) throw new ApiNetworkError("The server did not return a progress stream.");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const items: SingleResult[] = [];
+  let buffer = "";
+
+  const handle = (line: string): boolean => {
+    if (!line.trim()) return false;
+    let payload: unknown;
+    try {
+      payload = JSON.parse(line);
+    } catch {
+      throw new ApiSchemaError("stream", "one JSON object per line", line);
+    }
+    const event = decodeStreamEvent(payload);
+    options.onEvent?.(event);
+    if (event.event === "error") throw new ApiServerError(event.detail, res.status);
+    if (event.event === "result") items.push(event.item);
+    return event.event === "complete";
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop() || "";
+      for (const line of lines) {
+        if (handle(line)) return items;
+      }
+      if (done) break;
+    }
+  } catch (e) {
+    if (isAbortError(e) || e instanceof ApiError) throw e;
+    throw new ApiNetworkError(e instanceof Error ? e.message : "The progress stream was interrupted.");
+  } finally {
+    reader.releaseLock();
+  }
+  throw new ApiNetworkError("The progress stream ended before the analysis finished.");
+}
+
+/** Backend `GET /` via `/api/service`: the drugs, genes and CPIC guideline titles it currently supports. */
+export function getServiceInfo(options?: { signal?: AbortSignal }): Promise<ServiceInfo> {
+  return request("/service", { signal: options?.signal }, decodeServiceInfo);
+}
+
+/** `GET /audit`: analysis calls matching `query`, newest first. Auditors only. */
+export function getAuditLog(query: AuditQuery = {}, options?: { signal?: AbortSignal }): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return request(`/audit${qs ? `?${qs}` : ""}`, { signal: options?.signal }, decodeAuditLog);
+}
+
+// ---------------------------------------------------------------------------
+// User-facing messages
+// ---------------------------------------------------------------------------
+
+const ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  backend_not_configured: "The analysis server is not configured. Set PHARMAGUARD_API_URL on the console server and restart it.",
+  unauthenticated: "Your session has expired. Sign in again to continue.",
+  forbidden: "Your role does not allow this action.",
+  invalid_file_type: "Invalid file type. Please upload a `.vcf` genomic file.",
+  file_too_large: "VCF file is too large. Maximum allowed size is 5 MB.",
+  empty_file: "The uploaded file is empty or unreadable.",
+  invalid_vcf: "The uploaded file is not a valid VCF (required headers are missing).",
+  incomplete_vcf: "The uploaded VCF has no variant rows; it may be incomplete or corrupted.",
+  unreadable_file: "The uploaded file could not be read. It may be corrupted or use an unsupported encoding.",
+  missing_file: "No VCF file was attached to the request.",
+  backend_unreachable: "The console could not reach the analysis server. Please retry in a moment.",
+  backend_timeout: "The analysis server took too long to answer. Please retry in a moment.",
+  backend_rejected_proxy: "The analysis server rejected the console's signed request. Check that PROXY_SIGNING_SECRET matches on both servers.",
+  backend_error: "The server could not complete this analysis. Please retry in a moment.",
+};
+
+export function toFriendlyApiError(error: unknown): string {
+  if (error instanceof ApiError && error.code === "rate_limited") return error.message;
+  if (error instanceof ApiError && error.code && ERROR_MESSAGES[error.code]) return ERROR_MESSAGES[error.code] as string;
+  if (error instanceof ApiNetworkError) {
+    return "Could not reach the console. Check your connection and retry.";
+  }
+  if (error instanceof ApiSchemaError) {
+    return `The server returned a response this console does not recognize (${error.path || "root"}). The backend may have been updated; please report this.`;
+  }
+  if (error instanceof ApiServerError) {
+    return "The server could not complete this analysis. Please retry in a moment.";
+  }
+  if (error instanceof ApiError && error.message) return error.message;
+  return "Analysis failed. Please review inputs and try again.";
+}
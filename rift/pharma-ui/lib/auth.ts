@@ -0,0 +1,61 @@
+import { scrypt, timingSafeEqual } from "node:crypto";
+import { isRole, type Role, type SessionUser } from "./roles";
+
+/**
+ * Local credential accounts, read from AUTH_USERS (JSON):
+ *   [{"username": "dr.lee", "name": "Dr. Lee", "role": "clinician", "password": "scrypt$<salt>$<hash>"}]
+ * Generate the password field with `npm run hash-password`. Node runtime only.
+ */
+type LocalAccount = {
+  username: string;
+  name: string;
+  role: Role;
+  password: string;
+};
+
+const KEY_LENGTH = 64;
+
+function localAccounts(): LocalAccount[] {
+  const raw = process.env.AUTH_USERS;
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error("AUTH_USERS is not valid JSON; local sign-in is disabled.");
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter((a): a is LocalAccount => {
+    const ok = typeof a?.username === "string" && typeof a?.password === "string" && isRole(a?.role);
+    if (!ok) console.error("Skipping malformed AUTH_USERS entry.");
+    return ok;
+  });
+}
+
+export function isLocalLoginEnabled(): boolean {
+  return localAccounts().length > 0;
+}
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key))));
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await derive(password, Buffer.from(salt, "base64"));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** The account's session user, or null. Unknown usernames still pay for one scrypt so timing does not reveal them. */
+export async function verifyLocalCredentials(username: string, password: string): Promise<SessionUser | null> {
+  const account = localAccounts().find((a) => a.username.toLowerCase() === username.trim().toLowerCase());
+  if (!account) {
+    await derive(password, Buffer.alloc(16));
+    return null;
+  }
+  if (!(await passwordMatches(password, account.password))) return null;
+  return { sub: account.username, name: account.name || account.username, role: account.role, provider: "local" };
+}
@@ -0,0 +1,135 @@
+import { analyzeBatch, analyzeSingle, ApiRateLimitError, toFriendlyApiError } from "./api";
+import { deidentifyVcfFile, rememberPseudonym } from "./deidentify";
+import { type RiskCard, toRiskCards } from "./risk";
+import { validateVcfFile } from "./vcf";
+
+/** Files analyzed at once; the backend runs an LLM call per drug, so keep this small. */
+export const COHORT_CONCURRENCY = 3;
+
+/** How often one file is retried after the console's per-user rate limit turns it away. */
+const RATE_LIMIT_RETRIES = 5;
+/** Used when a 429 carries no `retry-after`. */
+const RATE_LIMIT_FALLBACK_S = 10;
+
+export type CohortStatus = "queued" | "running" | "done" | "failed";
+
+export type CohortEntry = {
+  id: string;
+  file: File;
+  patientId: string;
+  status: CohortStatus;
+  error?: string;
+  cards?: RiskCard[];
+};
+
+/** Uses the file name without extension as the patient ID, so the matrix rows map back to the clinic list. */
+export function patientIdFromFile(file: File): string {
+  return file.name.replace(/\.vcf$/i, "").replace(/[^A-Za-z0-9_\-]+/g, "_") || "patient";
+}
+
+export function toCohortEntries(files: File[]): CohortEntry[] {
+  return files
+    .filter((f) => f.name.toLowerCase().endsWith(".vcf"))
+    .map((file) => ({
+      // webkitRelativePath keeps same-named files from different subfolders apart.
+      id: `${file.webkitRelativePath || file.name}:${file.size}:${file.lastModified}`,
+      file,
+      patientId: patientIdFromFile(file),
+      status: "queued" as const,
+    }));
+}
+
+/** Runs `worker` over `items` with at most `limit` in flight, preserving no order between completions. */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Calls `analyze` again after a 429, waiting as long as `retry-after` asks. A cohort
+ * easily outruns the per-user limit, and a throttled file is not a failed one.
+ */
+async function retryWhenRateLimited<T>(analyze: () => Promise<T>, signal: AbortSignal | undefined, onWait: (seconds: number) => void): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await analyze();
+    } catch (e) {
+      if (!(e instanceof ApiRateLimitError) || attempt >= RATE_LIMIT_RETRIES || signal?.aborted) throw e;
+      const seconds = e.retryAfter ?? RATE_LIMIT_FALLBACK_S;
+      onWait(seconds);
+      await pause(seconds * 1000, signal);
+    }
+  }
+}
+
+type RunOptions = {
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** Upload each file under a fresh pseudonym; the queue keeps showing the real patient ID. */
+  deidentify?: boolean;
+  onUpdate: (id: string, patch: Partial<CohortEntry>) => void;
+};
+
+/**
+ * Analyzes every entry against `drugs`. Each file settles independently: a
+ * validation or API failure marks that entry `failed` and the run continues. Rate
+ * limited files wait and retry instead.
+ */
+export async function runCohort(entries: CohortEntry[], drugs: string[], { concurrency = COHORT_CONCURRENCY, signal, deidentify = false, onUpdate }: RunOptions): Promise<void> {
+  await runWithConcurrency(entries, concurrency, async (entry) => {
+    if (signal?.aborted) return;
+    onUpdate(entry.id, { status: "running", error: undefined, cards: undefined });
+
+    const invalid = await validateVcfFile(entry.file);
+    if (invalid) {
+      onUpdate(entry.id, { status: "failed", error: invalid });
+      return;
+    }
+
+    try {
+      let file = entry.file;
+      let patientId = entry.patientId;
+      if (deidentify) {
+        const redacted = await deidentifyVcfFile(entry.file);
+        rememberPseudonym(redacted.summary, entry.patientId);
+        file = redacted.file;
+        patientId = redacted.summary.pseudonym;
+      }
+      const cards = await retryWhenRateLimited(
+        async () =>
+          drugs.length === 1
+            ? toRiskCards(await analyzeSingle(file, drugs[0], { signal, patientId }), null)
+            : toRiskCards(null, await analyzeBatch(file, drugs, { signal, patientId })),
+        signal,
+        (seconds) => onUpdate(entry.id, { error: `Rate limited; retrying in ${seconds} s.` }),
+      );
+      onUpdate(entry.id, { status: "done", error: undefined, cards });
+    } catch (e) {
+      if (signal?.aborted) {
+        onUpdate(entry.id, { status: "queued", error: undefined });
+        return;
+      }
+      onUpdate(entry.id, { status: "failed", error: toFriendlyApiError(e) });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Command palette entries. The page builds the list from its current state on every
+ * open, so a command only appears while it can run (no "Run analysis" mid-run, no
+ * "Remove" for a drug that is not selected).
+ */
+
+export type CommandGroup = "Input" | "Drugs" | "Analysis" | "Results" | "Go to";
+
+export type Command = {
+  id: string;
+  label: string;
+  group: CommandGroup;
+  /** Extra words the filter matches, e.g. drug synonyms or "json". */
+  keywords?: string;
+  /** Returns what screen readers hear once it ran; the label is used otherwise. */
+  run: () => string | void;
+};
+
+export const COMMAND_GROUPS: CommandGroup[] = ["Input", "Drugs", "Analysis", "Results", "Go to"];
+
+/**
+ * Every whitespace-separated word of the query must appear in the label, group or
+ * keywords. Label prefix matches come first, then label matches, then the rest;
+ * ties keep the page's order.
+ */
+export function filterCommands(commands: Command[], query: string): Command[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return commands;
+  const q = words.join(" ");
+
+  const ranked: { command: Command; rank: number; index: number }[] = [];
+  commands.forEach((command, index) => {
+    const label = command.label.toLowerCase();
+    const haystack = `${label} ${command.group.toLowerCase()} ${(command.keywords || "").toLowerCase()}`;
+    if (!words.every((w) => haystack.includes(w))) return;
+    const rank = label.startsWith(q) ? 0 : words.every((w) => label.includes(w)) ? 1 : 2;
+    ranked.push({ command, rank, index });
+  });
+  return ranked.sort((a, b) => a.rank - b.rank || a.index - b.index).map((r) => r.command);
+}
+
+/** True for Ctrl+K, or Cmd+K on macOS. */
+export function isPaletteShortcut(e: KeyboardEvent): boolean {
+  return (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === "k";
+}
@@ -0,0 +1,86 @@
+import { type RiskCard, toneFor, toRiskCards } from "./risk";
+import type { AnalysisResult, Tone } from "./types";
+
+export type FieldChange<T> = { before: T; after: T; changed: boolean };
+
+export type DrugDiff = {
+  drug: string;
+  /** `added`/`removed` when the drug appears in only one of the two analyses. */
+  presence: "both" | "added" | "removed";
+  label: FieldChange<string>;
+  severity: FieldChange<string>;
+  confidence: FieldChange<number>;
+  phenotype: FieldChange<string>;
+  diplotype: FieldChange<string>;
+  tone: FieldChange<Tone>;
+};
+
+export type AnalysisDiff = {
+  samePatient: boolean;
+  drugs: DrugDiff[];
+  variantsAdded: string[];
+  variantsRemoved: string[];
+  /** False when neither side carried `detected_variants` (batch responses do not). */
+  variantsComparable: boolean;
+};
+
+/** Severity order used to tell a worsening tone from an improving one. */
+const TONE_RANK: Record<Tone, number> = { unknown: 0, safe: 1, adjust: 2, toxic: 3 };
+
+export function cardsOf(result: AnalysisResult): RiskCard[] {
+  return result.kind === "single" ? toRiskCards(result.data, null) : toRiskCards(null, result.data);
+}
+
+function variantIdsOf(result: AnalysisResult): Set<string> | null {
+  if (result.kind !== "single") return null;
+  const variants = result.data.pharmacogenomic_profile?.detected_variants;
+  if (!variants) return null;
+  return new Set(variants.map((v) => v.rsid).filter((id): id is string => !!id));
+}
+
+function change<T>(before: T, after: T): FieldChange<T> {
+  return { before, after, changed: before !== after };
+}
+
+export function diffAnalyses(before: AnalysisResult, after: AnalysisResult): AnalysisDiff {
+  const beforeCards = new Map(cardsOf(before).map((c) => [c.drug.toUpperCase(), c]));
+  const afterCards = new Map(cardsOf(after).map((c) => [c.drug.toUpperCase(), c]));
+  const drugs = [...new Set([...beforeCards.keys(), ...afterCards.keys()])].sort();
+
+  const missing: RiskCard = { drug: "", label: "—", severity: "—", confidence: 0, gene: "—", phenotype: "—", diplotype: "—", recommendation: "" };
+
+  const drugDiffs = drugs.map((drug): DrugDiff => {
+    const a = beforeCards.get(drug);
+    const b = afterCards.get(drug);
+    const left = a || missing;
+    const right = b || missing;
+    return {
+      drug,
+      presence: a && b ? "both" : b ? "added" : "removed",
+      label: change(left.label, right.label),
+      severity: change(left.severity, right.severity),
+      confidence: change(left.confidence, right.confidence),
+      phenotype: change(left.phenotype, right.phenotype),
+      diplotype: change(left.diplotype, right.diplotype),
+      tone: change(a ? toneFor(a.label) : "unknown", b ? toneFor(b.label) : "unknown"),
+    };
+  });
+
+  const beforeVariants = variantIdsOf(before);
+  const afterVariants = variantIdsOf(after);
+  const variantsComparable = !!beforeVariants && !!afterVariants;
+
+  return {
+    samePatient: (before.data.patient_id || "") === (after.data.patient_id || ""),
+    drugs: drugDiffs,
+    variantsComparable,
+    variantsAdded: variantsComparable ? [...afterVariants].filter((id) => !beforeVariants.has(id)).sort() : [],
+    variantsRemoved: variantsComparable ? [...beforeVariants].filter((id) => !afterVariants.has(id)).sort() : [],
+  };
+}
+
+/** +1 when risk got worse (e.g. safe → toxic), -1 when it improved, 0 otherwise. */
+export function toneDirection(tone: FieldChange<Tone>): -1 | 0 | 1 {
+  const delta = TONE_RANK[tone.after] - TONE_RANK[tone.before];
+  return delta > 0 ? 1 : delta < 0 ? -1 : 0;
+}
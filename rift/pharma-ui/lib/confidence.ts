@@ -0,0 +1,190 @@
+import type { RuleVariant } from "./rules";
+import type { BatchResult, ConfidenceBreakdown, ConfidenceModel, DetectedVariant, SingleResult } from "./types";
+
+export type ConfidenceComponent = {
+  key: "vcf" | "cpic" | "llm";
+  label: string;
+  /** Raw component score, 0..1. */
+  score: number;
+  /** Normalized weight, 0..1; the three weights sum to 1. */
+  weight: number;
+  /** Percentage points this component adds to the final score. */
+  contribution: number;
+  /** Points this component could have added at a perfect score but did not. */
+  lost: number;
+};
+
+export type ConfidenceExplanation = {
+  score: number;
+  components: ConfidenceComponent[];
+  /** What pulled the score down, biggest loss first. */
+  reasons: string[];
+};
+
+type ConfidenceInput = {
+  score: number;
+  breakdown: ConfidenceBreakdown;
+  model?: ConfidenceModel;
+  cpicLevel?: string;
+  riskLabel?: string;
+  /** Primary-gene variants only; the backend scores every target variant in the file. */
+  variants: DetectedVariant[];
+};
+
+/** Defaults from `pharma_guard/confidence.py`, for responses that predate `confidence_model`. */
+const DEFAULT_MODEL: Required<ConfidenceModel> = {
+  w_vcf: 0.4,
+  w_cpic: 0.45,
+  w_llm: 0.15,
+  qual_min: 20,
+  qual_max: 200,
+  dp_min: 10,
+  dp_max: 100,
+  vcf_w_qual: 0.45,
+  vcf_w_depth: 0.35,
+  vcf_w_annotation: 0.2,
+};
+
+const CPIC_LEVEL_SCORE: Record<string, number> = { A: 1, B: 0.75, C: 0.5, D: 0.25, "N/A": 0.5 };
+
+/** Score the backend assigns when there is nothing to score: no variants, missing QUAL/DP, or no explanation. */
+const NO_VARIANTS_SCORE = 0.35;
+const MISSING_METRIC_SCORE = 0.6;
+const NEUTRAL_LLM_SCORE = 0.75;
+
+/** Sub-scores below this are called out as having lowered the result. */
+const WEAK = 0.75;
+
+function fixed(value: number) {
+  return value.toFixed(2);
+}
+
+export function confidenceInput(single: SingleResult | null, batch: BatchResult | null, drug: string): ConfidenceInput | null {
+  if (single) {
+    const breakdown = single.risk_assessment?.confidence_breakdown;
+    if (!breakdown) return null;
+    return {
+      score: single.risk_assessment?.confidence_score || 0,
+      breakdown,
+      model: single.quality_metrics?.confidence_model,
+      cpicLevel: single.risk_assessment?.cpic_level,
+      riskLabel: single.risk_assessment?.risk_label,
+      variants: single.pharmacogenomic_profile?.detected_variants || [],
+    };
+  }
+  const result = batch?.results?.[drug];
+  if (!result?.confidence_breakdown) return null;
+  return {
+    score: result.confidence_score || 0,
+    breakdown: result.confidence_breakdown,
+    model: result.confidence_model,
+    cpicLevel: result.cpic_level,
+    riskLabel: result.risk_label,
+    variants: result.detected_variants || [],
+  };
+}
+
+function vcfReasons(b: ConfidenceBreakdown, m: Required<ConfidenceModel>, variants: DetectedVariant[]): string[] {
+  if (b.q_qual === undefined) {
+    return b.q_vcf <= NO_VARIANTS_SCORE ? [`No target variants were found in the VCF, so VCF quality falls back to ${fixed(NO_VARIANTS_SCORE)}.`] : [];
+  }
+  const reasons: string[] = [];
+  if (b.q_qual < WEAK) {
+    const low = variants.filter((v) => v.quality_score !== undefined && v.quality_score < m.qual_max);
+    const missing = variants.filter((v) => v.quality_score === undefined).length;
+    const detail = [
+      low.map((v) => `${v.rsid || "Unnamed variant"} QUAL ${v.quality_score}`).join(", "),
+      missing ? `${missing} variant${missing === 1 ? "" : "s"} without QUAL (scored ${fixed(MISSING_METRIC_SCORE)})` : "",
+    ].filter(Boolean);
+    reasons.push(`Low variant QUAL (sub-score ${fixed(b.q_qual)}; QUAL ${m.qual_min} scores 0, ${m.qual_max} scores 1)${detail.length ? `: ${detail.join("; ")}` : ""}.`);
+  }
+  if (b.q_depth !== undefined && b.q_depth < WEAK) {
+    const low = variants.filter((v) => v.read_depth !== undefined && v.read_depth < m.dp_max);
+    const missing = variants.filter((v) => v.read_depth === undefined).length;
+    const detail = [
+      low.map((v) => `${v.rsid || "Unnamed variant"} DP ${v.read_depth}`).join(", "),
+      missing ? `${missing} variant${missing === 1 ? "" : "s"} without read depth (scored ${fixed(MISSING_METRIC_SCORE)})` : "",
+    ].filter(Boolean);
+    reasons.push(`Low read depth (sub-score ${fixed(b.q_depth)}; DP ${m.dp_min} scores 0, ${m.dp_max} scores 1)${detail.length ? `: ${detail.join("; ")}` : ""}.`);
+  }
+  if (b.q_annotation !== undefined && b.q_annotation < WEAK) {
+    reasons.push(`VCF rows carry few GENE/STAR INFO annotations (sub-score ${fixed(b.q_annotation)}); star alleles were inferred from rsIDs.`);
+  }
+  return reasons;
+}
+
+function llmReason(score: number, riskLabel?: string): string {
+  if (score < 0.5) return `The LLM explanation's wording contradicts the "${riskLabel || "Unknown"}" risk label.`;
+  if (score < NEUTRAL_LLM_SCORE) return `The LLM explanation does not clearly support the "${riskLabel || "Unknown"}" risk label.`;
+  if (score === NEUTRAL_LLM_SCORE) return "The LLM explanation could not be cross-checked against the risk label, so it counts as neutral.";
+  return "";
+}
+
+/**
+ * Rebuilds the hybrid confidence (`C = W1·Q_vcf + W2·G_cpic + W3·P_llm`) from the
+ * breakdown the backend returns and says, in clinician terms, what lowered it.
+ */
+export function explainConfidence(input: ConfidenceInput): ConfidenceExplanation {
+  const m = { ...DEFAULT_MODEL, ...input.model };
+  const b = input.breakdown;
+  const make = (key: ConfidenceComponent["key"], label: string, score: number, weight: number): ConfidenceComponent => ({
+    key,
+    label,
+    score,
+    weight,
+    contribution: score * weight * 100,
+    lost: (1 - score) * weight * 100,
+  });
+  const components = [make("vcf", "VCF quality", b.q_vcf, m.w_vcf), make("cpic", "CPIC guideline level", b.g_cpic, m.w_cpic), make("llm", "LLM consistency", b.p_llm, m.w_llm)];
+
+  const byComponent: Record<ConfidenceComponent["key"], string[]> = {
+    vcf: vcfReasons(b, m, input.variants),
+    cpic: b.g_cpic < 1 ? [`CPIC evidence level ${input.cpicLevel || "not stated"} scores ${fixed(b.g_cpic)} (level A scores 1.00).`] : [],
+    llm: [llmReason(b.p_llm, input.riskLabel)].filter(Boolean),
+  };
+  const reasons = [...components].sort((x, y) => y.lost - x.lost).flatMap((c) => byComponent[c.key]);
+
+  return { score: input.score, components, reasons };
+}
+
+function clamp(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number, digits: number) {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function normalize(value: number | undefined, low: number, high: number) {
+  if (value === undefined) return MISSING_METRIC_SCORE;
+  if (value <= low) return 0;
+  if (value >= high) return 1;
+  return clamp((value - low) / Math.max(1, high - low));
+}
+
+/**
+ * `compute_hybrid_confidence` with the default model and no explanation, i.e. what
+ * the server scores when the LLM is unavailable. Used for results computed offline.
+ */
+export function ruleConfidence(variants: RuleVariant[], cpicLevel: string): { score: number; breakdown: ConfidenceBreakdown } {
+  const m = DEFAULT_MODEL;
+  let qVcf = NO_VARIANTS_SCORE;
+  const parts: Partial<ConfidenceBreakdown> = {};
+  if (variants.length) {
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const qQual = mean(variants.map((v) => normalize(v.quality_score, m.qual_min, m.qual_max)));
+    const qDepth = mean(variants.map((v) => normalize(v.read_depth, m.dp_min, m.dp_max)));
+    const qAnnotation = mean(
+      variants.map((v) => {
+        const star = v.has_star_annotation ? 1 : v.allele.startsWith("*") ? 0.5 : 0;
+        return (Number(v.has_gene_annotation) + star + Number(v.has_rsid_annotation)) / 3;
+      }),
+    );
+    qVcf = clamp(m.vcf_w_qual * qQual + m.vcf_w_depth * qDepth + m.vcf_w_annotation * qAnnotation);
+    Object.assign(parts, { q_qual: round(qQual, 3), q_depth: round(qDepth, 3), q_annotation: round(qAnnotation, 3) });
+  }
+  const gCpic = CPIC_LEVEL_SCORE[cpicLevel.trim().toUpperCase()] ?? 0.5;
+  const score = clamp(m.w_vcf * qVcf + m.w_cpic * gCpic + m.w_llm * NEUTRAL_LLM_SCORE);
+  return { score: round(score, 2), breakdown: { q_vcf: round(qVcf, 3), g_cpic: round(gCpic, 3), p_llm: NEUTRAL_LLM_SCORE, ...parts } };
+}
@@ -0,0 +1,35 @@
+/**
+ * High-contrast theme switch. The choice is a `data-contrast` attribute on <html> that
+ * `app/globals.css` keys its palette on; without a saved choice the OS "increase
+ * contrast" setting decides.
+ */
+
+const STORAGE_KEY = "pharmaguard.contrast";
+const CHANGE_EVENT = "pharmaguard:contrast";
+
+/**
+ * Inline script for <head>: applies the saved choice before first paint, so a
+ * high-contrast user never sees the default palette flash.
+ */
+export const CONTRAST_SCRIPT = `try{var c=localStorage.getItem(${JSON.stringify(STORAGE_KEY)});if(c==="high"||(!c&&matchMedia("(prefers-contrast: more)").matches))document.documentElement.dataset.contrast="high"}catch(e){}`;
+
+export function isHighContrast(): boolean {
+  return document.documentElement.dataset.contrast === "high";
+}
+
+/** Best effort: without storage the choice holds until the page reloads. */
+export function setHighContrast(high: boolean) {
+  document.documentElement.dataset.contrast = high ? "high" : "normal";
+  try {
+    localStorage.setItem(STORAGE_KEY, high ? "high" : "normal");
+  } catch {
+    // Storage disabled or full.
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** For `useSyncExternalStore`: fires when any toggle on the page changes the theme. */
+export function subscribeContrast(listener: () => void) {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
@@ -0,0 +1,159 @@
+import { isTargetRsid } from "./rules";
+import { STRUCTURAL_META_KEYS } from "./vcf";
+
+/**
+ * Browser-side de-identification before upload: sample columns become a pseudonym,
+ * identifying `##` meta lines are dropped, only rows the backend reads are kept and
+ * the file name is replaced. The pseudonym -> real ID map never leaves this browser.
+ */
+
+export type RedactionSummary = {
+  pseudonym: string;
+  originalFileName: string;
+  fileName: string;
+  /** `#CHROM` sample columns, before and after. */
+  samples: { original: string; pseudonym: string }[];
+  keptMetaKeys: string[];
+  /** Dropped `##` lines grouped by key, e.g. fileDate, source, SAMPLE. */
+  droppedMeta: { key: string; count: number }[];
+  rowsKept: number;
+  rowsDropped: number;
+};
+
+export type DeidentifiedVcf = { file: File; summary: RedactionSummary };
+
+export function newPseudonym(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(4));
+  return `PGX-${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("").toUpperCase()}`;
+}
+
+function samplePseudonym(pseudonym: string, index: number) {
+  return index === 0 ? pseudonym : `${pseudonym}-${index + 1}`;
+}
+
+export function deidentifyVcfText(text: string, fileName: string, pseudonym: string): { text: string; summary: RedactionSummary } {
+  const kept = new Set<string>();
+  const dropped = new Map<string, number>();
+  const samples: RedactionSummary["samples"] = [];
+  let rowsKept = 0;
+  let rowsDropped = 0;
+  const out: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line) continue;
+    if (line.startsWith("##")) {
+      const key = line.slice(2).split("=")[0];
+      if (STRUCTURAL_META_KEYS.includes(key)) {
+        kept.add(key);
+        out.push(line);
+      } else {
+        dropped.set(key, (dropped.get(key) || 0) + 1);
+      }
+      continue;
+    }
+    if (line.startsWith("#CHROM")) {
+      const cols = line.split("\t");
+      cols.slice(9).forEach((original, i) => samples.push({ original, pseudonym: samplePseudonym(pseudonym, i) }));
+      out.push([...cols.slice(0, 9), ...samples.map((s) => s.pseudonym)].join("\t"));
+      continue;
+    }
+    if (line.startsWith("#")) {
+      dropped.set("#", (dropped.get("#") || 0) + 1);
+      continue;
+    }
+    if (isTargetRsid(line.split("\t")[2] || "")) {
+      rowsKept += 1;
+      out.push(line);
+    } else {
+      rowsDropped += 1;
+    }
+  }
+
+  return {
+    text: `${out.join("\n")}\n`,
+    summary: {
+      pseudonym,
+      originalFileName: fileName,
+      fileName: `${pseudonym}.vcf`,
+      samples,
+      keptMetaKeys: [...kept],
+      droppedMeta: [...dropped].map(([key, count]) => ({ key, count })),
+      rowsKept,
+      rowsDropped,
+    },
+  };
+}
+
+export async function deidentifyVcfFile(file: File, pseudonym = newPseudonym()): Promise<DeidentifiedVcf> {
+  const { text, summary } = deidentifyVcfText(await file.text(), file.name, pseudonym);
+  return { file: new File([text], summary.fileName, { type: "text/plain" }), summary };
+}
+
+// ---------------------------------------------------------------------------
+// Local re-identification map
+// ---------------------------------------------------------------------------
+
+export type PseudonymRecord = {
+  pseudonym: string;
+  /** What the clinic knows the patient by: the first sample name, or the cohort's patient ID. */
+  realId: string;
+  sampleNames: string[];
+  originalFileName: string;
+  createdAt: number;
+};
+
+const STORAGE_KEY = "pharmaguard.pseudonyms";
+
+/** Records older than this are dropped; the analyses they re-identify show their pseudonym. */
+const PSEUDONYM_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Newest records kept, matching the analysis history limit. */
+const PSEUDONYM_LIMIT = 200;
+
+/** Drops expired records and keeps the newest {@link PSEUDONYM_LIMIT}. */
+function retain(map: Record<string, PseudonymRecord>, now = Date.now()): Record<string, PseudonymRecord> {
+  const kept = Object.values(map)
+    .filter((r) => r && typeof r.createdAt === "number" && now - r.createdAt < PSEUDONYM_MAX_AGE_MS)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, PSEUDONYM_LIMIT);
+  return Object.fromEntries(kept.map((r) => [r.pseudonym, r]));
+}
+
+function readMap(): Record<string, PseudonymRecord> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? retain(parsed) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Best effort: without storage the upload is still de-identified, it just cannot be re-identified later. */
+export function rememberPseudonym(summary: RedactionSummary, realId?: string) {
+  try {
+    const map = readMap();
+    map[summary.pseudonym] = {
+      pseudonym: summary.pseudonym,
+      realId: realId || summary.samples[0]?.original || summary.originalFileName.replace(/\.vcf$/i, ""),
+      sampleNames: summary.samples.map((s) => s.original),
+      originalFileName: summary.originalFileName,
+      createdAt: Date.now(),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(retain(map)));
+  } catch {
+    // Storage disabled or full.
+  }
+}
+
+export function reidentify(patientId: string | undefined): PseudonymRecord | null {
+  if (!patientId || typeof localStorage === "undefined") return null;
+  return readMap()[patientId] || null;
+}
+
+/** Called with "Clear all" in the history drawer and on sign-out, so a shared workstation keeps no real IDs. */
+export function forgetPseudonyms() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+}
@@ -0,0 +1,249 @@
+import { normalizePhenotypeCode } from "./rules";
+import type { DetectedVariant } from "./types";
+
+/**
+ * Starting-dose calculators for the drugs whose CPIC guidance is a number rather
+ * than a yes/no: warfarin (IWPC pharmacogenetic algorithm), azathioprine (TPMT) and
+ * fluorouracil (DPYD activity score). Every estimate carries the arithmetic that
+ * produced it so a pharmacist can check it by hand.
+ */
+
+export type DoseEstimate = {
+  low: number;
+  high: number;
+  unit: string;
+  /** The calculation with the patient's values filled in, one step per line. */
+  formula: string[];
+  note: string;
+  /** CPIC advises against the drug; `low`/`high` are 0. */
+  avoid: boolean;
+};
+
+/** An input is missing or outside the range the algorithm was fitted on. */
+export class DosingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DosingError";
+  }
+}
+
+function round(value: number, digits = 1): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+/** "30–80%" for a range of fractions, "50%" when both ends agree. */
+function percent(low: number, high: number): string {
+  return low === high ? `${Math.round(low * 100)}%` : `${Math.round(low * 100)}–${Math.round(high * 100)}%`;
+}
+
+function requirePositive(value: number, label: string, max: number) {
+  if (!Number.isFinite(value) || value <= 0 || value > max) throw new DosingError(`${label} must be between 0 and ${max}.`);
+}
+
+// --- Warfarin -------------------------------------------------------------
+
+export type Cyp2c9Genotype = "*1/*1" | "*1/*2" | "*1/*3" | "*2/*2" | "*2/*3" | "*3/*3" | "unknown";
+/** VKORC1 -1639G>A (rs9923231). */
+export type Vkorc1Genotype = "GG" | "AG" | "AA" | "unknown";
+export type WarfarinRace = "white" | "asian" | "black" | "other";
+
+export const CYP2C9_GENOTYPES: Cyp2c9Genotype[] = ["*1/*1", "*1/*2", "*1/*3", "*2/*2", "*2/*3", "*3/*3", "unknown"];
+export const VKORC1_GENOTYPES: Vkorc1Genotype[] = ["GG", "AG", "AA", "unknown"];
+export const RACE_LABELS: Record<WarfarinRace, string> = { white: "White", asian: "Asian", black: "Black or African American", other: "Mixed or not recorded" };
+
+export type WarfarinInput = {
+  ageYears: number;
+  heightCm: number;
+  weightKg: number;
+  race: WarfarinRace;
+  cyp2c9: Cyp2c9Genotype;
+  vkorc1: Vkorc1Genotype;
+  /** Carbamazepine, phenytoin, rifampin or rifampicin. */
+  enzymeInducer: boolean;
+  amiodarone: boolean;
+};
+
+/** IWPC pharmacogenetic algorithm (N Engl J Med 2009;360:753-64); predicts the square root of the weekly dose. */
+const IWPC = {
+  intercept: 5.6044,
+  ageDecades: -0.2614,
+  heightCm: 0.0087,
+  weightKg: 0.0128,
+  vkorc1: { GG: 0, AG: -0.8677, AA: -1.6974, unknown: -0.4854 } as Record<Vkorc1Genotype, number>,
+  cyp2c9: { "*1/*1": 0, "*1/*2": -0.5211, "*1/*3": -0.9357, "*2/*2": -1.0616, "*2/*3": -1.9206, "*3/*3": -2.3312, unknown: -0.2188 } as Record<Cyp2c9Genotype, number>,
+  race: { white: 0, asian: -0.1092, black: -0.276, other: -0.1032 } as Record<WarfarinRace, number>,
+  enzymeInducer: 1.1816,
+  amiodarone: -0.5503,
+};
+
+/** About half of IWPC patients fell within 20% of their stable dose, so the estimate is shown as that band. */
+const IWPC_BAND = 0.2;
+
+/** Maps an engine diplotype onto the genotypes the algorithm has coefficients for. */
+export function cyp2c9Genotype(diplotype?: string): Cyp2c9Genotype {
+  const value = (diplotype || "").trim();
+  return (CYP2C9_GENOTYPES as string[]).includes(value) ? (value as Cyp2c9Genotype) : "unknown";
+}
+
+/** Reads rs9923231 from the detected variants; the backend panel usually does not include it. */
+export function vkorc1Genotype(variants?: DetectedVariant[]): Vkorc1Genotype {
+  const variant = variants?.find((v) => v.rsid === "rs9923231" || v.gene === "VKORC1");
+  const gt = variant?.genotype?.replace("|", "/");
+  if (gt === "0/0") return "GG";
+  if (gt === "0/1" || gt === "1/0") return "AG";
+  if (gt === "1/1") return "AA";
+  return "unknown";
+}
+
+export function warfarinDose(input: WarfarinInput): DoseEstimate {
+  requirePositive(input.ageYears, "Age (years)", 110);
+  requirePositive(input.heightCm, "Height (cm)", 250);
+  requirePositive(input.weightKg, "Weight (kg)", 300);
+
+  const decades = Math.floor(input.ageYears / 10);
+  // [coefficient, patient value (omitted for yes/no terms), label]
+  const terms: [number, number | null, string][] = [
+    [IWPC.ageDecades, decades, "age in decades"],
+    [IWPC.heightCm, input.heightCm, "height, cm"],
+    [IWPC.weightKg, input.weightKg, "weight, kg"],
+    [IWPC.vkorc1[input.vkorc1], null, `VKORC1 ${input.vkorc1}`],
+    [IWPC.cyp2c9[input.cyp2c9], null, `CYP2C9 ${input.cyp2c9}`],
+    [IWPC.race[input.race], null, RACE_LABELS[input.race]],
+    [input.enzymeInducer ? IWPC.enzymeInducer : 0, null, "enzyme inducer"],
+    [input.amiodarone ? IWPC.amiodarone : 0, null, "amiodarone"],
+  ];
+  const root = terms.reduce((sum, [coefficient, value]) => sum + coefficient * (value ?? 1), IWPC.intercept);
+  if (root <= 0) throw new DosingError("These inputs fall outside the IWPC algorithm; dose by INR response instead.");
+  const shown = terms
+    .filter(([coefficient]) => coefficient !== 0)
+    .map(([coefficient, value, label]) => `${coefficient < 0 ? "−" : "+"} ${Math.abs(coefficient)}${value === null ? "" : ` × ${value}`} (${label})`);
+  const weekly = root * root;
+  const daily = weekly / 7;
+
+  return {
+    low: round(daily * (1 - IWPC_BAND)),
+    high: round(daily * (1 + IWPC_BAND)),
+    unit: "mg/day",
+    formula: [
+      `√(weekly dose) = ${IWPC.intercept} ${shown.join(" ")}`,
+      `= ${round(root, 3)}, so weekly dose = ${round(root, 3)}² = ${round(weekly)} mg (${round(daily, 2)} mg/day)`,
+      `Range = daily dose × ${1 - IWPC_BAND}–${1 + IWPC_BAND}`,
+    ],
+    note: "IWPC pharmacogenetic algorithm. Adjust to INR from day 3; the estimate does not replace INR monitoring.",
+    avoid: false,
+  };
+}
+
+// --- Azathioprine ---------------------------------------------------------
+
+export type TpmtPhenotype = "NM" | "IM" | "PM";
+
+export const TPMT_LABELS: Record<TpmtPhenotype, string> = { NM: "Normal metabolizer", IM: "Intermediate metabolizer", PM: "Poor metabolizer" };
+
+/** Fraction of the normal starting dose per phenotype (CPIC thiopurines, 2018). */
+const TPMT_FRACTION: Record<TpmtPhenotype, [number, number]> = { NM: [1, 1], IM: [0.3, 0.8], PM: [0.1, 0.1] };
+
+export function tpmtPhenotype(phenotype?: string): TpmtPhenotype | null {
+  const code = normalizePhenotypeCode(phenotype);
+  return code === "NM" || code === "IM" || code === "PM" ? code : null;
+}
+
+export type AzathioprineInput = {
+  weightKg: number;
+  phenotype: TpmtPhenotype;
+  /** Usual full starting dose for the indication, mg/kg/day. */
+  standardLow: number;
+  standardHigh: number;
+};
+
+export function azathioprineDose(input: AzathioprineInput): DoseEstimate {
+  requirePositive(input.weightKg, "Weight (kg)", 300);
+  requirePositive(input.standardLow, "Standard dose (mg/kg/day)", 5);
+  requirePositive(input.standardHigh, "Standard dose (mg/kg/day)", 5);
+  if (input.standardHigh < input.standardLow) throw new DosingError("The upper standard dose must not be below the lower one.");
+
+  const [fLow, fHigh] = TPMT_FRACTION[input.phenotype];
+  const pm = input.phenotype === "PM";
+  return {
+    low: Math.round(input.weightKg * input.standardLow * fLow),
+    high: Math.round(input.weightKg * input.standardHigh * fHigh),
+    unit: pm ? "mg, three times a week" : "mg/day",
+    formula: [
+      `Dose = ${input.weightKg} kg × ${input.standardLow}–${input.standardHigh} mg/kg/day × ${percent(fLow, fHigh)} (TPMT ${input.phenotype})`,
+    ],
+    note: pm
+      ? "Malignant conditions only: 10-fold lower dose, three times a week instead of daily. For nonmalignant conditions use a non-thiopurine immunosuppressant."
+      : input.phenotype === "IM"
+        ? "Start at 30-80% of the normal dose and adjust to myelosuppression; allow 2-4 weeks to reach steady state after each change."
+        : "Normal starting dose; allow 2 weeks to reach steady state after each change.",
+    avoid: false,
+  };
+}
+
+// --- Fluorouracil ---------------------------------------------------------
+
+/** CPIC activity value per DPYD allele the panel calls. */
+const DPYD_ALLELE_ACTIVITY: Record<string, number> = { "*1": 1, "*2A": 0, "*13": 0, "*9B": 0.5, HapB3: 0.5 };
+
+export const DPYD_ACTIVITY_SCORES = [2, 1.5, 1, 0.5, 0];
+
+/** Sum of the two allele values, e.g. "*1/HapB3" -> 1.5; null when an allele has no known value. */
+export function dpydActivityScore(diplotype?: string): number | null {
+  const alleles = (diplotype || "").split("/");
+  if (alleles.length !== 2) return null;
+  const values = alleles.map((a) => DPYD_ALLELE_ACTIVITY[a.trim()]);
+  return values.some((v) => v === undefined) ? null : values[0] + values[1];
+}
+
+export type FluorouracilInput = {
+  heightCm: number;
+  weightKg: number;
+  /** Regimen dose for a patient with normal DPD activity, mg/m². */
+  standardDose: number;
+  activityScore: number;
+};
+
+/**
+ * Fraction of the regimen dose per activity score (CPIC fluoropyrimidines, 2017 with
+ * the 2018 update): a 50% starting dose for both 1 and 1.5.
+ */
+function dpydFraction(score: number): [number, number] {
+  if (score >= 2) return [1, 1];
+  if (score >= 1) return [0.5, 0.5];
+  return [0, 0];
+}
+
+export function fluorouracilDose(input: FluorouracilInput): DoseEstimate {
+  requirePositive(input.heightCm, "Height (cm)", 250);
+  requirePositive(input.weightKg, "Weight (kg)", 300);
+  requirePositive(input.standardDose, "Regimen dose (mg/m²)", 5000);
+
+  const bsa = Math.sqrt((input.heightCm * input.weightKg) / 3600);
+  const [fLow, fHigh] = dpydFraction(input.activityScore);
+  const formula = [
+    `BSA (Mosteller) = √(${input.heightCm} cm × ${input.weightKg} kg / 3600) = ${round(bsa, 2)} m²`,
+    `Dose = ${round(bsa, 2)} m² × ${input.standardDose} mg/m² × ${percent(fLow, fHigh)} (activity score ${input.activityScore})`,
+  ];
+  if (!fHigh) {
+    return {
+      low: 0,
+      high: 0,
+      unit: "mg",
+      formula,
+      note: "Activity score 0.5 or 0: avoid fluorouracil and capecitabine. If no alternative exists, a strongly reduced dose needs early therapeutic drug monitoring.",
+      avoid: true,
+    };
+  }
+  return {
+    low: Math.round(bsa * input.standardDose * fLow),
+    high: Math.round(bsa * input.standardDose * fHigh),
+    unit: "mg per dose",
+    formula,
+    note:
+      input.activityScore >= 2
+        ? "Normal DPD activity: full regimen dose."
+        : "Activity score 1 or 1.5: start at 50% of the regimen dose; titrate up in later cycles if the first is tolerated, or down on toxicity.",
+    avoid: false,
+  };
+}
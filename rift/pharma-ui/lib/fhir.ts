@@ -0,0 +1,319 @@
+import { BUNDLED_KNOWLEDGE_BASE, findDrug } from "./knowledge";
+import { decisionFor, describeDecision, effectiveCard } from "./review";
+import { toRiskCards } from "./risk";
+import type { AnalysisResult } from "./types";
+
+/**
+ * FHIR R4 export following the HL7 Genomics Reporting IG: one DiagnosticReport,
+ * a genotype and a phenotype Observation per gene, a therapeutic-implication
+ * Observation per drug and a DetectedIssue per polypharmacy warning. The bundle
+ * is a transaction so it can be POSTed to an EHR's FHIR base as-is. Clinician
+ * overrides replace the engine's implication, which is kept in a note; a signed
+ * review names the reviewer as the report's results interpreter.
+ */
+
+const LOINC = "http://loinc.org";
+const HGNC = "http://www.genenames.org/geneId";
+const RXNORM = "http://www.nlm.nih.gov/research/umls/rxnorm";
+const TBD_CODES = "http://hl7.org/fhir/uv/genomics-reporting/CodeSystem/tbd-codes-cs";
+const IG_PROFILE = "http://hl7.org/fhir/uv/genomics-reporting/StructureDefinition";
+const PATIENT_ID_SYSTEM = "urn:pharmaguard:patient-id";
+
+type Coding = { system?: string; code?: string; display?: string };
+type CodeableConcept = { coding?: Coding[]; text?: string };
+type Reference = { reference: string; display?: string };
+
+export type FhirResource = { resourceType: string; [key: string]: unknown };
+
+export type FhirBundleEntry = {
+  fullUrl: string;
+  resource: FhirResource;
+  request: { method: "POST"; url: string; ifNoneExist?: string };
+};
+
+export type FhirBundle = {
+  resourceType: "Bundle";
+  type: "transaction";
+  timestamp: string;
+  entry: FhirBundleEntry[];
+};
+
+export type FhirIssue = { path: string; message: string };
+
+/** The generated bundle failed {@link validateFhirBundle}; `issues` lists every problem found. */
+export class FhirValidationError extends Error {
+  issues: FhirIssue[];
+
+  constructor(issues: FhirIssue[]) {
+    super(`FHIR bundle is invalid: ${issues[0]?.path} ${issues[0]?.message}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ""}`);
+    this.name = "FhirValidationError";
+    this.issues = issues;
+  }
+}
+
+function uuid(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (ch) => {
+    const r = Math.floor(Math.random() * 16);
+    return (ch === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/** FHIR dateTime needs a timezone once a time is given; fall back to now for anything unparseable. */
+function fhirDateTime(value?: string): string {
+  const parsed = value ? new Date(value) : null;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString() : new Date().toISOString();
+}
+
+function loinc(code: string, display: string): CodeableConcept {
+  return { coding: [{ system: LOINC, code, display }], text: display };
+}
+
+function geneConcept(gene: string): CodeableConcept {
+  const code = BUNDLED_KNOWLEDGE_BASE.genes.find((g) => g.symbol === gene.toUpperCase())?.hgnc;
+  return code ? { coding: [{ system: HGNC, code, display: gene }], text: gene } : { text: gene };
+}
+
+function drugConcept(drug: string): CodeableConcept {
+  const code = findDrug(BUNDLED_KNOWLEDGE_BASE, drug)?.rxnorm;
+  return code ? { coding: [{ system: RXNORM, code, display: drug.toLowerCase() }], text: drug } : { text: drug };
+}
+
+const LAB_CATEGORY: CodeableConcept[] = [
+  { coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "laboratory" }] },
+];
+
+function known(value?: string): value is string {
+  return !!value && value !== "N/A" && value.toLowerCase() !== "unknown";
+}
+
+export function toFhirBundle(analysis: AnalysisResult): FhirBundle {
+  const data = analysis.data;
+  const issued = fhirDateTime(data.timestamp);
+  const patientId = data.patient_id || "patient";
+  const entries: FhirBundleEntry[] = [];
+
+  const add = (resource: FhirResource, ifNoneExist?: string): Reference => {
+    const fullUrl = `urn:uuid:${uuid()}`;
+    entries.push({ fullUrl, resource, request: { method: "POST", url: resource.resourceType, ...(ifNoneExist ? { ifNoneExist } : {}) } });
+    return { reference: fullUrl };
+  };
+
+  // Conditional create: the EHR links to an existing patient with this identifier instead of duplicating it.
+  const subject = add(
+    { resourceType: "Patient", identifier: [{ system: PATIENT_ID_SYSTEM, value: patientId }] },
+    `identifier=${encodeURIComponent(`${PATIENT_ID_SYSTEM}|${patientId}`)}`,
+  );
+  const common = { status: "final", category: LAB_CATEGORY, subject, effectiveDateTime: issued, issued };
+
+  const cards = toRiskCards(analysis.kind === "single" ? analysis.data : null, analysis.kind === "batch" ? analysis.data : null);
+  const results: Reference[] = [];
+  const genotypeByGene = new Map<string, Reference>();
+  const phenotypeByGene = new Map<string, Reference>();
+
+  for (const card of cards) {
+    if (!known(card.gene)) continue;
+    const gene = card.gene.toUpperCase();
+    if (known(card.diplotype) && !genotypeByGene.has(gene)) {
+      const ref = add({
+        resourceType: "Observation",
+        meta: { profile: [`${IG_PROFILE}/genotype`] },
+        ...common,
+        code: loinc("84413-4", "Genotype display name"),
+        valueCodeableConcept: { text: `${gene} ${card.diplotype}` },
+        component: [{ code: loinc("48018-6", "Gene studied [ID]"), valueCodeableConcept: geneConcept(gene) }],
+      });
+      genotypeByGene.set(gene, ref);
+      results.push(ref);
+    }
+    if (known(card.phenotype) && !phenotypeByGene.has(gene)) {
+      const ref = add({
+        resourceType: "Observation",
+        ...common,
+        code: loinc("53040-2", "Genetic variation's effect on drug metabolism"),
+        valueCodeableConcept: { text: card.phenotype },
+        component: [{ code: loinc("48018-6", "Gene studied [ID]"), valueCodeableConcept: geneConcept(gene) }],
+        ...(genotypeByGene.has(gene) ? { derivedFrom: [genotypeByGene.get(gene)] } : {}),
+      });
+      phenotypeByGene.set(gene, ref);
+      results.push(ref);
+    }
+  }
+
+  const guideline = analysis.kind === "single" ? analysis.data.clinical_recommendation?.guideline_source : undefined;
+  const review = data.clinician_review;
+  const implicationByDrug = new Map<string, Reference>();
+  const conclusions: string[] = [];
+  for (const engineCard of cards) {
+    const decision = decisionFor(review, engineCard.drug);
+    const card = effectiveCard(engineCard, decision);
+    const overridden = card !== engineCard;
+    conclusions.push(`${card.drug}: ${card.label}${overridden ? " (clinician override)" : ""}`);
+    const gene = card.gene.toUpperCase();
+    const derivedFrom = [genotypeByGene.get(gene), phenotypeByGene.get(gene)].filter((r): r is Reference => !!r);
+    const component: Array<Record<string, unknown>> = [{ code: loinc("51963-7", "Medication assessed [ID]"), valueCodeableConcept: drugConcept(card.drug) }];
+    if (known(card.phenotype)) component.push({ code: loinc("53040-2", "Genetic variation's effect on drug metabolism"), valueCodeableConcept: { text: card.phenotype } });
+    if (known(card.recommendation)) component.push({ code: { coding: [{ system: TBD_CODES, code: "conclusion-string" }] }, valueString: card.recommendation });
+    if (guideline) component.push({ code: loinc("93044-6", "Level of evidence"), valueCodeableConcept: { text: guideline } });
+
+    const ref = add({
+      resourceType: "Observation",
+      meta: { profile: [`${IG_PROFILE}/therapeutic-implication`] },
+      ...common,
+      ...(overridden ? { status: "amended" } : {}),
+      code: { coding: [{ system: TBD_CODES, code: "therapeutic-implication", display: "Therapeutic Implication" }] },
+      interpretation: [{ text: `${card.label} (severity: ${card.severity}, confidence ${card.confidence}%)` }],
+      component,
+      ...(decision
+        ? {
+            note: [
+              { text: describeDecision(decision) },
+              ...(overridden ? [{ text: `Engine output: ${engineCard.label}. ${engineCard.recommendation}` }] : []),
+            ],
+          }
+        : {}),
+      ...(derivedFrom.length ? { derivedFrom } : {}),
+    });
+    implicationByDrug.set(card.drug.toUpperCase(), ref);
+    results.push(ref);
+  }
+
+  if (analysis.kind === "batch") {
+    for (const warning of analysis.data.polypharmacy_warnings || []) {
+      const competing = new Set((warning.competing_drugs || []).map((d) => d.toUpperCase()));
+      const text = `${warning.warning || ""} ${warning.clinical_note || ""}`.toUpperCase();
+      const implicated = [...implicationByDrug].filter(([drug]) => (competing.size ? competing.has(drug) : text.includes(drug))).map(([, ref]) => ref);
+      add({
+        resourceType: "DetectedIssue",
+        status: "final",
+        code: { coding: [{ system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "DRG", display: "Drug Interaction Alert" }] },
+        severity: warning.severity === "critical" || warning.severity === "high" ? "high" : "moderate",
+        patient: subject,
+        identifiedDateTime: issued,
+        detail: [warning.warning, warning.clinical_note].filter(Boolean).join(" ") || "Polypharmacy warning",
+        ...(implicated.length ? { implicated } : {}),
+      });
+    }
+  }
+
+  const signed = review?.signed_off;
+  const interpreter = signed ? add({ resourceType: "Practitioner", name: [{ text: signed.reviewer }] }) : null;
+
+  add({
+    resourceType: "DiagnosticReport",
+    meta: { profile: [`${IG_PROFILE}/genomic-report`] },
+    status: "final",
+    category: [{ coding: [{ system: "http://terminology.hl7.org/CodeSystem/v2-0074", code: "GE", display: "Genetics" }] }],
+    code: loinc("51969-4", "Genetic analysis report"),
+    subject,
+    effectiveDateTime: issued,
+    issued,
+    result: results,
+    ...(interpreter ? { resultsInterpreter: [interpreter] } : {}),
+    conclusion: conclusions.join("; ") || "No drug results.",
+  });
+
+  return { resourceType: "Bundle", type: "transaction", timestamp: issued, entry: entries };
+}
+
+const OBSERVATION_STATUS = new Set(["registered", "preliminary", "final", "amended", "corrected", "cancelled", "entered-in-error", "unknown"]);
+const REPORT_STATUS = new Set(["registered", "partial", "preliminary", "final", "amended", "corrected", "appended", "cancelled", "entered-in-error", "unknown"]);
+const ISSUE_STATUS = OBSERVATION_STATUS;
+const ISSUE_SEVERITY = new Set(["high", "moderate", "low"]);
+
+function hasCode(concept: unknown): boolean {
+  const c = concept as CodeableConcept | undefined;
+  return !!c && (!!c.text || !!c.coding?.some((coding) => !!coding.code));
+}
+
+/** Collects every `{ reference }` object inside a resource, with its JSON path. */
+function collectReferences(value: unknown, path: string, out: Array<{ path: string; reference: string }>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectReferences(item, `${path}[${i}]`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "reference" && typeof child === "string") out.push({ path, reference: child });
+      else collectReferences(child, `${path}.${key}`, out);
+    }
+  }
+}
+
+/**
+ * Structural checks for the bundles produced above: required elements and value
+ * sets for each resource type we emit, unique urn:uuid fullUrls, transaction
+ * requests, and references that resolve inside the bundle. This is not a full
+ * profile validator; it catches the mistakes an EHR would reject the POST for.
+ */
+export function validateFhirBundle(bundle: FhirBundle): FhirIssue[] {
+  const issues: FhirIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (bundle.resourceType !== "Bundle") issue("Bundle.resourceType", "must be Bundle");
+  if (bundle.type !== "transaction") issue("Bundle.type", "must be transaction");
+  if (!Array.isArray(bundle.entry) || !bundle.entry.length) {
+    issue("Bundle.entry", "must contain at least one entry");
+    return issues;
+  }
+
+  const fullUrls = new Set<string>();
+  for (const [i, entry] of bundle.entry.entries()) {
+    const path = `Bundle.entry[${i}]`;
+    if (!/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(entry.fullUrl)) issue(`${path}.fullUrl`, "must be a urn:uuid");
+    if (fullUrls.has(entry.fullUrl)) issue(`${path}.fullUrl`, "is duplicated");
+    fullUrls.add(entry.fullUrl);
+    if (entry.request?.method !== "POST" || entry.request.url !== entry.resource?.resourceType) issue(`${path}.request`, "must POST to the resource type");
+  }
+
+  const patients = bundle.entry.filter((e) => e.resource.resourceType === "Patient");
+  const reports = bundle.entry.filter((e) => e.resource.resourceType === "DiagnosticReport");
+  if (patients.length !== 1) issue("Bundle.entry", "must contain exactly one Patient");
+  if (reports.length !== 1) issue("Bundle.entry", "must contain exactly one DiagnosticReport");
+
+  for (const [i, { resource }] of bundle.entry.entries()) {
+    const path = `Bundle.entry[${i}].resource`;
+    const r = resource as Record<string, unknown>;
+    switch (resource.resourceType) {
+      case "Patient":
+        break;
+      case "Practitioner":
+        if (!Array.isArray(r.name) || !r.name.length) issue(`${path}.name`, "is required for the signing reviewer");
+        break;
+      case "Observation":
+        if (!OBSERVATION_STATUS.has(String(r.status))) issue(`${path}.status`, "is missing or not an Observation status");
+        if (!hasCode(r.code)) issue(`${path}.code`, "is required");
+        for (const [j, c] of ((r.component as Array<Record<string, unknown>>) || []).entries()) {
+          if (!hasCode(c.code)) issue(`${path}.component[${j}].code`, "is required");
+          if (!("valueCodeableConcept" in c) && !("valueString" in c)) issue(`${path}.component[${j}]`, "needs a value");
+        }
+        break;
+      case "DiagnosticReport":
+        if (!REPORT_STATUS.has(String(r.status))) issue(`${path}.status`, "is missing or not a DiagnosticReport status");
+        if (!hasCode(r.code)) issue(`${path}.code`, "is required");
+        if (!Array.isArray(r.result) || !r.result.length) issue(`${path}.result`, "must reference at least one Observation");
+        break;
+      case "DetectedIssue":
+        if (!ISSUE_STATUS.has(String(r.status))) issue(`${path}.status`, "is missing or not a DetectedIssue status");
+        if (r.severity !== undefined && !ISSUE_SEVERITY.has(String(r.severity))) issue(`${path}.severity`, "must be high, moderate or low");
+        if (!r.patient) issue(`${path}.patient`, "is required");
+        break;
+      default:
+        issue(`${path}.resourceType`, `${resource.resourceType} is not expected in this bundle`);
+    }
+
+    const refs: Array<{ path: string; reference: string }> = [];
+    collectReferences(resource, path, refs);
+    for (const ref of refs) {
+      if (!fullUrls.has(ref.reference)) issue(ref.path, `reference ${ref.reference} does not resolve inside the bundle`);
+    }
+  }
+
+  return issues;
+}
+
+/** Builds and validates in one step; throws {@link FhirValidationError} rather than hand back a bad bundle. */
+export function exportFhirBundle(analysis: AnalysisResult): FhirBundle {
+  const bundle = toFhirBundle(analysis);
+  const issues = validateFhirBundle(bundle);
+  if (issues.length) throw new FhirValidationError(issues);
+  return bundle;
+}
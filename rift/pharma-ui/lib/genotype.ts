@@ -0,0 +1,90 @@
+import type { KnowledgeBase, StarAllele } from "./knowledge";
+import { orderAlleles, REFERENCE_ALLELE } from "./panel";
+
+/** Gene -> the two star alleles reported by an outside lab, e.g. `{ CYP2C19: ["*2", "*17"] }`. */
+export type ManualGenotype = Record<string, [string, string]>;
+
+export type ManualGene = { symbol: string; alleles: StarAllele[] };
+
+/** Genes that can be entered by hand: those with at least one allele the backend maps to an rsID. */
+export function manualGenes(kb: KnowledgeBase): ManualGene[] {
+  return kb.genes.filter((g) => g.alleles?.length).map((g) => ({ symbol: g.symbol, alleles: g.alleles || [] }));
+}
+
+export function referenceGenotype(kb: KnowledgeBase): ManualGenotype {
+  return Object.fromEntries(manualGenes(kb).map((g) => [g.symbol, [REFERENCE_ALLELE, REFERENCE_ALLELE]]));
+}
+
+export function formatDiplotype(pair: [string, string]): string {
+  const [a, b] = orderAlleles(pair);
+  return `${a}/${b}`;
+}
+
+/**
+ * The diplotype `get_diplotype` will call from the synthetic rows. It keeps only the
+ * first two alleles it collects, so a compound heterozygote such as *2/*17 comes back
+ * as *1/*17; the panel warns when this differs from what was entered.
+ */
+export function backendDiplotype(pair: [string, string]): string {
+  const [a, b] = orderAlleles(pair);
+  if (b === REFERENCE_ALLELE || a === b) return `${a}/${b}`;
+  return formatDiplotype([REFERENCE_ALLELE, a === REFERENCE_ALLELE ? b : a]);
+}
+
+type SyntheticRow = { allele: StarAllele; genotype: string };
+
+function rowsFor(gene: ManualGene, pair: [string, string]): SyntheticRow[] {
+  const [a, b] = orderAlleles(pair);
+  const find = (name: string) => gene.alleles.find((x) => x.name === name);
+  const first = find(a);
+  const second = find(b);
+  // *1/*1 still gets a homozygous-reference row so the gene shows up as tested rather than missing.
+  if (!first && !second) return [{ allele: gene.alleles[0], genotype: "0/0" }];
+  if (!first && second) return [{ allele: second, genotype: "0/1" }];
+  if (first && (a === b || !second)) return [{ allele: first, genotype: a === b ? "1/1" : "0/1" }];
+  // Two different variant alleles: phased in trans, one row each.
+  return [
+    { allele: first as StarAllele, genotype: "1|0" },
+    { allele: second as StarAllele, genotype: "0|1" },
+  ];
+}
+
+/**
+ * Writes a single-sample VCF that passes `validateVcfFile` and that `parse_vcf_file`
+ * reads back into the entered alleles. QUAL is left missing because no sequencing
+ * run backs the call; INFO carries GENE and STAR since the lab reported both.
+ */
+export function buildSyntheticVcf(kb: KnowledgeBase, genotype: ManualGenotype, sampleId: string, now = new Date()): string {
+  const lines = [
+    "##fileformat=VCFv4.2",
+    `##fileDate=${now.toISOString().slice(0, 10).replace(/-/g, "")}`,
+    "##source=PharmaGuard_ManualEntry",
+    "##reference=GRCh37",
+    '##INFO=<ID=GENE,Number=1,Type=String,Description="Gene symbol">',
+    '##INFO=<ID=STAR,Number=1,Type=String,Description="Star allele">',
+    '##FORMAT=<ID=GT,Number=1,Type=String,Description="Genotype">',
+    ["#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO", "FORMAT", sampleId].join("\t"),
+  ];
+  for (const gene of manualGenes(kb)) {
+    const pair = genotype[gene.symbol] || [REFERENCE_ALLELE, REFERENCE_ALLELE];
+    for (const { allele, genotype: gt } of rowsFor(gene, pair)) {
+      const info = gt === "0/0" ? `GENE=${gene.symbol}` : `GENE=${gene.symbol};STAR=${allele.name}`;
+      lines.push([allele.chrom, allele.pos, allele.rsid, allele.ref, allele.alt, ".", "PASS", info, "GT", gt].join("\t"));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function syntheticVcfFile(kb: KnowledgeBase, genotype: ManualGenotype, sampleId: string): File {
+  return new File([buildSyntheticVcf(kb, genotype, sampleId)], `manual-${sampleId}.vcf`, { type: "text/plain" });
+}
+
+/** "CYP2C19 *1/*2 → *2/*2" for every gene whose entry differs between two runs. */
+export function genotypeChanges(before: ManualGenotype, after: ManualGenotype): string[] {
+  const genes = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const reference: [string, string] = [REFERENCE_ALLELE, REFERENCE_ALLELE];
+  return genes
+    .map((gene) => [gene, formatDiplotype(before[gene] || reference), formatDiplotype(after[gene] || reference)])
+    .filter(([, a, b]) => a !== b)
+    .map(([gene, a, b]) => `${gene} ${a} → ${b}`);
+}
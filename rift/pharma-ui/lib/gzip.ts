@@ -0,0 +1,76 @@
+/**
+ * Gzip input for the upload dashboard. Sequencing cores ship `.vcf.gz` as BGZF: a
+ * series of gzip members of at most 64 KB, each naming its own size in an extra
+ * field. Those are inflated member by member, because `DecompressionStream` stops at
+ * the end of the first member in some browsers; anything else is one gzip stream.
+ */
+
+const BGZF_MAX_BLOCK = 65536;
+const READ_CHUNK = 4 * 1024 * 1024;
+
+export function isGzip(head: Uint8Array): boolean {
+  return head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b;
+}
+
+/** Total size of the BGZF block starting at `offset`, or null when it is not one (or its header is cut off). */
+function bgzfBlockSize(bytes: Uint8Array, offset: number): number | null {
+  if (bytes.length - offset < 18 || !isGzip(bytes.subarray(offset)) || bytes[offset + 2] !== 8 || !(bytes[offset + 3] & 4)) return null;
+  const xlen = bytes[offset + 10] | (bytes[offset + 11] << 8);
+  const end = offset + 12 + xlen;
+  if (end > bytes.length) return null;
+  for (let p = offset + 12; p + 4 <= end; ) {
+    const slen = bytes[p + 2] | (bytes[p + 3] << 8);
+    // Subfield "BC" carries BSIZE, the block size minus one.
+    if (bytes[p] === 66 && bytes[p + 1] === 67 && slen === 2) return (bytes[p + 4] | (bytes[p + 5] << 8)) + 1;
+    p += 4 + slen;
+  }
+  return null;
+}
+
+async function inflate(member: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([member.slice()]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Decompressed bytes of a gzip or BGZF blob, in order, without holding the whole output in memory. */
+export async function* gunzip(blob: Blob): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(await blob.slice(0, READ_CHUNK).arrayBuffer());
+  let read = buffer.length;
+  if (bgzfBlockSize(buffer, 0) === null) {
+    yield* readChunks(blob.stream().pipeThrough(new DecompressionStream("gzip")));
+    return;
+  }
+
+  let pos = 0;
+  for (;;) {
+    if (buffer.length - pos < BGZF_MAX_BLOCK && read < blob.size) {
+      const next = new Uint8Array(await blob.slice(read, read + READ_CHUNK).arrayBuffer());
+      read += next.length;
+      const merged = new Uint8Array(buffer.length - pos + next.length);
+      merged.set(buffer.subarray(pos));
+      merged.set(next, buffer.length - pos);
+      buffer = merged;
+      pos = 0;
+    }
+    if (pos >= buffer.length) return;
+    const size = bgzfBlockSize(buffer, pos);
+    if (size === null || pos + size > buffer.length) throw new Error("The BGZF data is truncated or corrupt.");
+    const out = await inflate(buffer.subarray(pos, pos + size));
+    pos += size;
+    // The end-of-file marker is an empty block.
+    if (out.length) yield out;
+  }
+}
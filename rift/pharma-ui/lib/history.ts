@@ -0,0 +1,155 @@
+import { reidentify } from "./deidentify";
+import type { AnalysisResult } from "./types";
+
+const DB_NAME = "pharmaguard";
+const DB_VERSION = 1;
+const STORE = "analyses";
+
+/** Upper bound on saved analyses; the oldest are dropped first when it is reached or the quota runs out. */
+export const HISTORY_LIMIT = 200;
+
+export type HistoryEntry = {
+  id: string;
+  patientId: string;
+  /** Backend analysis timestamp, falling back to the save time. */
+  timestamp: string;
+  savedAt: number;
+  drugs: string[];
+  fileName: string;
+  result: AnalysisResult;
+};
+
+/** IndexedDB is missing (private mode, old browser) or refused to open. */
+export class HistoryUnavailableError extends Error {
+  constructor(message = "Local history is not available in this browser.") {
+    super(message);
+    this.name = "HistoryUnavailableError";
+  }
+}
+
+/** The browser refused the write even after old entries were pruned. */
+export class HistoryQuotaError extends Error {
+  constructor(message = "Browser storage is full. Delete older analyses to keep saving history.") {
+    super(message);
+    this.name = "HistoryQuotaError";
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new HistoryUnavailableError());
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("savedAt", "savedAt");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(new HistoryUnavailableError(req.error?.message));
+      req.onblocked = () => reject(new HistoryUnavailableError("Local history is open in another tab with an older version."));
+    }).catch((e) => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+}
+
+function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+/** Runs one request in its own transaction and resolves once the transaction commits. */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error || req.error);
+    tx.onabort = () => reject(tx.error || req.error);
+  });
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>("readonly", (store) => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export function deleteHistoryEntry(id: string): Promise<undefined> {
+  return withStore("readwrite", (store) => store.delete(id));
+}
+
+export function clearHistory(): Promise<undefined> {
+  return withStore("readwrite", (store) => store.clear());
+}
+
+async function pruneOldest(count: number): Promise<number> {
+  const entries = await listHistory();
+  const victims = entries.slice(-count);
+  for (const entry of victims) await deleteHistoryEntry(entry.id);
+  return victims.length;
+}
+
+function newId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function toHistoryEntry(result: AnalysisResult, fileName: string): HistoryEntry {
+  const data = result.data;
+  const drugs =
+    result.kind === "single"
+      ? [result.data.drug || "UNKNOWN"]
+      : result.data.drugs_analyzed?.length
+        ? result.data.drugs_analyzed
+        : Object.keys(result.data.results || {});
+  const savedAt = Date.now();
+  return {
+    id: newId(),
+    patientId: data.patient_id || "patient",
+    timestamp: data.timestamp || new Date(savedAt).toISOString(),
+    savedAt,
+    drugs,
+    fileName,
+    result,
+  };
+}
+
+/**
+ * Stores an analysis. When the history is full or the browser reports a quota
+ * error, the oldest entries are pruned and the write is retried once.
+ */
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const existing = await listHistory();
+  if (existing.length >= HISTORY_LIMIT) await pruneOldest(existing.length - HISTORY_LIMIT + 1);
+
+  try {
+    await withStore("readwrite", (store) => store.put(entry));
+  } catch (e) {
+    if (!isQuotaError(e)) throw e;
+    const pruned = await pruneOldest(Math.max(1, Math.ceil(existing.length / 4)));
+    if (!pruned) throw new HistoryQuotaError();
+    try {
+      await withStore("readwrite", (store) => store.put(entry));
+    } catch (retryError) {
+      if (isQuotaError(retryError)) throw new HistoryQuotaError();
+      throw retryError;
+    }
+  }
+}
+
+/** Approximate bytes used/available for this origin, when the browser exposes it. */
+export async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function matchesHistoryQuery(entry: HistoryEntry, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const realId = reidentify(entry.patientId)?.realId || "";
+  return [entry.patientId, realId, entry.fileName, entry.timestamp, ...entry.drugs].some((v) => v.toLowerCase().includes(q));
+}
@@ -0,0 +1,95 @@
+import { genesForDrug, type KnowledgeBase } from "./knowledge";
+import type { RiskCard } from "./risk";
+import type { PolypharmacyWarning, Tone } from "./types";
+
+export type DrugNode = { kind: "drug"; id: string; label: string; riskLabel: string };
+
+export type GeneNode = {
+  kind: "gene";
+  id: string;
+  /** Phenotype as reported for the patient, e.g. "PM" or "Poor metabolizer". */
+  phenotype: string;
+  phenotypeTone: Tone;
+  /** How many of the analyzed drugs are metabolized by this enzyme. */
+  load: number;
+  bottleneck?: { severity: string; note: string };
+};
+
+/** "metabolized by": drug -> gene. */
+export type InteractionEdge = { drug: string; gene: string; bottleneck: boolean };
+
+export type InteractionGraph = { drugs: DrugNode[]; genes: GeneNode[]; edges: InteractionEdge[] };
+
+/** Filter applied to the Risk Matrix from a click in the graph. */
+export type GraphSelection = { kind: "drug" | "gene"; id: string } | null;
+
+/**
+ * Maps both phenotype spellings the backend uses (codes from `/analyze`, words from
+ * `detect_bottlenecks`) to the risk tones. Ultrarapid counts as toxic because for
+ * prodrugs like codeine it is as dangerous as poor metabolism.
+ */
+export function phenotypeTone(phenotype?: string): Tone {
+  const v = (phenotype || "").trim().toLowerCase();
+  if (!v || v === "unknown" || v === "n/a") return "unknown";
+  if (v === "pm" || v === "urm" || v.startsWith("poor") || v.startsWith("ultra")) return "toxic";
+  if (v === "im" || v === "rm" || v.startsWith("intermediate") || v.startsWith("rapid") || v.includes("decreased")) return "adjust";
+  if (v === "nm" || v.startsWith("normal") || v.startsWith("extensive")) return "safe";
+  return "unknown";
+}
+
+function known(value?: string): value is string {
+  return !!value && value !== "N/A" && value.toLowerCase() !== "unknown";
+}
+
+/**
+ * Builds the drug/enzyme graph for one batch result. Edges come from the knowledge
+ * base so that secondary genes (VKORC1 for warfarin) show up even though each
+ * result only names its primary gene; phenotypes come from the results themselves,
+ * then from the bottleneck warnings.
+ */
+export function buildInteractionGraph(cards: RiskCard[], warnings: PolypharmacyWarning[], kb: KnowledgeBase): InteractionGraph {
+  const bottleneckByGene = new Map(warnings.filter((w) => w.gene).map((w) => [w.gene as string, w]));
+  const phenotypeByGene = new Map<string, string>();
+  for (const card of cards) {
+    if (known(card.gene) && known(card.phenotype) && !phenotypeByGene.has(card.gene)) phenotypeByGene.set(card.gene, card.phenotype);
+  }
+
+  const edges: InteractionEdge[] = [];
+  for (const card of cards) {
+    const genes = genesForDrug(kb, card.drug);
+    for (const gene of genes.length ? genes : known(card.gene) ? [card.gene] : []) {
+      const bottleneck = bottleneckByGene.get(gene);
+      edges.push({ drug: card.drug, gene, bottleneck: !!bottleneck?.competing_drugs?.some((d) => d.toUpperCase() === card.drug.toUpperCase()) });
+    }
+  }
+
+  const geneIds = [...new Set(edges.map((e) => e.gene))];
+  const genes = geneIds.map((id): GeneNode => {
+    const warning = bottleneckByGene.get(id);
+    const phenotype = phenotypeByGene.get(id) || (known(warning?.patient_phenotype) ? warning.patient_phenotype : "Unknown");
+    return {
+      kind: "gene",
+      id,
+      phenotype,
+      phenotypeTone: phenotypeTone(phenotype),
+      load: edges.filter((e) => e.gene === id).length,
+      ...(warning ? { bottleneck: { severity: warning.severity || "moderate", note: warning.clinical_note || warning.warning || "" } } : {}),
+    };
+  });
+  // Most crowded enzymes first, so the bottlenecks sit at the top of the graph.
+  genes.sort((a, b) => b.load - a.load || a.id.localeCompare(b.id));
+
+  return {
+    drugs: cards.map((c) => ({ kind: "drug", id: c.drug, label: c.drug, riskLabel: c.label })),
+    genes,
+    edges,
+  };
+}
+
+/** Cards the Risk Matrix keeps for a graph selection. */
+export function filterCardsBySelection(cards: RiskCard[], graph: InteractionGraph, selection: GraphSelection): RiskCard[] {
+  if (!selection) return cards;
+  if (selection.kind === "drug") return cards.filter((c) => c.drug === selection.id);
+  const drugs = new Set(graph.edges.filter((e) => e.gene === selection.id).map((e) => e.drug));
+  return cards.filter((c) => drugs.has(c.drug));
+}
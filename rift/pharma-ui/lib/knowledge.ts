@@ -0,0 +1,121 @@
+import bundled from "./data/knowledge-base.v1.json";
+import { TARGET_VARIANTS } from "./panel";
+import type { ServiceInfo } from "./types";
+
+/** A star allele the backend recognises, keyed by the one rsID `TARGET_VARIANTS` maps to it (GRCh37). */
+export type StarAllele = { name: string; rsid: string; chrom: string; pos: number; ref: string; alt: string; function: string };
+
+export type GeneInfo = {
+  symbol: string;
+  hgnc?: string;
+  /** Non-reference alleles that can be entered by hand; `*1` is implied. */
+  alleles?: StarAllele[];
+};
+
+export type DrugInfo = {
+  name: string;
+  /** Genes the backend consults for this drug; the first is the primary gene. */
+  genes: string[];
+  synonyms: string[];
+  therapeuticClass: string;
+  cpicLevel: string;
+  rxnorm?: string;
+  /** Shown as a one-click chip under the drug picker. */
+  core: boolean;
+};
+
+export type KnowledgeBase = {
+  version: string;
+  /** `bundled` until the backend root endpoint has been merged in. */
+  source: "bundled" | "backend";
+  genes: GeneInfo[];
+  drugs: DrugInfo[];
+};
+
+/**
+ * Versioned drug/gene data shipped with the console (`data/knowledge-base.v*.json`).
+ * Mirrors `DRUG_GENE_MAP` and `CPIC_GUIDELINES` in `pharma_guard`; bump the file version
+ * when either changes. Alleles are stored as loci only: name and function come from
+ * the panel table in `./panel`, so the two cannot drift apart.
+ */
+export const BUNDLED_KNOWLEDGE_BASE: KnowledgeBase = {
+  ...bundled,
+  source: "bundled",
+  genes: bundled.genes.map((g) => ({
+    ...g,
+    alleles: g.alleles.map((locus) => ({ ...locus, name: TARGET_VARIANTS[locus.rsid].allele, function: TARGET_VARIANTS[locus.rsid].function })),
+  })),
+};
+
+export function findDrug(kb: KnowledgeBase, name: string): DrugInfo | undefined {
+  const key = name.trim().toUpperCase();
+  return kb.drugs.find((d) => d.name === key);
+}
+
+export function genesForDrug(kb: KnowledgeBase, drug: string): string[] {
+  return findDrug(kb, drug)?.genes || [];
+}
+
+export function primaryGeneFor(kb: KnowledgeBase, drug: string): string | undefined {
+  return genesForDrug(kb, drug)[0];
+}
+
+/** Drug name -> every gene it needs, for components that only want the mapping. */
+export function drugGeneMap(kb: KnowledgeBase): Record<string, string[]> {
+  return Object.fromEntries(kb.drugs.map((d) => [d.name, d.genes]));
+}
+
+export function drugNames(kb: KnowledgeBase): string[] {
+  return kb.drugs.map((d) => d.name);
+}
+
+export function coreDrugNames(kb: KnowledgeBase): string[] {
+  return kb.drugs.filter((d) => d.core).map((d) => d.name);
+}
+
+export function geneSymbols(kb: KnowledgeBase): string[] {
+  return kb.genes.map((g) => g.symbol);
+}
+
+export function findGene(kb: KnowledgeBase, symbol: string): GeneInfo | undefined {
+  return kb.genes.find((g) => g.symbol === symbol);
+}
+
+/** Pulls "CYP2C9/VKORC1" and "A" out of "CPIC Guideline for Warfarin and CYP2C9/VKORC1 (Level A)". */
+function parseGuidelineTitle(title: string): { genes: string[]; level?: string } {
+  const genes = title.match(/\band\s+([A-Z0-9/]+)/)?.[1]?.split("/").filter(Boolean) || [];
+  const level = title.match(/\(Level\s+([A-D])\)/i)?.[1]?.toUpperCase();
+  return { genes, level };
+}
+
+/**
+ * Merges what the backend reports into the bundled data. The backend decides which
+ * drugs are analyzable: bundled entries it does not list are dropped, and drugs it
+ * lists that the bundle does not know get genes and CPIC level from the guideline
+ * title. Synonyms, classes and codes only come from the bundle.
+ */
+export function mergeServiceInfo(kb: KnowledgeBase, info: ServiceInfo): KnowledgeBase {
+  const supported = info.supported_drugs.map((d) => d.toUpperCase());
+  if (!supported.length) return kb;
+
+  const drugs = supported.map((name): DrugInfo => {
+    const known = findDrug(kb, name);
+    const guideline = info.cpic_guidelines?.[name] ? parseGuidelineTitle(info.cpic_guidelines[name]) : null;
+    if (known) return guideline?.level ? { ...known, cpicLevel: guideline.level } : known;
+    return {
+      name,
+      genes: guideline?.genes || [],
+      synonyms: [],
+      therapeuticClass: "Unclassified",
+      cpicLevel: guideline?.level || "N/A",
+      core: false,
+    };
+  });
+
+  const genes = [...kb.genes];
+  for (const symbol of [...(info.supported_genes || []), ...drugs.flatMap((d) => d.genes)]) {
+    if (!genes.some((g) => g.symbol === symbol)) genes.push({ symbol });
+  }
+
+  return { version: info.version ? `${kb.version}+api.${info.version}` : kb.version, source: "backend", genes, drugs };
+}
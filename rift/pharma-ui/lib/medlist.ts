@@ -0,0 +1,302 @@
+import type { KnowledgeBase } from "./knowledge";
+import { type DrugResolution, parseDrugTokens, resolveDrug } from "./resolver";
+
+/**
+ * Medication list import for multi mode: a pasted or uploaded CSV, HL7 v2 order
+ * (RXE/RXO segments) or FHIR MedicationStatement bundle becomes a list of active
+ * ingredients, resolved against the knowledge base like typed drug names.
+ */
+
+export type MedListFormat = "csv" | "hl7" | "fhir";
+
+export const MED_LIST_FORMAT_LABELS: Record<MedListFormat, string> = {
+  csv: "CSV",
+  hl7: "HL7 v2 (RXE/RXO)",
+  fhir: "FHIR MedicationStatement",
+};
+
+/** One ingredient as found in the list, before resolution. */
+export type Ingredient = {
+  name: string;
+  /** Ingredient RxCUI when the source carried one. */
+  rxnorm?: string;
+  /** Where it came from, e.g. "row 3" or "RXE #2", for the import summary. */
+  source: string;
+};
+
+export type MedListImport = {
+  format: MedListFormat;
+  assessable: Array<{ ingredient: Ingredient; drug: string }>;
+  unassessable: Array<{ ingredient: Ingredient; suggestions: string[] }>;
+  /** Entries left out on purpose (stopped or discontinued), or unreadable. */
+  skipped: string[];
+};
+
+/** The list could not be read at all; the message is shown under the import box. */
+export class MedListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MedListError";
+  }
+}
+
+export function detectMedListFormat(text: string): MedListFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("{")) return "fhir";
+  if (/^(MSH|RXE|RXO)\|/m.test(trimmed)) return "hl7";
+  return "csv";
+}
+
+const SALT_WORDS = new Set([
+  "HYDROCHLORIDE", "HCL", "SODIUM", "POTASSIUM", "CALCIUM", "MAGNESIUM", "BISULFATE", "SULFATE",
+  "PHOSPHATE", "MALEATE", "MESYLATE", "BESYLATE", "SUCCINATE", "TARTRATE", "CITRATE", "ACETATE", "FUMARATE",
+]);
+
+/**
+ * Ingredient names from a product description: "Codeine Phosphate 30 MG Oral Tablet"
+ * gives CODEINE, "amlodipine/benazepril" and "amlodipine 5 MG / benazepril 10 MG" give
+ * both. Strength, form and salt are dropped. A slash right after a strength is part of
+ * the unit ("50 MG/ML"), not a second ingredient.
+ */
+export function ingredientNames(description: string): string[] {
+  return description
+    .split(/\s*\+\s*|\s+\/\s+|(?<!\d[\d.,]*\s*[A-Za-z%]*)\//)
+    .map((part) => {
+      const words = part.replace(/\s+\d.*$/, "").replace(/[()[\]]/g, " ").trim().split(/\s+/);
+      while (words.length > 1 && SALT_WORDS.has(words[words.length - 1].toUpperCase())) words.pop();
+      return words.join(" ");
+    })
+    .filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === "," || ch === ";" || ch === "\t") {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(Boolean)) rows.push(row);
+  return rows;
+}
+
+/** Header names, most specific first, that hold the medication. */
+const NAME_COLUMNS = ["active ingredient", "active_ingredient", "ingredient", "generic name", "generic", "drug", "medication", "name"];
+const STATUS_COLUMNS = ["status", "active"];
+const INACTIVE = new Set(["stopped", "completed", "discontinued", "inactive", "entered-in-error", "not-taken", "no", "false"]);
+
+function csvIngredients(text: string, skipped: string[]): Ingredient[] {
+  const rows = parseCsv(text);
+  if (!rows.length) return [];
+  const header = rows[0].map((h) => h.toLowerCase());
+  const named = NAME_COLUMNS.map((c) => header.indexOf(c)).find((i) => i >= 0);
+  const nameCol = named ?? 0;
+  const statusCol = named === undefined ? -1 : header.findIndex((h) => STATUS_COLUMNS.includes(h));
+  const rxnormCol = named === undefined ? -1 : header.findIndex((h) => h === "rxnorm" || h === "rxcui");
+
+  // Without a header the first column holds the drug, except for one pasted line like "codeine, warfarin".
+  if (named === undefined && rows.length === 1) return rows[0].flatMap((cell) => ingredientNames(cell).map((name) => ({ name, source: "row 1" })));
+
+  const out: Ingredient[] = [];
+  rows.slice(named === undefined ? 0 : 1).forEach((row, i) => {
+    const source = `row ${i + (named === undefined ? 1 : 2)}`;
+    const cell = row[nameCol] || "";
+    if (!cell) return;
+    if (statusCol >= 0 && INACTIVE.has((row[statusCol] || "").toLowerCase())) {
+      skipped.push(`${cell} (${source}, ${row[statusCol]})`);
+      return;
+    }
+    const rxnorm = rxnormCol >= 0 ? row[rxnormCol] || undefined : undefined;
+    // A cell may list several drugs ("codeine, warfarin") when the list is a single column.
+    for (const part of cell.split(/\s*,\s*/)) {
+      for (const name of ingredientNames(part)) out.push({ name, source, ...(rxnorm ? { rxnorm } : {}) });
+    }
+  });
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// HL7 v2
+// ---------------------------------------------------------------------------
+
+/** ORC-1 order controls and ORC-5 statuses that mean the order is no longer active. */
+const HL7_ENDED = new Set(["DC", "CA", "OC", "OD", "CM"]);
+
+function hl7Ingredients(text: string, skipped: string[]): Ingredient[] {
+  const segments = text.split(/\r\n|\r|\n/).map((s) => s.trim()).filter(Boolean);
+  const msh = segments.find((s) => s.startsWith("MSH"));
+  const fieldSep = msh ? msh[3] : "|";
+  const componentSep = msh ? msh[4] || "^" : "^";
+  const repeatSep = msh ? msh[5] || "~" : "~";
+
+  const out: Ingredient[] = [];
+  let orderEnded = false;
+  let count = 0;
+  for (const segment of segments) {
+    const fields = segment.split(fieldSep);
+    const type = fields[0];
+    if (type === "ORC") {
+      orderEnded = HL7_ENDED.has((fields[1] || "").toUpperCase()) || HL7_ENDED.has((fields[5] || "").toUpperCase());
+      continue;
+    }
+    if (type !== "RXE" && type !== "RXO") continue;
+    count += 1;
+    const source = `${type} #${count}`;
+    // RXE-2 Give Code, RXO-1 Requested Give Code: identifier^text^system^alt id^alt text^alt system.
+    const code = (fields[type === "RXE" ? 2 : 1] || "").split(repeatSep)[0].split(componentSep);
+    const [id, label, system, altId, altLabel, altSystem] = code;
+    const isRxNorm = (s?: string) => !!s && /^(RXNORM|RXN)$/i.test(s);
+    const display = label || altLabel || (id && !/^\d+$/.test(id) ? id : "");
+    const rxnorm = isRxNorm(system) ? id : isRxNorm(altSystem) ? altId : undefined;
+    if (!display && !rxnorm) {
+      skipped.push(`${source} (no medication code)`);
+      continue;
+    }
+    if (orderEnded) {
+      skipped.push(`${display || rxnorm} (${source}, discontinued order)`);
+      continue;
+    }
+    const names = display ? ingredientNames(display) : [`RxCUI ${rxnorm}`];
+    for (const name of names) out.push({ name, source, ...(rxnorm ? { rxnorm } : {}) });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// FHIR
+// ---------------------------------------------------------------------------
+
+type Json = Record<string, unknown>;
+type Concept = { text?: string; coding?: Array<{ system?: string; code?: string; display?: string }> };
+
+const RXNORM_SYSTEM = "http://www.nlm.nih.gov/research/umls/rxnorm";
+/** MedicationStatement statuses that describe a drug the patient is not taking. */
+const FHIR_ENDED = new Set(["completed", "entered-in-error", "stopped", "not-taken", "recorded-in-error"]);
+
+function isJson(value: unknown): value is Json {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function conceptIngredients(concept: unknown, source: string): Ingredient[] {
+  if (!isJson(concept)) return [];
+  const c = concept as Concept;
+  const rx = c.coding?.find((coding) => coding.system === RXNORM_SYSTEM && coding.code);
+  const display = c.text || rx?.display || c.coding?.find((coding) => coding.display)?.display;
+  if (!display && !rx) return [];
+  const names = display ? ingredientNames(display) : [`RxCUI ${rx?.code}`];
+  return names.map((name) => ({ name, source, ...(rx?.code ? { rxnorm: rx.code } : {}) }));
+}
+
+/** Prefers `Medication.ingredient` (the active ingredients) over the product code. */
+function medicationIngredients(medication: Json, source: string): Ingredient[] {
+  const ingredients = Array.isArray(medication.ingredient) ? (medication.ingredient as Json[]) : [];
+  const active = ingredients
+    .filter((i) => i.isActive !== false)
+    .flatMap((i) => conceptIngredients(i.itemCodeableConcept || (isJson(i.item) ? i.item.concept : undefined), source));
+  return active.length ? active : conceptIngredients(medication.code, source);
+}
+
+function fhirIngredients(text: string, skipped: string[]): Ingredient[] {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new MedListError("The FHIR medication list is not valid JSON.");
+  }
+  if (!isJson(root)) throw new MedListError("The FHIR medication list is not a resource.");
+
+  const entries: Array<{ fullUrl?: string; resource: Json }> =
+    root.resourceType === "Bundle"
+      ? ((Array.isArray(root.entry) ? root.entry : []) as Json[]).filter((e) => isJson(e.resource)).map((e) => ({ fullUrl: e.fullUrl as string | undefined, resource: e.resource as Json }))
+      : [{ resource: root }];
+
+  const medications = new Map<string, Json>();
+  for (const { fullUrl, resource } of entries) {
+    if (resource.resourceType !== "Medication") continue;
+    if (fullUrl) medications.set(fullUrl, resource);
+    if (resource.id) medications.set(`Medication/${resource.id}`, resource);
+  }
+
+  const statements = entries.filter((e) => e.resource.resourceType === "MedicationStatement");
+  if (!statements.length) throw new MedListError("No MedicationStatement resources found.");
+
+  const out: Ingredient[] = [];
+  statements.forEach(({ resource }, i) => {
+    const source = `MedicationStatement #${i + 1}`;
+    // R4 uses medicationCodeableConcept / medicationReference, R5 a CodeableReference in `medication`.
+    const r5 = isJson(resource.medication) ? resource.medication : undefined;
+    const reference = (isJson(resource.medicationReference) ? resource.medicationReference : isJson(r5?.reference) ? r5.reference : undefined)?.reference;
+    const contained = (Array.isArray(resource.contained) ? (resource.contained as Json[]) : []).find((c) => typeof reference === "string" && `#${c.id}` === reference);
+    const medication = contained || (typeof reference === "string" ? medications.get(reference) : undefined);
+    const found = medication ? medicationIngredients(medication, source) : conceptIngredients(resource.medicationCodeableConcept || r5?.concept, source);
+    const label = found.map((f) => f.name).join(" + ") || (typeof reference === "string" ? reference : source);
+
+    const status = String(resource.status || "");
+    if (FHIR_ENDED.has(status)) {
+      skipped.push(`${label} (${source}, ${status})`);
+      return;
+    }
+    if (!found.length) {
+      skipped.push(`${label} (no medication code${typeof reference === "string" && !medication ? "; reference not in bundle" : ""})`);
+      return;
+    }
+    out.push(...found);
+  });
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/** Reads the list and sorts every ingredient into assessable (with its canonical name) or not. */
+export function importMedicationList(kb: KnowledgeBase, text: string, format: MedListFormat = detectMedListFormat(text)): MedListImport {
+  if (!text.trim()) throw new MedListError("Paste or upload a medication list first.");
+  const skipped: string[] = [];
+  const ingredients = format === "fhir" ? fhirIngredients(text, skipped) : format === "hl7" ? hl7Ingredients(text, skipped) : csvIngredients(text, skipped);
+  if (!ingredients.length && !skipped.length) throw new MedListError(`No medications found in this ${MED_LIST_FORMAT_LABELS[format]} list.`);
+
+  const result: MedListImport = { format, assessable: [], unassessable: [], skipped };
+  const seen = new Set<string>();
+  for (const ingredient of ingredients) {
+    const byCode = ingredient.rxnorm ? kb.drugs.find((d) => d.rxnorm === ingredient.rxnorm) : undefined;
+    const [token] = parseDrugTokens(ingredient.name);
+    if (!token && !byCode) continue;
+    const resolved: DrugResolution = byCode ? { status: "resolved", input: token || byCode.name, drug: byCode.name } : resolveDrug(kb, token);
+    const key = resolved.status === "resolved" ? resolved.drug : resolved.input;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (resolved.status === "resolved") result.assessable.push({ ingredient, drug: resolved.drug });
+    else result.unassessable.push({ ingredient, suggestions: resolved.suggestions });
+  }
+  return result;
+}
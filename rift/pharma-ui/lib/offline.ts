@@ -0,0 +1,80 @@
+import { ApiConfigError, ApiNetworkError, ApiServerError } from "./api";
+import { ruleConfidence } from "./confidence";
+import { clinicalRisk, extractTargetVariants, normalizePhenotypeCode, OFFLINE_DRUGS } from "./rules";
+import type { AnalysisResult, SingleResult } from "./types";
+import { parseVcf } from "./vcf";
+
+/** `analysis_engine` value stamped on results computed in the browser. */
+export const OFFLINE_ENGINE = "offline_rules";
+export const OFFLINE_LABEL = "Offline rules, no LLM explanation";
+export const OFFLINE_DRUGS_NOTE = `The analysis server could not be reached, so this result comes from the CPIC rules bundled with the console (${OFFLINE_DRUGS.map((d) => d[0] + d.slice(1).toLowerCase()).join(", ")}). Other drugs show as Unknown, and polypharmacy checks need the server.`;
+
+export function isOfflineResult(result: AnalysisResult | null): boolean {
+  return result?.data.analysis_engine === OFFLINE_ENGINE;
+}
+
+/** True when the server could not be reached at all; a server that answered keeps its answer. */
+export function shouldRunOffline(error: unknown): boolean {
+  if (error instanceof ApiNetworkError || error instanceof ApiConfigError) return true;
+  if (!(error instanceof ApiServerError)) return false;
+  if (error.code) return error.code === "backend_unreachable" || error.code === "backend_timeout";
+  // Uncoded gateway errors come from infrastructure in front of the console.
+  return [502, 503, 504].includes(error.status ?? 0);
+}
+
+function offlinePatientId() {
+  return `PATIENT_${crypto.randomUUID().replace(/-/g, "").slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Runs the bundled CPIC rules on a VCF with no network, returning one item per drug
+ * in the shape `/analyze/stream` sends. No LLM is involved, so the explanation only
+ * says so; confidence is scored the way the server scores it without an LLM.
+ */
+export async function analyzeOffline(file: File, drugs: string[], patientId?: string): Promise<SingleResult[]> {
+  const variants = extractTargetVariants(parseVcf(await file.text()));
+  const id = patientId || offlinePatientId();
+  const timestamp = new Date().toISOString();
+
+  return drugs.map((raw): SingleResult => {
+    const drug = raw.trim().toUpperCase();
+    const risk = clinicalRisk(variants, drug);
+    const { score, breakdown } = ruleConfidence(variants, risk.cpic_level);
+    return {
+      patient_id: id,
+      drug,
+      timestamp,
+      analysis_engine: OFFLINE_ENGINE,
+      risk_assessment: { risk_label: risk.label, severity: risk.severity, confidence_score: score, confidence_breakdown: breakdown, cpic_level: risk.cpic_level },
+      pharmacogenomic_profile: {
+        primary_gene: risk.gene,
+        diplotype: risk.diplotype,
+        phenotype: normalizePhenotypeCode(risk.phenotype),
+        detected_variants: variants
+          .filter((v) => v.gene === risk.gene && v.rsid)
+          .map((v) => ({
+            rsid: v.rsid,
+            gene: v.gene,
+            allele: v.allele,
+            function: v.function,
+            genotype: v.genotype,
+            chromosome: v.chromosome,
+            position: v.position,
+            ref: v.ref,
+            alt: v.alt,
+            quality_score: v.quality_score,
+            read_depth: v.read_depth,
+            filter: v.filter,
+          })),
+      },
+      clinical_recommendation: { recommendation_text: risk.recommendation },
+      llm_generated_explanation: { summary: `${OFFLINE_LABEL}.`, mechanism: "Computed in the browser from the bundled CPIC rules while the analysis server was unreachable." },
+      quality_metrics: {
+        vcf_parsing_success: true,
+        total_variants_analyzed: variants.length,
+        file_name: file.name,
+        file_size_bytes: file.size,
+      },
+    };
+  });
+}
@@ -0,0 +1,193 @@
+import { createHash, randomBytes } from "node:crypto";
+import { type Role, ROLES, type SessionUser } from "./roles";
+
+/**
+ * OpenID Connect sign-in (authorization code + PKCE) against OIDC_ISSUER.
+ *   OIDC_ISSUER, OIDC_CLIENT_ID        required to enable SSO
+ *   OIDC_CLIENT_SECRET                 omit for public clients
+ *   OIDC_SCOPES                        default "openid profile email"
+ *   OIDC_ROLE_CLAIM                    claim holding the role(s), dot paths allowed; default "roles"
+ *   OIDC_ROLE_MAP                      JSON {"idp-group": "clinician", ...} for IdPs with their own names
+ *   OIDC_REDIRECT_URL                  default <origin>/api/auth/oidc/callback
+ * The ID token comes straight from the token endpoint over TLS, so its claims are
+ * checked (iss, aud, exp, nonce) but its signature is not (OIDC Core 3.1.3.7).
+ */
+
+export const OIDC_STATE_COOKIE = "pg_oidc";
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
+/** Why an OIDC sign-in failed; `code` goes to `/login?error=`. */
+export class OidcError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "OidcError";
+    this.code = code;
+  }
+}
+
+type OidcSettings = {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  roleClaim: string;
+  roleMap: Record<string, string>;
+};
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+};
+
+/** What the callback needs to finish the flow, kept in a short-lived httpOnly cookie. */
+export type OidcState = {
+  state: string;
+  verifier: string;
+  nonce: string;
+  next: string;
+};
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "");
+}
+
+export function oidcSettings(): OidcSettings | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  let roleMap: Record<string, string> = {};
+  try {
+    roleMap = JSON.parse(process.env.OIDC_ROLE_MAP || "{}");
+  } catch {
+    console.error("OIDC_ROLE_MAP is not valid JSON; using role names as-is.");
+  }
+  return {
+    issuer: trimSlash(issuer),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    roleClaim: process.env.OIDC_ROLE_CLAIM || "roles",
+    roleMap,
+  };
+}
+
+export function oidcRedirectUri(request: Request): string {
+  return process.env.OIDC_REDIRECT_URL || new URL("/api/auth/oidc/callback", request.url).toString();
+}
+
+const discoveryCache = new Map<string, Promise<Discovery>>();
+
+function discover(issuer: string): Promise<Discovery> {
+  let cached = discoveryCache.get(issuer);
+  if (!cached) {
+    cached = fetch(`${issuer}/.well-known/openid-configuration`, { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`discovery returned ${res.status}`);
+        const doc = (await res.json()) as Partial<Discovery>;
+        if (!doc.authorization_endpoint || !doc.token_endpoint || !doc.issuer) throw new Error("discovery document is incomplete");
+        return doc as Discovery;
+      })
+      .catch((e) => {
+        discoveryCache.delete(issuer);
+        throw new OidcError("idp_unreachable", `Could not load the identity provider configuration: ${e instanceof Error ? e.message : e}`);
+      });
+    discoveryCache.set(issuer, cached);
+  }
+  return cached;
+}
+
+function randomToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export async function beginOidcLogin(settings: OidcSettings, redirectUri: string, next: string): Promise<{ url: string; state: OidcState }> {
+  const doc = await discover(settings.issuer);
+  const state: OidcState = { state: randomToken(), verifier: randomToken(), nonce: randomToken(), next };
+  const url = new URL(doc.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: settings.clientId,
+    redirect_uri: redirectUri,
+    scope: settings.scopes,
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: createHash("sha256").update(state.verifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+  return { url: url.toString(), state };
+}
+
+export function encodeOidcState(state: OidcState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+export function decodeOidcState(value: string | undefined): OidcState | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return typeof parsed?.state === "string" && typeof parsed?.verifier === "string" && typeof parsed?.nonce === "string"
+      ? { state: parsed.state, verifier: parsed.verifier, nonce: parsed.nonce, next: typeof parsed.next === "string" ? parsed.next : "" }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function claimAt(claims: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined), claims);
+}
+
+/** First console role (in `ROLES` order) found in the role claim, after OIDC_ROLE_MAP. */
+function roleFromClaims(settings: OidcSettings, claims: Record<string, unknown>): Role | null {
+  const raw = claimAt(claims, settings.roleClaim);
+  const values = (Array.isArray(raw) ? raw : [raw]).filter((v): v is string => typeof v === "string");
+  const mapped = new Set(values.map((v) => settings.roleMap[v] ?? v));
+  return ROLES.find((role) => mapped.has(role)) ?? null;
+}
+
+function idTokenClaims(idToken: unknown): Record<string, unknown> {
+  const body = typeof idToken === "string" ? idToken.split(".")[1] : undefined;
+  if (!body) throw new OidcError("invalid_token", "The identity provider did not return an ID token.");
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    throw new OidcError("invalid_token", "The ID token could not be read.");
+  }
+}
+
+export async function completeOidcLogin(settings: OidcSettings, params: URLSearchParams, saved: OidcState | null, redirectUri: string): Promise<SessionUser> {
+  const idpError = params.get("error");
+  if (idpError) throw new OidcError("idp_denied", params.get("error_description") || idpError);
+  if (!saved || params.get("state") !== saved.state) throw new OidcError("state_mismatch", "The sign-in attempt expired or was started in another browser.");
+  const code = params.get("code");
+  if (!code) throw new OidcError("invalid_response", "The identity provider did not return an authorization code.");
+
+  const doc = await discover(settings.issuer);
+  const form = new URLSearchParams({ grant_type: "authorization_code", code, redirect_uri: redirectUri, client_id: settings.clientId, code_verifier: saved.verifier });
+  if (settings.clientSecret) form.set("client_secret", settings.clientSecret);
+  let tokens: Record<string, unknown>;
+  try {
+    const res = await fetch(doc.token_endpoint, { method: "POST", body: form, headers: { accept: "application/json" }, cache: "no-store" });
+    tokens = await res.json();
+    if (!res.ok) throw new Error(typeof tokens.error === "string" ? tokens.error : `token endpoint returned ${res.status}`);
+  } catch (e) {
+    throw new OidcError("token_exchange_failed", `Could not exchange the authorization code: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const claims = idTokenClaims(tokens.id_token);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (trimSlash(String(claims.iss || "")) !== trimSlash(doc.issuer) || !audience.includes(settings.clientId)) {
+    throw new OidcError("invalid_token", "The ID token was issued for a different issuer or client.");
+  }
+  if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) throw new OidcError("invalid_token", "The ID token has expired.");
+  if (claims.nonce !== saved.nonce) throw new OidcError("invalid_token", "The ID token nonce does not match this sign-in.");
+  if (typeof claims.sub !== "string" || !claims.sub) throw new OidcError("invalid_token", "The ID token has no subject.");
+
+  const role = roleFromClaims(settings, claims);
+  if (!role) throw new OidcError("no_role", `Your account has no PharmaGuard role in the "${settings.roleClaim}" claim.`);
+  const name = [claims.name, claims.preferred_username, claims.email].find((v): v is string => typeof v === "string" && !!v) || claims.sub;
+  return { sub: claims.sub, name, role, provider: "oidc" };
+}
@@ -0,0 +1,111 @@
+import { type ParsedVcf, type Zygosity, zygosityOf } from "./vcf";
+
+export type PanelVariant = { gene: string; allele: string; function: string; cpicLevel: string };
+
+/**
+ * Mirror of `TARGET_VARIANTS` in `pharma_guard/parser.py`; keep the two in sync. The
+ * offline rules, the diplotype replay and the bundled knowledge base all read this copy.
+ */
+export const TARGET_VARIANTS: Record<string, PanelVariant> = {
+  rs1065852: { gene: "CYP2D6", allele: "*4", function: "Poor metabolizer", cpicLevel: "A" },
+  rs3892097: { gene: "CYP2D6", allele: "*4", function: "Poor metabolizer", cpicLevel: "A" },
+  rs5030655: { gene: "CYP2D6", allele: "*6", function: "Poor metabolizer", cpicLevel: "A" },
+  rs5030865: { gene: "CYP2D6", allele: "*3", function: "Poor metabolizer", cpicLevel: "A" },
+
+  rs4244285: { gene: "CYP2C19", allele: "*2", function: "Loss of function", cpicLevel: "A" },
+  rs4986893: { gene: "CYP2C19", allele: "*3", function: "Loss of function", cpicLevel: "A" },
+  rs12248560: { gene: "CYP2C19", allele: "*17", function: "Gain of function", cpicLevel: "A" },
+
+  rs1799853: { gene: "CYP2C9", allele: "*2", function: "Reduced function", cpicLevel: "A" },
+  rs1057910: { gene: "CYP2C9", allele: "*3", function: "Reduced function", cpicLevel: "A" },
+  rs28371686: { gene: "CYP2C9", allele: "*5", function: "Reduced function", cpicLevel: "A" },
+  rs9332131: { gene: "CYP2C9", allele: "*6", function: "Reduced function", cpicLevel: "A" },
+
+  rs4149056: { gene: "SLCO1B1", allele: "*5", function: "Reduced function", cpicLevel: "A" },
+  rs2306283: { gene: "SLCO1B1", allele: "*1b", function: "Normal function", cpicLevel: "A" },
+
+  rs1800462: { gene: "TPMT", allele: "*2", function: "Loss of function", cpicLevel: "A" },
+  rs1800460: { gene: "TPMT", allele: "*3B", function: "Loss of function", cpicLevel: "A" },
+  rs1142345: { gene: "TPMT", allele: "*3C", function: "Loss of function", cpicLevel: "A" },
+
+  rs3918290: { gene: "DPYD", allele: "*2A", function: "Loss of function", cpicLevel: "A" },
+  rs55886062: { gene: "DPYD", allele: "*13", function: "Loss of function", cpicLevel: "A" },
+  rs67376798: { gene: "DPYD", allele: "*9B", function: "Reduced function", cpicLevel: "A" },
+  rs75017182: { gene: "DPYD", allele: "HapB3", function: "Reduced function", cpicLevel: "A" },
+};
+
+export const PANEL_GENES = [...new Set(Object.values(TARGET_VARIANTS).map((v) => v.gene))];
+
+export const REFERENCE_ALLELE = "*1";
+
+// Exact genotype strings, as in `get_diplotype`; anything else (multi-allelic, no call) is skipped there.
+export const HOM_ALT: ReadonlySet<string> = new Set(["1/1", "1|1"]);
+export const HET: ReadonlySet<string> = new Set(["0/1", "1/0", "0|1", "1|0"]);
+export const HOM_REF: ReadonlySet<string> = new Set(["0/0", "0|0"]);
+
+/** The two alleles `get_diplotype` collects for one call of `allele`, or `[]` for a genotype it skips. */
+export function allelesFromCall(allele: string, genotype: string): string[] {
+  if (HOM_ALT.has(genotype)) return [allele, allele];
+  if (HET.has(genotype)) return [REFERENCE_ALLELE, allele];
+  if (HOM_REF.has(genotype)) return [REFERENCE_ALLELE, REFERENCE_ALLELE];
+  return [];
+}
+
+/** Orders a pair the way the backend writes diplotypes: `*1` first, then by name. */
+export function orderAlleles(pair: [string, string]): [string, string] {
+  return [...pair].sort((a, b) => Number(a !== REFERENCE_ALLELE) - Number(b !== REFERENCE_ALLELE) || (a < b ? -1 : a > b ? 1 : 0)) as [string, string];
+}
+
+/** The end of `get_diplotype`: the first two alleles collected, ordered; `*1/*1` when there are fewer. */
+export function diplotypeFromAlleles(alleles: string[]): string {
+  if (alleles.length < 2) return `${REFERENCE_ALLELE}/${REFERENCE_ALLELE}`;
+  const [a, b] = orderAlleles([alleles[0], alleles[1]]);
+  return `${a}/${b}`;
+}
+
+export type PanelHit = PanelVariant & { rsid: string; genotype: string; zygosity: Zygosity };
+
+/**
+ * covered:  at least one panel rsID is present with a called genotype
+ * no_call:  panel rsIDs are present but every genotype is missing (`./.`)
+ * missing:  none of the gene's panel rsIDs appear in the file
+ */
+export type CoverageStatus = "covered" | "no_call" | "missing";
+
+export type GeneCoverage = {
+  gene: string;
+  status: CoverageStatus;
+  panelSize: number;
+  hits: PanelHit[];
+};
+
+export function panelRsidsFor(gene: string): string[] {
+  return Object.entries(TARGET_VARIANTS)
+    .filter(([, v]) => v.gene === gene)
+    .map(([rsid]) => rsid);
+}
+
+/** Matches rows on the exact ID column, as the backend does, and groups them by panel gene. */
+export function findPanelHits(vcf: ParsedVcf): PanelHit[] {
+  const hits: PanelHit[] = [];
+  for (const record of vcf.records) {
+    const panel = TARGET_VARIANTS[record.id];
+    if (!panel) continue;
+    hits.push({ ...panel, rsid: record.id, genotype: record.genotype, zygosity: zygosityOf(record.genotype) });
+  }
+  return hits;
+}
+
+export function summarizeCoverage(vcf: ParsedVcf): GeneCoverage[] {
+  const hits = findPanelHits(vcf);
+  return PANEL_GENES.map((gene) => {
+    const geneHits = hits.filter((h) => h.gene === gene);
+    const called = geneHits.some((h) => h.zygosity !== "no_call");
+    return {
+      gene,
+      status: !geneHits.length ? "missing" : called ? "covered" : "no_call",
+      panelSize: panelRsidsFor(gene).length,
+      hits: geneHits,
+    };
+  });
+}
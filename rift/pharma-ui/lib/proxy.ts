@@ -0,0 +1,180 @@
+import { createHash, createHmac } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { canAnalyze, type Role } from "./roles";
+import { SESSION_COOKIE, type SessionPayload, verifySession } from "./session";
+import type { ApiErrorCode } from "./types";
+import { checkVcfFile, stripIdentifyingHeaders } from "./vcf";
+
+/**
+ * Server side of the `/api/analyze*`, `/api/audit` and `/api/service` routes: the
+ * browser talks only to the console, which checks the session, re-validates and
+ * scrubs the VCF, rate-limits, signs the request and forwards it to the backend.
+ *   PHARMAGUARD_API_URL     backend base URL (NEXT_PUBLIC_API_URL still works as a fallback)
+ *   PROXY_SIGNING_SECRET    shared with the backend; when set, it only accepts signed requests
+ *   RATE_LIMIT_PER_MINUTE   analysis calls per user per minute, default 30
+ *   BACKEND_TIMEOUT_MS      for the one-shot endpoints, default 120000; streams run until done
+ */
+
+export function apiError(code: ApiErrorCode, detail: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json({ code, detail }, { status, headers });
+}
+
+function backendUrl(): string | null {
+  const base = process.env.PHARMAGUARD_API_URL || process.env.NEXT_PUBLIC_API_URL;
+  return base ? base.replace(/\/+$/, "") : null;
+}
+
+export type ProxySession = { payload: SessionPayload; token: string };
+
+/** The caller's session, or the error response to return instead. */
+export async function requireSession(roles: (role: Role) => boolean): Promise<ProxySession | NextResponse> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const payload = await verifySession(token);
+  if (!payload || !token) return apiError("unauthenticated", "Your session has expired. Sign in again.", 401);
+  if (!roles(payload.role)) return apiError("forbidden", "Your role does not allow this action.", 403);
+  return { payload, token };
+}
+
+const WINDOW_MS = 60_000;
+const recentCalls = new Map<string, number[]>();
+
+/** Drops users with no call inside the window, so the map only holds active users. */
+function pruneIdleWindows(now: number) {
+  for (const [userId, calls] of recentCalls) {
+    if (!calls.length || now - calls[calls.length - 1] >= WINDOW_MS) recentCalls.delete(userId);
+  }
+}
+
+/**
+ * Sliding one-minute window per user, in process memory: enough for one console
+ * instance. Returns the seconds to wait when the user is over the limit; the cohort
+ * runner waits that long and retries.
+ */
+export function rateLimit(userId: string, now = Date.now()): number {
+  const limit = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+  pruneIdleWindows(now);
+  const calls = (recentCalls.get(userId) || []).filter((t) => now - t < WINDOW_MS);
+  if (calls.length >= limit) {
+    recentCalls.set(userId, calls);
+    return Math.max(1, Math.ceil((calls[0] + WINDOW_MS - now) / 1000));
+  }
+  calls.push(now);
+  recentCalls.set(userId, calls);
+  return 0;
+}
+
+/**
+ * Re-checks the uploaded VCF with the browser's rules and rebuilds the form with a
+ * scrubbed copy. Server-side file paths (`vcf_path`) are never forwarded.
+ */
+export async function sanitizeAnalysisForm(form: FormData): Promise<{ form: FormData; strippedLines: number } | NextResponse> {
+  const file = form.get("vcf");
+  if (!(file instanceof File)) return apiError("missing_file", "Attach a VCF file in the `vcf` field.", 400);
+  const issue = await checkVcfFile(file);
+  if (issue) return apiError(issue.code, issue.message.replace(/^Upload Failed: /, ""), 400);
+
+  const scrubbed = stripIdentifyingHeaders(await file.text());
+  const out = new FormData();
+  for (const [key, value] of form) {
+    if (key !== "vcf" && key !== "vcf_path" && typeof value === "string") out.append(key, value);
+  }
+  out.append("vcf", new File([scrubbed.text], file.name, { type: file.type || "text/plain" }));
+  return { form: out, strippedLines: scrubbed.removedMetaLines };
+}
+
+/** Maps a backend error to a console error code, so the browser never parses backend wording. */
+function normalizeBackendError(status: number, body: unknown): NextResponse {
+  const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const detail = typeof record.detail === "string" ? record.detail : typeof record.error === "string" ? record.error : `Backend returned ${status}.`;
+  const text = detail.toLowerCase();
+  if (record.code === "invalid_signature") return apiError("backend_rejected_proxy", "The analysis server rejected the console's request signature.", 502);
+  if (status === 401) return apiError("unauthenticated", "Your session has expired. Sign in again.", 401);
+  if (status === 403) return apiError("forbidden", detail, 403);
+  if (status === 404) return apiError("not_supported", detail, 404);
+  if (status === 429) return apiError("rate_limited", detail, 429);
+  if (status < 500) {
+    if (text.includes("file must be a .vcf")) return apiError("invalid_file_type", detail, status);
+    if (text.includes("exceeds 5mb")) return apiError("file_too_large", detail, status);
+    return apiError("invalid_request", detail, status);
+  }
+  return apiError("backend_error", detail, 500);
+}
+
+type ForwardOptions = {
+  session?: ProxySession;
+  method?: "GET" | "POST";
+  body?: FormData;
+  signal: AbortSignal;
+  /** One-shot calls time out; streams are bounded only by the caller disconnecting. */
+  stream?: boolean;
+};
+
+/**
+ * Sends the request to the backend with the user's session as a bearer token and,
+ * when PROXY_SIGNING_SECRET is set, an HMAC over timestamp, method, path and body
+ * (`pharma_guard/signing.py` verifies it). Returns the backend response untouched
+ * when it is 2xx and a normalized error response otherwise.
+ */
+export async function forward(path: string, options: ForwardOptions): Promise<Response> {
+  const base = backendUrl();
+  if (!base) return apiError("backend_not_configured", "The analysis server URL is not configured (PHARMAGUARD_API_URL).", 503);
+
+  const method = options.method || "GET";
+  const headers = new Headers({ accept: options.stream ? "application/x-ndjson" : "application/json" });
+  let body: ArrayBuffer | undefined;
+  if (options.body) {
+    // Serialize once so the signature covers the exact bytes (and boundary) that are sent.
+    const encoded = new Request("http://localhost", { method: "POST", body: options.body });
+    body = await encoded.arrayBuffer();
+    headers.set("content-type", encoded.headers.get("content-type") || "");
+  }
+  if (options.session) headers.set("authorization", `Bearer ${options.session.token}`);
+  const secret = process.env.PROXY_SIGNING_SECRET;
+  if (secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const digest = createHash("sha256").update(Buffer.from(body || new ArrayBuffer(0))).digest("hex");
+    headers.set("x-pharmaguard-timestamp", timestamp);
+    headers.set("x-pharmaguard-signature", createHmac("sha256", secret).update(`${timestamp}\n${method}\n${path}\n${digest}`).digest("hex"));
+  }
+
+  const timeout = Number(process.env.BACKEND_TIMEOUT_MS) || 120_000;
+  const signal = options.stream ? options.signal : AbortSignal.any([options.signal, AbortSignal.timeout(timeout)]);
+  let res: Response;
+  try {
+    res = await fetch(`${base}${path}`, { method, headers, body, signal, cache: "no-store" });
+  } catch (e) {
+    if (options.signal.aborted) throw e;
+    if (e instanceof DOMException && e.name === "TimeoutError") return apiError("backend_timeout", "The analysis server took too long to answer.", 504);
+    return apiError("backend_unreachable", "The analysis server could not be reached.", 502);
+  }
+  if (res.ok) return res;
+  return normalizeBackendError(res.status, await res.json().catch(() => null));
+}
+
+/** Relays a 2xx backend response: JSON as-is, NDJSON streamed through. */
+export function relay(res: Response, extraHeaders: Record<string, string> = {}): Response {
+  const headers = new Headers({ "cache-control": "no-store", ...extraHeaders });
+  headers.set("content-type", res.headers.get("content-type") || "application/json");
+  return new Response(res.body, { status: res.status, headers });
+}
+
+/**
+ * Shared handler for the analysis routes: session, VCF checks, rate limit, then forward.
+ * Only uploads that pass the checks count against the limit.
+ */
+export async function proxyAnalysis(request: Request, path: string, stream = false): Promise<Response> {
+  const session = await requireSession(canAnalyze);
+  if (session instanceof NextResponse) return session;
+
+  const form = await request.formData().catch(() => null);
+  if (!form) return apiError("invalid_request", "Send the analysis as multipart form data.", 400);
+  const sanitized = await sanitizeAnalysisForm(form);
+  if (sanitized instanceof NextResponse) return sanitized;
+
+  const wait = rateLimit(session.payload.sub);
+  if (wait) return apiError("rate_limited", `Too many analyses in the last minute. Try again in ${wait} s.`, 429, { "retry-after": String(wait) });
+
+  const res = await forward(path, { session, method: "POST", body: sanitized.form, signal: request.signal, stream });
+  return res.ok ? relay(res, { "x-pharmaguard-stripped-headers": String(sanitized.strippedLines) }) : res;
+}
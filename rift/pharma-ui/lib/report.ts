@@ -0,0 +1,265 @@
+import { DECISION_LABELS, decisionFor, effectiveCard } from "./review";
+import { toneFor, toRiskCards } from "./risk";
+import type { AnalysisResult } from "./types";
+import { dbSnpUrl } from "./variants";
+
+export const REPORT_DISCLAIMER =
+  "PharmaGuard is intended for research and educational purposes only. It is not a substitute for licensed clinical decision-making or professional medical advice. Verify every recommendation against current CPIC guidelines before acting on it.";
+
+export type ReportModel = {
+  patientId: string;
+  timestamp: string;
+  generatedAt: string;
+  /** Label and recommendation as decided: the clinician's on overridden rows. */
+  riskRows: Array<{ drug: string; label: string; severity: string; confidence: string; recommendation: string; review: string }>;
+  reviewRows: Array<{ drug: string; decision: string; engine: string; clinician: string; reason: string; reviewer: string }>;
+  /** "Signed by ..." once signed; otherwise says the report is unsigned. */
+  signOff: string;
+  profileRows: Array<{ drug: string; gene: string; phenotype: string; diplotype: string }>;
+  variantRows: Array<{ rsid: string; gene: string; allele: string; genotype: string; url: string }>;
+  warnings: Array<{ warning: string; note: string }>;
+  notes: string[];
+};
+
+/** Collects everything a printed report shows, independent of the output format. */
+export function buildReportModel(analysis: AnalysisResult, notes: string[]): ReportModel {
+  const cards = analysis.kind === "single" ? toRiskCards(analysis.data, null) : toRiskCards(null, analysis.data);
+  const review = analysis.data.clinician_review;
+
+  const variantRows: ReportModel["variantRows"] = [];
+  const warnings: ReportModel["warnings"] = [];
+  if (analysis.kind === "single") {
+    const explanation = analysis.data.llm_generated_explanation;
+    const citations = [...(explanation?.citations || []), ...(explanation?.variant_citations || [])];
+    const urlFor = new Map(citations.filter((c) => c.rsid && c.dbSNP_url).map((c) => [c.rsid as string, c.dbSNP_url as string]));
+    const profile = analysis.data.pharmacogenomic_profile;
+    for (const v of profile?.detected_variants || []) {
+      if (!v.rsid) continue;
+      variantRows.push({
+        rsid: v.rsid,
+        gene: v.gene || profile?.primary_gene || "N/A",
+        allele: v.allele || "N/A",
+        genotype: v.genotype || "N/A",
+        url: urlFor.get(v.rsid) || dbSnpUrl(v.rsid),
+      });
+    }
+  } else {
+    for (const w of analysis.data.polypharmacy_warnings || []) {
+      warnings.push({ warning: w.warning || "Polypharmacy warning", note: w.clinical_note || "" });
+    }
+  }
+
+  return {
+    patientId: analysis.data.patient_id || "N/A",
+    timestamp: analysis.data.timestamp || "N/A",
+    generatedAt: new Date().toISOString(),
+    riskRows: cards.map((c) => {
+      const decision = decisionFor(review, c.drug);
+      const shown = effectiveCard(c, decision);
+      const note = decision?.decision === "overridden" ? `Overridden (engine: ${c.label})` : decision ? DECISION_LABELS[decision.decision] : "Not reviewed";
+      return { drug: c.drug, label: shown.label, severity: c.severity, confidence: `${c.confidence}%`, recommendation: shown.recommendation, review: note };
+    }),
+    reviewRows: (review?.decisions || []).map((d) => ({
+      drug: d.drug,
+      decision: DECISION_LABELS[d.decision],
+      engine: `${d.engine.risk_label}: ${d.engine.recommendation}`,
+      clinician: d.clinician ? `${d.clinician.risk_label}: ${d.clinician.recommendation}` : "",
+      reason: d.reason || "",
+      reviewer: `${d.reviewer}, ${d.reviewed_at}`,
+    })),
+    signOff: review?.signed_off
+      ? `Signed by ${review.signed_off.reviewer} (${review.signed_off.role}) on ${review.signed_off.signed_at}`
+      : "Not signed off by a reviewer",
+    profileRows: cards.map((c) => ({ drug: c.drug, gene: c.gene, phenotype: c.phenotype, diplotype: c.diplotype })),
+    variantRows,
+    warnings,
+    notes,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const NAVY_RGB: [number, number, number] = [15, 76, 129];
+const TONE_FILL: Record<string, [number, number, number]> = {
+  safe: [236, 253, 245],
+  adjust: [255, 251, 235],
+  toxic: [254, 242, 242],
+};
+
+/**
+ * Renders the report with jsPDF. The libraries are imported lazily so they only
+ * load when a clinician asks for a report; both are bundled, so this works offline.
+ */
+export async function renderPdfReport(model: ReportModel): Promise<Blob> {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")]);
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 40;
+  const endY = () => (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? margin;
+  // Start a fresh page rather than leave a section title orphaned above the footer.
+  const nextY = () => {
+    const y = endY() + 24;
+    if (y < pageHeight - 140) return y;
+    doc.addPage();
+    return margin;
+  };
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.setTextColor(...NAVY_RGB);
+  doc.text("PharmaGuard Pharmacogenomic Report", margin, margin + 6);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59);
+  doc.text(`Patient: ${model.patientId}`, margin, margin + 26);
+  doc.text(`Analysis timestamp: ${model.timestamp}`, margin, margin + 40);
+  doc.text(`Report generated: ${model.generatedAt}`, margin, margin + 54);
+  doc.text(model.signOff, margin, margin + 68);
+
+  const section = (title: string, y: number) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.setTextColor(...NAVY_RGB);
+    doc.text(title, margin, y);
+    return y + 6;
+  };
+  const tableDefaults = {
+    margin: { left: margin, right: margin, bottom: 60 },
+    styles: { fontSize: 8.5, cellPadding: 4, overflow: "linebreak" as const },
+    headStyles: { fillColor: NAVY_RGB, textColor: 255 },
+  };
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: section("Risk Matrix", margin + 94),
+    head: [["Drug", "Risk", "Severity", "Confidence", "Recommendation", "Review"]],
+    body: model.riskRows.map((r) => [r.drug, r.label, r.severity, r.confidence, r.recommendation, r.review]),
+    columnStyles: { 4: { cellWidth: 180 } },
+    didParseCell: (data) => {
+      if (data.section !== "body" || data.column.index !== 1) return;
+      const fill = TONE_FILL[toneFor(String(data.cell.raw))];
+      if (fill) data.cell.styles.fillColor = fill;
+      data.cell.styles.fontStyle = "bold";
+    },
+  });
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: section("Gene / Phenotype / Diplotype", nextY()),
+    head: [["Drug", "Gene", "Phenotype", "Diplotype"]],
+    body: model.profileRows.map((r) => [r.drug, r.gene, r.phenotype, r.diplotype]),
+  });
+
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: section("Detected Variants", nextY()),
+    head: [["rsID", "Gene", "Allele", "Genotype", "dbSNP"]],
+    body: model.variantRows.length
+      ? model.variantRows.map((v) => [v.rsid, v.gene, v.allele, v.genotype, v.url])
+      : [["No variant-level detail in this result.", "", "", "", ""]],
+    didDrawCell: (data) => {
+      if (data.section !== "body" || data.column.index !== 4 || !model.variantRows[data.row.index]) return;
+      doc.link(data.cell.x, data.cell.y, data.cell.width, data.cell.height, { url: model.variantRows[data.row.index].url });
+    },
+  });
+
+  if (model.reviewRows.length) {
+    autoTable(doc, {
+      ...tableDefaults,
+      startY: section("Clinician Review", nextY()),
+      head: [["Drug", "Decision", "Engine said", "Clinician decided", "Reason", "Reviewer"]],
+      body: model.reviewRows.map((r) => [r.drug, r.decision, r.engine, r.clinician, r.reason, r.reviewer]),
+      headStyles: { fillColor: [124, 58, 237], textColor: 255 },
+    });
+  }
+
+  if (model.warnings.length) {
+    autoTable(doc, {
+      ...tableDefaults,
+      startY: section("Polypharmacy Warnings", nextY()),
+      head: [["Warning", "Clinical note"]],
+      body: model.warnings.map((w) => [w.warning, w.note]),
+      headStyles: { fillColor: [185, 28, 28], textColor: 255 },
+    });
+  }
+
+  if (model.notes.length) {
+    autoTable(doc, {
+      ...tableDefaults,
+      startY: section("Annotation Notes", nextY()),
+      body: model.notes.map((n) => [n]),
+      theme: "plain",
+    });
+  }
+
+  // Footer goes on last so the page count is final.
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page += 1) {
+    doc.setPage(page);
+    doc.setDrawColor(203, 213, 225);
+    doc.line(margin, pageHeight - 50, pageWidth - margin, pageHeight - 50);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7.5);
+    doc.setTextColor(100, 116, 139);
+    doc.text(doc.splitTextToSize(REPORT_DISCLAIMER, pageWidth - margin * 2 - 60), margin, pageHeight - 38);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - margin, pageHeight - 38, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function esc(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch] as string);
+}
+
+function htmlTable(head: string[], rows: string[][]): string {
+  return `<table><thead><tr>${head.map((h) => `<th>${esc(h)}</th>`).join("")}</tr></thead><tbody>${rows
+    .map((r) => `<tr>${r.map((c) => `<td>${c}</td>`).join("")}</tr>`)
+    .join("")}</tbody></table>`;
+}
+
+/** Self-contained print-ready HTML; cell values are escaped, links are built from escaped URLs. */
+export function renderHtmlReport(model: ReportModel): string {
+  const variants = model.variantRows.length
+    ? htmlTable(
+        ["rsID", "Gene", "Allele", "Genotype", "dbSNP"],
+        model.variantRows.map((v) => [esc(v.rsid), esc(v.gene), esc(v.allele), esc(v.genotype), `<a href="${esc(v.url)}">${esc(v.url)}</a>`]),
+      )
+    : "<p>No variant-level detail in this result.</p>";
+
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>PharmaGuard report - ${esc(model.patientId)}</title>
+<style>
+@page { size: A4; margin: 18mm 16mm 24mm; }
+body { font: 11px/1.45 "Segoe UI", Helvetica, Arial, sans-serif; color: #1E293B; }
+h1 { color: #0F4C81; font-size: 18px; margin: 0 0 6px; }
+h2 { color: #0F4C81; font-size: 13px; margin: 18px 0 6px; break-after: avoid; }
+table { width: 100%; border-collapse: collapse; }
+th { background: #0F4C81; color: #fff; text-align: left; }
+th, td { border: 1px solid #CBD5E1; padding: 4px 6px; vertical-align: top; }
+tr { break-inside: avoid; }
+.warn td { background: #FEF2F2; }
+footer { margin-top: 24px; border-top: 1px solid #CBD5E1; padding-top: 6px; color: #64748B; font-size: 9px; }
+@media print { footer { position: fixed; bottom: 0; left: 0; right: 0; } }
+</style></head><body>
+<h1>PharmaGuard Pharmacogenomic Report</h1>
+<p>Patient: <strong>${esc(model.patientId)}</strong><br>Analysis timestamp: ${esc(model.timestamp)}<br>Report generated: ${esc(model.generatedAt)}<br>${esc(model.signOff)}</p>
+<h2>Risk Matrix</h2>
+${htmlTable(["Drug", "Risk", "Severity", "Confidence", "Recommendation", "Review"], model.riskRows.map((r) => [esc(r.drug), `<strong>${esc(r.label)}</strong>`, esc(r.severity), esc(r.confidence), esc(r.recommendation), esc(r.review)]))}
+<h2>Gene / Phenotype / Diplotype</h2>
+${htmlTable(["Drug", "Gene", "Phenotype", "Diplotype"], model.profileRows.map((r) => [esc(r.drug), esc(r.gene), esc(r.phenotype), esc(r.diplotype)]))}
+<h2>Detected Variants</h2>
+${variants}
+${model.reviewRows.length ? `<h2>Clinician Review</h2>${htmlTable(["Drug", "Decision", "Engine said", "Clinician decided", "Reason", "Reviewer"], model.reviewRows.map((r) => [esc(r.drug), esc(r.decision), esc(r.engine), esc(r.clinician), esc(r.reason), esc(r.reviewer)]))}` : ""}
+${model.warnings.length ? `<h2>Polypharmacy Warnings</h2><div class="warn">${htmlTable(["Warning", "Clinical note"], model.warnings.map((w) => [esc(w.warning), esc(w.note)]))}</div>` : ""}
+${model.notes.length ? `<h2>Annotation Notes</h2><ul>${model.notes.map((n) => `<li>${esc(n)}</li>`).join("")}</ul>` : ""}
+<footer>${esc(REPORT_DISCLAIMER)}</footer>
+</body></html>`;
+}
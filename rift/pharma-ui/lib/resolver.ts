@@ -0,0 +1,129 @@
+import type { KnowledgeBase } from "./knowledge";
+
+export type DrugMatch = {
+  /** Canonical drug name the backend accepts. */
+  drug: string;
+  /** The name or synonym that matched the query. */
+  matched: string;
+  kind: "exact" | "synonym" | "prefix" | "fuzzy";
+  /** 0..1, higher is better. */
+  score: number;
+};
+
+export type DrugResolution =
+  | { status: "resolved"; input: string; drug: string; via?: string }
+  | { status: "unsupported"; input: string; suggestions: string[] };
+
+/** Splits a typed or imported list on commas into upper-case tokens. */
+export function parseDrugTokens(input: string): string[] {
+  return input
+    .split(",")
+    .map((d) => d.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/** Fuzzy matches below this similarity are not offered at all. */
+const MIN_SIMILARITY = 0.6;
+/** A fuzzy match is applied without asking only when it is this close and clearly ahead of the runner-up. */
+const AUTO_RESOLVE_SIMILARITY = 0.8;
+/**
+ * ...and is at most this many edits away from a name at least this long. Shorter or
+ * more distant near-misses are often a different drug, so they are only suggested.
+ */
+const AUTO_RESOLVE_MAX_EDITS = 2;
+const AUTO_RESOLVE_MIN_LENGTH = 8;
+
+/** Case, spaces and punctuation carry no meaning in drug names: "5-FU", "5 fu" and "5FU" are the same. */
+function normalize(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent transpositions). */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i += 1) {
+    for (let j = 1; j < cols; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** A leading addition or removal (es-, dex-, lev-, ar-) names a different drug, e.g. esomeprazole vs omeprazole. */
+function differsByLeadingLetters(a: string, b: string): boolean {
+  return a !== b && (a.endsWith(b) || b.endsWith(a));
+}
+
+/** True when `query` reads as a misspelling of `name` rather than another drug. */
+function isTypo(query: string, name: string): boolean {
+  const q = normalize(query);
+  const target = normalize(name);
+  return target.length >= AUTO_RESOLVE_MIN_LENGTH && editDistance(q, target) <= AUTO_RESOLVE_MAX_EDITS && !differsByLeadingLetters(q, target);
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest ? 1 - editDistance(a, b) / longest : 1;
+}
+
+function scoreName(query: string, name: string, isSynonym: boolean): Omit<DrugMatch, "drug" | "matched"> | null {
+  const target = normalize(name);
+  if (!target) return null;
+  if (query === target) return { kind: isSynonym ? "synonym" : "exact", score: isSynonym ? 0.99 : 1 };
+  if (query.length >= 3 && target.startsWith(query)) return { kind: "prefix", score: 0.7 + 0.3 * (query.length / target.length) };
+  const score = similarity(query, target);
+  return score >= MIN_SIMILARITY ? { kind: "fuzzy", score } : null;
+}
+
+/** Best match per drug across its name and synonyms, highest score first. */
+export function rankDrugMatches(kb: KnowledgeBase, query: string, limit = 5): DrugMatch[] {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const best = new Map<string, DrugMatch>();
+  for (const drug of kb.drugs) {
+    const names: Array<[string, boolean]> = [[drug.name, false], ...drug.synonyms.map((s): [string, boolean] => [s, true])];
+    for (const [name, isSynonym] of names) {
+      const scored = scoreName(q, name, isSynonym);
+      if (!scored) continue;
+      const current = best.get(drug.name);
+      if (!current || scored.score > current.score) best.set(drug.name, { drug: drug.name, matched: name, ...scored });
+    }
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score || a.drug.localeCompare(b.drug)).slice(0, limit);
+}
+
+/**
+ * Maps one typed token to a canonical drug. Exact names, synonyms and brand names
+ * always resolve; a prefix or misspelling resolves only when it is unambiguous, and
+ * a misspelling only when it is a short edit of a long name. Anything else comes
+ * back `unsupported` with ranked suggestions, so the UI can stop before the backend
+ * answers "Unknown" or analyzes a different drug than the one on the list.
+ */
+export function resolveDrug(kb: KnowledgeBase, input: string): DrugResolution {
+  const [top, runnerUp] = rankDrugMatches(kb, input, 5);
+  if (top) {
+    const decisive = top.kind === "exact" || top.kind === "synonym";
+    const clearLead = top.score >= AUTO_RESOLVE_SIMILARITY && (!runnerUp || top.score - runnerUp.score >= 0.1) && (top.kind !== "fuzzy" || isTypo(input, top.matched));
+    if (decisive || clearLead) {
+      return { status: "resolved", input, drug: top.drug, ...(top.kind === "exact" ? {} : { via: top.matched }) };
+    }
+  }
+  return { status: "unsupported", input, suggestions: rankDrugMatches(kb, input, 3).map((m) => m.drug) };
+}
+
+/** Resolves a comma-separated list; canonical names are de-duplicated in input order. */
+export function resolveDrugList(kb: KnowledgeBase, tokens: string[]): { drugs: string[]; unsupported: Array<Extract<DrugResolution, { status: "unsupported" }>> } {
+  const drugs: string[] = [];
+  const unsupported: Array<Extract<DrugResolution, { status: "unsupported" }>> = [];
+  for (const token of tokens) {
+    const result = resolveDrug(kb, token);
+    if (result.status === "unsupported") unsupported.push(result);
+    else if (!drugs.includes(result.drug)) drugs.push(result.drug);
+  }
+  return { drugs, unsupported };
+}
@@ -0,0 +1,105 @@
+import type { RiskCard } from "./risk";
+import { ROLE_LABELS, type SessionUser } from "./roles";
+import type { AnalysisResult, ClinicianReview, DrugReview, ReviewDecision } from "./types";
+
+/**
+ * Reviewer decisions on a result. The review lives in the result's `clinician_review`
+ * field, next to the untouched engine output, so the JSON download, history, the
+ * FHIR bundle and the printed report all show both.
+ */
+
+/** Labels the engine emits (`pharma_guard/engine.py`); an override picks one of these. */
+export const RISK_LABELS = ["Safe", "Adjust Dosage", "Toxic", "Ineffective", "Unknown"];
+
+export const DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: "Accepted",
+  overridden: "Overridden",
+  flagged: "Flagged",
+};
+
+/** The decision could not be recorded; the message is shown next to the card. */
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export function reviewOf(analysis: AnalysisResult | null): ClinicianReview | undefined {
+  return analysis?.data.clinician_review;
+}
+
+export function isSigned(review?: ClinicianReview): boolean {
+  return !!review?.signed_off;
+}
+
+export function decisionFor(review: ClinicianReview | undefined, drug: string): DrugReview | undefined {
+  return review?.decisions.find((d) => d.drug === drug);
+}
+
+/** Label and recommendation to act on: the clinician's when overridden, the engine's otherwise. */
+export function effectiveCard(card: RiskCard, decision?: DrugReview): RiskCard {
+  if (decision?.decision !== "overridden" || !decision.clinician) return card;
+  return { ...card, label: decision.clinician.risk_label, recommendation: decision.clinician.recommendation };
+}
+
+type DecisionInput = {
+  decision: ReviewDecision;
+  riskLabel?: string;
+  recommendation?: string;
+  reason?: string;
+};
+
+/** Records (or replaces) the reviewer's decision on one card. Throws {@link ReviewError} on a signed review or an incomplete override. */
+export function decide(review: ClinicianReview | undefined, card: RiskCard, input: DecisionInput, reviewer: SessionUser): ClinicianReview {
+  if (isSigned(review)) throw new ReviewError("This report is signed; decisions can no longer change.");
+  const reason = input.reason?.trim() || undefined;
+  const entry: DrugReview = {
+    drug: card.drug,
+    decision: input.decision,
+    engine: { risk_label: card.label, recommendation: card.recommendation },
+    reviewer: reviewer.name,
+    reviewed_at: new Date().toISOString(),
+    ...(reason ? { reason } : {}),
+  };
+  if (input.decision === "overridden") {
+    const riskLabel = input.riskLabel || card.label;
+    const recommendation = input.recommendation?.trim() || card.recommendation;
+    if (riskLabel === card.label && recommendation === card.recommendation) throw new ReviewError("Change the risk label or the recommendation to override.");
+    if (!reason) throw new ReviewError("Give a reason for the override.");
+    entry.clinician = { risk_label: riskLabel, recommendation };
+  }
+  return { decisions: [...(review?.decisions || []).filter((d) => d.drug !== card.drug), entry] };
+}
+
+export function undoDecision(review: ClinicianReview | undefined, drug: string): ClinicianReview | undefined {
+  if (!review || isSigned(review)) return review;
+  return { decisions: review.decisions.filter((d) => d.drug !== drug) };
+}
+
+/** Drugs still waiting for a decision; the report can only be signed once this is empty. */
+export function pendingDrugs(review: ClinicianReview | undefined, cards: RiskCard[]): string[] {
+  return cards.filter((c) => !decisionFor(review, c.drug)).map((c) => c.drug);
+}
+
+export function signReview(review: ClinicianReview | undefined, cards: RiskCard[], reviewer: SessionUser): ClinicianReview {
+  if (isSigned(review)) throw new ReviewError("This report is already signed.");
+  const pending = pendingDrugs(review, cards);
+  if (pending.length) throw new ReviewError(`Accept, override or flag ${pending.join(", ")} before signing.`);
+  return {
+    decisions: review?.decisions || [],
+    signed_off: { reviewer: reviewer.name, role: ROLE_LABELS[reviewer.role], signed_at: new Date().toISOString() },
+  };
+}
+
+export function withReview(analysis: AnalysisResult, review: ClinicianReview | undefined): AnalysisResult {
+  return analysis.kind === "single"
+    ? { kind: "single", data: { ...analysis.data, clinician_review: review } }
+    : { kind: "batch", data: { ...analysis.data, clinician_review: review } };
+}
+
+/** One line per decision for exports, e.g. "WARFARIN: overridden to Toxic by Dr. Lee. Reason: ...". */
+export function describeDecision(d: DrugReview): string {
+  const what = d.decision === "overridden" && d.clinician ? `overridden from ${d.engine.risk_label} to ${d.clinician.risk_label}` : DECISION_LABELS[d.decision].toLowerCase();
+  return `${d.drug}: ${what} by ${d.reviewer} at ${d.reviewed_at}${d.reason ? `. Reason: ${d.reason}` : ""}`;
+}
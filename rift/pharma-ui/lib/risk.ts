@@ -0,0 +1,91 @@
+import { ADJUST, MUTED, SAFE, TOXIC } from "./theme";
+import type { BatchResult, SingleResult, Tone } from "./types";
+
+export type RiskCard = {
+  drug: string;
+  label: string;
+  severity: string;
+  confidence: number;
+  gene: string;
+  phenotype: string;
+  diplotype: string;
+  recommendation: string;
+};
+
+export function toneFor(label?: string): Tone {
+  const v = (label || "").toLowerCase();
+  if (v === "safe") return "safe";
+  if (v.includes("adjust")) return "adjust";
+  if (v.includes("toxic") || v.includes("ineffective")) return "toxic";
+  return "unknown";
+}
+
+export function toneColor(tone: Tone) {
+  if (tone === "safe") return SAFE;
+  if (tone === "adjust") return ADJUST;
+  if (tone === "toxic") return TOXIC;
+  return MUTED;
+}
+
+export function riskColor(label?: string) {
+  return toneColor(toneFor(label));
+}
+
+export function toneBadgeStyle(tone: Tone) {
+  return { borderColor: `var(--pg-${tone}-line)`, background: `var(--pg-${tone}-soft)`, color: toneInk(tone) };
+}
+
+export function riskBadgeStyle(label?: string) {
+  return toneBadgeStyle(toneFor(label));
+}
+
+/** Text colour for a tone; the stripe colours are too light for text on white. */
+export function toneInk(tone: Tone) {
+  return `var(--pg-${tone}-ink)`;
+}
+
+export function riskInk(label?: string) {
+  return toneInk(toneFor(label));
+}
+
+/** Line style per tone, so a card's stripe still tells tones apart without colour. */
+export const TONE_STRIPE: Record<Tone, "solid" | "dashed" | "double" | "dotted"> = {
+  safe: "solid",
+  adjust: "dashed",
+  toxic: "double",
+  unknown: "dotted",
+};
+
+/** CSS border shorthand for a card's leading stripe. */
+export function riskStripe(label?: string, width = 6) {
+  const tone = toneFor(label);
+  return `${width}px ${TONE_STRIPE[tone]} ${toneColor(tone)}`;
+}
+
+/** Flattens either response shape into one card per drug. */
+export function toRiskCards(single: SingleResult | null, batch: BatchResult | null): RiskCard[] {
+  if (single) {
+    return [
+      {
+        drug: single.drug || "Unknown",
+        label: single.risk_assessment?.risk_label || "Unknown",
+        severity: single.risk_assessment?.severity || "unknown",
+        confidence: Math.round((single.risk_assessment?.confidence_score || 0) * 100),
+        gene: single.pharmacogenomic_profile?.primary_gene || "N/A",
+        phenotype: single.pharmacogenomic_profile?.phenotype || "N/A",
+        diplotype: single.pharmacogenomic_profile?.diplotype || "N/A",
+        recommendation: single.llm_generated_explanation?.recommendation || single.clinical_recommendation?.action || single.clinical_recommendation?.recommendation_text || "N/A",
+      },
+    ];
+  }
+  return Object.entries(batch?.results || {}).map(([drug, details]) => ({
+    drug,
+    label: details.risk_label || "Unknown",
+    severity: details.severity || "unknown",
+    confidence: Math.round((details.confidence_score || 0) * 100),
+    gene: details.gene || "N/A",
+    phenotype: details.phenotype || "N/A",
+    diplotype: details.diplotype || "N/A",
+    recommendation: details.recommendation || "N/A",
+  }));
+}
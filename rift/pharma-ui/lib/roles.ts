@@ -0,0 +1,53 @@
+export type Role = "clinician" | "pharmacist" | "auditor";
+
+export const ROLES: Role[] = ["clinician", "pharmacist", "auditor"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  clinician: "Clinician",
+  pharmacist: "Pharmacist",
+  auditor: "Auditor (read-only)",
+};
+
+export type SessionUser = {
+  /** Stable id: the local username, or the OIDC `sub`. */
+  sub: string;
+  name: string;
+  role: Role;
+  provider: "local" | "oidc";
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+/** Clinicians and pharmacists run analyses; auditors only read the audit log. */
+export function canAnalyze(role: Role): boolean {
+  return role === "clinician" || role === "pharmacist";
+}
+
+export function canViewAudit(role: Role): boolean {
+  return role === "auditor";
+}
+
+/** Where a role lands after signing in. */
+export function homeFor(role: Role): string {
+  return canAnalyze(role) ? "/" : "/audit";
+}
+
+/**
+ * `next` when it resolves to a path on `origin`, otherwise the role's home; the proxy
+ * re-routes role mismatches. Resolving catches `/\host` and similar, which browsers
+ * read as another host. Only the path and query are returned.
+ */
+export function landingPath(role: Role, next: string | null | undefined, origin: string): string {
+  if (next?.startsWith("/")) {
+    try {
+      const base = new URL(origin);
+      const url = new URL(next, base);
+      if (url.origin === base.origin && !url.pathname.startsWith("/login")) return url.pathname + url.search;
+    } catch {
+      // Not a URL; fall back to the home page.
+    }
+  }
+  return homeFor(role);
+}
@@ -0,0 +1,323 @@
+import { allelesFromCall, diplotypeFromAlleles, HET, HOM_ALT, TARGET_VARIANTS } from "./panel";
+import type { ParsedVcf } from "./vcf";
+
+/**
+ * Browser port of the deterministic CPIC rules in `pharma_guard/parser.py` and
+ * `pharma_guard/engine.py`, limited to the six core drugs. It is what the server
+ * answers when the LLM is down, so any change to those files must be mirrored here.
+ */
+
+export type RuleVariant = {
+  rsid: string;
+  gene: string;
+  allele: string;
+  function: string;
+  genotype: string;
+  chromosome: string;
+  position: string;
+  ref: string;
+  alt: string;
+  quality_score?: number;
+  read_depth?: number;
+  filter: string;
+  has_gene_annotation: boolean;
+  has_star_annotation: boolean;
+  has_rsid_annotation: boolean;
+};
+
+export type RuleRisk = {
+  label: string;
+  severity: string;
+  phenotype: string;
+  diplotype: string;
+  gene: string;
+  recommendation: string;
+  cpic_level: string;
+};
+
+/** True for rows `parse_vcf_file` reads; every other row is ignored by the backend. */
+export function isTargetRsid(id: string): boolean {
+  return Object.hasOwn(TARGET_VARIANTS, id);
+}
+
+export const OFFLINE_DRUGS = ["CODEINE", "WARFARIN", "CLOPIDOGREL", "SIMVASTATIN", "AZATHIOPRINE", "FLUOROURACIL"];
+
+/** `parse_vcf_file`, minus the file handling: keeps target rsIDs and reads GT as the first sample subfield. */
+export function extractTargetVariants(vcf: ParsedVcf): RuleVariant[] {
+  const variants: RuleVariant[] = [];
+  for (const record of vcf.records) {
+    const target = TARGET_VARIANTS[record.id];
+    if (!target) continue;
+    const sample = record.sampleData[0];
+    const genotype = sample === undefined ? "./." : sample.split(":")[0];
+
+    let sampleDepth: number | undefined;
+    if (sample !== undefined && record.format && sample.includes(":")) {
+      const index = record.format.split(":").indexOf("DP");
+      const value = index >= 0 ? sample.split(":")[index] : undefined;
+      if (value !== undefined && /^[+-]?\d+$/.test(value.trim())) sampleDepth = Number(value);
+    }
+    const infoDepth = record.info.match(/(?:^|;)DP=(\d+)(?:;|$)/)?.[1];
+    const geneMatch = record.info.match(/GENE=([^;]+)/);
+
+    variants.push({
+      rsid: record.id,
+      gene: geneMatch ? geneMatch[1] : target.gene,
+      allele: target.allele,
+      function: target.function,
+      genotype,
+      chromosome: record.chrom,
+      position: String(record.pos),
+      ref: record.ref,
+      alt: record.alt,
+      quality_score: record.qual ?? undefined,
+      read_depth: sampleDepth ?? (infoDepth ? Number(infoDepth) : undefined),
+      filter: record.filter,
+      has_gene_annotation: !!geneMatch,
+      has_star_annotation: /(?:STAR|STAR_ALLELE)=([^;]+)/.test(record.info),
+      has_rsid_annotation: !!record.id && record.id !== ".",
+    });
+  }
+  return variants;
+}
+
+function variantsByGene(variants: RuleVariant[], gene: string) {
+  return variants.filter((v) => v.gene === gene);
+}
+
+/** `get_diplotype`: first two alleles collected, reference first. */
+export function getDiplotype(variants: RuleVariant[], gene: string): string {
+  return diplotypeFromAlleles(variantsByGene(variants, gene).flatMap((v) => allelesFromCall(v.allele, v.genotype)));
+}
+
+/** `get_phenotype` for the genes whose core drug reads it (SLCO1B1, TPMT and DPYD rules set their own). */
+function getPhenotype(gene: string, diplotype: string): string {
+  if (gene === "CYP2D6") {
+    if (["*4/*4", "*3/*3", "*5/*5", "*6/*6"].includes(diplotype)) return "PM";
+    if (["*1/*4", "*1/*3", "*1/*5", "*1/*6", "*2/*4", "*4/*41"].includes(diplotype)) return "IM";
+    if (["*1/*1", "*1/*2", "*2/*2"].includes(diplotype)) return "NM";
+    if (["*1/*1xN", "*2/*2xN", "*1/*2xN"].includes(diplotype)) return "UM";
+  } else if (gene === "CYP2C19") {
+    if (["*2/*2", "*3/*3", "*2/*3"].includes(diplotype)) return "PM";
+    if (["*1/*2", "*1/*3"].includes(diplotype)) return "IM";
+    if (diplotype === "*1/*1") return "NM";
+    if (["*1/*17", "*17/*17"].includes(diplotype)) return "RM";
+  } else if (gene === "CYP2C9") {
+    if (["*3/*3", "*2/*3"].includes(diplotype)) return "PM";
+    if (["*1/*2", "*1/*3", "*2/*2"].includes(diplotype)) return "IM";
+    if (diplotype === "*1/*1") return "NM";
+  }
+  return "Unknown";
+}
+
+function base(gene: string, diplotype: string, phenotype: string, recommendation: string, label = "Safe", severity = "none"): RuleRisk {
+  return { label, severity, phenotype, diplotype, gene, recommendation, cpic_level: "A" };
+}
+
+function codeine(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "CYP2D6");
+  const phenotype = getPhenotype("CYP2D6", diplotype);
+  const result = base("CYP2D6", diplotype, phenotype, "Use codeine with standard dosing.");
+  if (phenotype === "PM") {
+    return {
+      ...result,
+      label: "Toxic",
+      severity: "high",
+      recommendation:
+        "AVOID codeine. Poor metabolizers risk morphine toxicity. Use non-opioid analgesics or alternative opioids not dependent on CYP2D6 (e.g., morphine, hydromorphone).",
+    };
+  }
+  if (phenotype === "RM" || phenotype === "URM" || phenotype === "UM") {
+    return {
+      ...result,
+      label: "Toxic",
+      severity: "high",
+      recommendation:
+        "AVOID codeine. Ultra-rapid metabolizers have increased risk of life-threatening respiratory depression from rapid morphine formation. Use alternative analgesics.",
+    };
+  }
+  return result;
+}
+
+function warfarin(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "CYP2C9");
+  const phenotype = getPhenotype("CYP2C9", diplotype);
+  const vkorc1Present = variants.some((v) => v.gene === "VKORC1" || v.rsid === "rs9923231");
+  let result = base("CYP2C9", diplotype, phenotype, "Start with standard warfarin dosing (5mg/day). Monitor INR closely.", "Adjust Dosage", "moderate");
+  if (phenotype === "PM" || diplotype.includes("*2/*3") || diplotype.includes("*3/*3")) {
+    result = {
+      ...result,
+      severity: "high",
+      recommendation:
+        "SIGNIFICANTLY REDUCE warfarin dose. CYP2C9 poor metabolizers require 30-50% lower starting doses. Use pharmacogenetic dosing algorithms. Monitor INR frequently.",
+    };
+  } else if (phenotype === "IM" || ["*1/*2", "*1/*3", "*2/*2"].some((d) => diplotype.includes(d))) {
+    result = { ...result, severity: "moderate", recommendation: "REDUCE warfarin dose. CYP2C9 intermediate metabolizers require 20-30% lower starting doses. Monitor INR closely." };
+  }
+  if (vkorc1Present) result.recommendation += " VKORC1 variant detected - consider 40-50% dose reduction.";
+  return result;
+}
+
+function clopidogrel(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "CYP2C19");
+  const phenotype = getPhenotype("CYP2C19", diplotype);
+  const result = base("CYP2C19", diplotype, phenotype, "Use clopidogrel at standard dose (75mg/day).");
+  if (phenotype === "PM") {
+    return {
+      ...result,
+      label: "Ineffective",
+      severity: "high",
+      recommendation:
+        "AVOID clopidogrel. Poor metabolizers have significantly reduced active metabolite formation. Use alternative antiplatelet therapy: prasugrel or ticagrelor at standard doses.",
+    };
+  }
+  if (phenotype === "IM") {
+    return {
+      ...result,
+      label: "Ineffective",
+      severity: "moderate",
+      recommendation: "CONSIDER ALTERNATIVE to clopidogrel. Intermediate metabolizers have reduced platelet inhibition. Prasugrel or ticagrelor may be more effective.",
+    };
+  }
+  if (phenotype === "RM" || phenotype === "UM") {
+    return {
+      ...result,
+      label: "Adjust Dosage",
+      severity: "low",
+      recommendation:
+        "Rapid/ultrarapid metabolizers may have slightly increased active metabolite formation and bleeding risk. Standard dosing is likely appropriate with monitoring.",
+    };
+  }
+  return result;
+}
+
+function simvastatin(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "SLCO1B1");
+  const result = base("SLCO1B1", diplotype, "Normal function", "Use simvastatin at standard dose (up to 40mg/day).");
+  for (const v of variantsByGene(variants, "SLCO1B1").filter((v) => v.allele === "*5" || v.rsid === "rs4149056")) {
+    if (HOM_ALT.has(v.genotype)) {
+      return {
+        ...result,
+        label: "Toxic",
+        severity: "high",
+        phenotype: "Poor function",
+        recommendation:
+          "SIGNIFICANTLY REDUCE simvastatin dose or consider alternative statin. Homozygous SLCO1B1 variants have 200% higher statin exposure. Maximum recommended dose: 20mg/day with close monitoring for myopathy.",
+      };
+    }
+    if (HET.has(v.genotype)) {
+      return {
+        ...result,
+        label: "Adjust Dosage",
+        severity: "moderate",
+        phenotype: "Intermediate function",
+        recommendation:
+          "REDUCE simvastatin dose. Heterozygous SLCO1B1 variants have increased statin exposure. Maximum recommended dose: 40mg/day. Consider alternative statin (pravastatin, rosuvastatin) if higher doses needed.",
+      };
+    }
+  }
+  return result;
+}
+
+function azathioprine(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "TPMT");
+  const result = base("TPMT", diplotype, "Normal metabolizer", "Use azathioprine at standard dose (2-3 mg/kg/day).");
+  let variantCount = 0;
+  for (const v of variantsByGene(variants, "TPMT")) {
+    if (HOM_ALT.has(v.genotype)) variantCount += 2;
+    else if (HET.has(v.genotype)) variantCount += 1;
+  }
+  if (variantCount === 2) {
+    return {
+      ...result,
+      label: "Toxic",
+      severity: "critical",
+      phenotype: "Poor metabolizer",
+      recommendation:
+        "AVOID azathioprine. TPMT poor metabolizers risk life-threatening myelosuppression. Use alternative immunosuppressants (e.g., cyclosporine, tacrolimus) or reduce dose by 90% with extreme caution and frequent monitoring.",
+    };
+  }
+  if (variantCount === 1) {
+    return {
+      ...result,
+      label: "Adjust Dosage",
+      severity: "high",
+      phenotype: "Intermediate metabolizer",
+      recommendation:
+        "REDUCE azathioprine dose. TPMT intermediate metabolizers require 30-70% dose reduction. Start at 30-50% of standard dose and titrate based on tolerance and blood counts.",
+    };
+  }
+  return result;
+}
+
+function fluorouracil(variants: RuleVariant[]): RuleRisk {
+  const diplotype = getDiplotype(variants, "DPYD");
+  const result = base("DPYD", diplotype, "Normal metabolizer", "Use fluorouracil at standard dose.");
+  for (const v of variantsByGene(variants, "DPYD")) {
+    if (!["*2A", "*13", "HapB3"].includes(v.allele) && v.function !== "Loss of function") continue;
+    if (HOM_ALT.has(v.genotype)) {
+      return {
+        ...result,
+        label: "Toxic",
+        severity: "critical",
+        phenotype: "Poor metabolizer",
+        recommendation:
+          "AVOID fluorouracil. DPYD poor metabolizers risk severe, life-threatening toxicity including myelosuppression, neurotoxicity, and gastrointestinal toxicity. Use alternative chemotherapeutic agents.",
+      };
+    }
+    if (HET.has(v.genotype)) {
+      return {
+        ...result,
+        label: "Toxic",
+        severity: "high",
+        phenotype: "Intermediate metabolizer",
+        recommendation:
+          "REDUCE fluorouracil dose by 50%. DPYD intermediate metabolizers have increased risk of severe toxicity. Consider alternative chemotherapy or reduce dose with intensive monitoring.",
+      };
+    }
+  }
+  return result;
+}
+
+const RULES: Record<string, (variants: RuleVariant[]) => RuleRisk> = {
+  CODEINE: codeine,
+  WARFARIN: warfarin,
+  CLOPIDOGREL: clopidogrel,
+  SIMVASTATIN: simvastatin,
+  AZATHIOPRINE: azathioprine,
+  FLUOROURACIL: fluorouracil,
+};
+
+/** `get_clinical_risk` for the core drugs; anything else gets the engine's "Unknown" default. */
+export function clinicalRisk(variants: RuleVariant[], drug: string): RuleRisk {
+  const rule = RULES[drug.trim().toUpperCase()];
+  if (rule) return rule(variants);
+  return {
+    label: "Unknown",
+    severity: "unknown",
+    phenotype: "Unknown",
+    diplotype: "*1/*1",
+    gene: "Unknown",
+    recommendation: "Not covered by the offline rules. Reconnect to the analysis server for this drug.",
+    cpic_level: "N/A",
+  };
+}
+
+/** `normalize_phenotype_code` from `pharma_guard/main.py`, applied to every response phenotype. */
+export function normalizePhenotypeCode(phenotype?: string): string {
+  const codes: Record<string, string> = {
+    "poor metabolizer": "PM",
+    pm: "PM",
+    "intermediate metabolizer": "IM",
+    im: "IM",
+    "normal metabolizer": "NM",
+    nm: "NM",
+    "rapid metabolizer": "RM",
+    rm: "RM",
+    "ultrarapid metabolizer": "URM",
+    "ultra-rapid metabolizer": "URM",
+    urm: "URM",
+    um: "URM",
+  };
+  return codes[(phenotype || "").trim().toLowerCase()] || "Unknown";
+}
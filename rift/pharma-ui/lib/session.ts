@@ -0,0 +1,90 @@
+import { isRole, type SessionUser } from "./roles";
+
+/**
+ * Session tokens shared with the backend (`pharma_guard/auth.py` verifies the same format):
+ * base64url(JSON payload) + "." + base64url(HMAC-SHA256(AUTH_SECRET, payload part)).
+ * Web Crypto only, so the proxy and route handlers can both use it. Server-side only.
+ */
+
+export const SESSION_COOKIE = "pg_session";
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+export type SessionPayload = SessionUser & { iat: number; exp: number };
+
+/** AUTH_SECRET is missing or too short to sign sessions with. */
+export class AuthConfigError extends Error {
+  constructor(message = "Authentication is not configured. Set AUTH_SECRET (32+ characters).") {
+    super(message);
+    this.name = "AuthConfigError";
+  }
+}
+
+export function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET || "";
+  if (secret.length < 32) throw new AuthConfigError();
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (text.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function hmac(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data))));
+}
+
+/** Constant-time for equal lengths; token signatures always have the same length. */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function signSession(user: SessionUser, now = Date.now()): Promise<{ token: string; payload: SessionPayload }> {
+  const iat = Math.floor(now / 1000);
+  const payload: SessionPayload = { sub: user.sub, name: user.name, role: user.role, provider: user.provider, iat, exp: iat + SESSION_TTL_SECONDS };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return { token: `${body}.${await hmac(getAuthSecret(), body)}`, payload };
+}
+
+/** The payload of a valid, unexpired token; null for anything else, including a missing AUTH_SECRET. */
+export async function verifySession(token: string | undefined, now = Date.now()): Promise<SessionPayload | null> {
+  const [body, signature, extra] = (token || "").split(".");
+  if (!body || !signature || extra !== undefined) return null;
+  let secret: string;
+  try {
+    secret = getAuthSecret();
+  } catch {
+    return null;
+  }
+  if (!safeEqual(await hmac(secret, body), signature)) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+  } catch {
+    return null;
+  }
+  if (typeof payload !== "object" || payload === null) return null;
+  const p = payload as Partial<SessionPayload>;
+  if (typeof p.sub !== "string" || typeof p.name !== "string" || !isRole(p.role) || (p.provider !== "local" && p.provider !== "oidc")) return null;
+  if (typeof p.exp !== "number" || typeof p.iat !== "number" || p.exp * 1000 <= now) return null;
+  return { sub: p.sub, name: p.name, role: p.role, provider: p.provider, iat: p.iat, exp: p.exp };
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_TTL_SECONDS,
+};
@@ -0,0 +1,15 @@
+/**
+ * Palette as CSS variables (defined in `app/globals.css`), so the high-contrast theme
+ * can swap every colour without re-rendering. Hex values stay in the stylesheet.
+ */
+export const APP_BG = "var(--pg-app-bg)";
+export const CARD_BG = "var(--pg-card-bg)";
+export const NAVY = "var(--pg-navy)";
+export const CYAN = "var(--pg-cyan)";
+export const SAFE = "var(--pg-safe)";
+export const ADJUST = "var(--pg-adjust)";
+export const TOXIC = "var(--pg-toxic)";
+export const TEXT = "var(--pg-text)";
+export const MUTED = "var(--pg-muted)";
+/** Clinician decisions, kept apart from the engine's risk colours. */
+export const OVERRIDE = "var(--pg-override)";
@@ -0,0 +1,228 @@
+import type { VcfIssueCode } from "./vcf";
+
+export type Tone = "safe" | "adjust" | "toxic" | "unknown";
+
+export type DetectedVariant = {
+  rsid?: string;
+  gene?: string;
+  /** Star allele this rsID defines, e.g. "*4". */
+  allele?: string;
+  function?: string;
+  genotype?: string;
+  chromosome?: string;
+  position?: string;
+  ref?: string;
+  alt?: string;
+  quality_score?: number;
+  read_depth?: number;
+  filter?: string;
+};
+
+export type VariantCitation = { rsid?: string; gene?: string; dbSNP_url?: string };
+
+/** One entry from the backend's `detect_bottlenecks`: several requested drugs share an enzyme. */
+export type PolypharmacyWarning = {
+  gene?: string;
+  competing_drugs?: string[];
+  count?: number;
+  severity?: string;
+  risk_level?: string;
+  patient_phenotype?: string;
+  warning?: string;
+  clinical_note?: string;
+};
+
+/** Component scores (0..1) behind `confidence_score`; see `pharma_guard/confidence.py`. */
+export type ConfidenceBreakdown = {
+  q_vcf: number;
+  g_cpic: number;
+  p_llm: number;
+  /** Sub-scores of `q_vcf`; absent when no target variants were found. */
+  q_qual?: number;
+  q_depth?: number;
+  q_annotation?: number;
+};
+
+/** Active weights and normalization bounds, from `confidence_model_config()`. */
+export type ConfidenceModel = {
+  w_vcf: number;
+  w_cpic: number;
+  w_llm: number;
+  qual_min?: number;
+  qual_max?: number;
+  dp_min?: number;
+  dp_max?: number;
+  vcf_w_qual?: number;
+  vcf_w_depth?: number;
+  vcf_w_annotation?: number;
+};
+
+export type ReviewDecision = "accepted" | "overridden" | "flagged";
+
+/** One reviewer decision on one drug result; built in the browser, never sent by the backend. */
+export type DrugReview = {
+  drug: string;
+  decision: ReviewDecision;
+  /** What the engine said when the decision was made. */
+  engine: { risk_label: string; recommendation: string };
+  /** Only on overrides. */
+  clinician?: { risk_label: string; recommendation: string };
+  /** Required for overrides, optional for flags. */
+  reason?: string;
+  reviewer: string;
+  reviewed_at: string;
+};
+
+export type ClinicianReview = {
+  decisions: DrugReview[];
+  /** Set by "sign report"; a signed review is frozen. */
+  signed_off?: { reviewer: string; role: string; signed_at: string };
+};
+
+export type SingleResult = {
+  patient_id?: string;
+  drug?: string;
+  timestamp?: string;
+  /** `offline_rules` when computed in the browser; absent for server results. */
+  analysis_engine?: string;
+  risk_assessment?: {
+    risk_label?: string;
+    severity?: string;
+    confidence_score?: number;
+    confidence_breakdown?: ConfidenceBreakdown;
+    cpic_level?: string;
+  };
+  pharmacogenomic_profile?: {
+    primary_gene?: string;
+    phenotype?: string;
+    diplotype?: string;
+    detected_variants?: DetectedVariant[];
+  };
+  clinical_recommendation?: { action?: string; recommendation_text?: string; guideline_source?: string };
+  llm_generated_explanation?: {
+    summary?: string;
+    mechanism?: string;
+    recommendation?: string;
+    citations?: VariantCitation[];
+    variant_citations?: VariantCitation[];
+  };
+  quality_metrics?: {
+    total_variants_analyzed?: number;
+    variants_detected?: number;
+    vcf_parsing_success?: boolean;
+    file_name?: string;
+    file_size_bytes?: number;
+    confidence_model?: ConfidenceModel;
+  };
+  /** Only present on the per-drug items of `/analyze/batch`. */
+  polypharmacy_warnings?: PolypharmacyWarning[];
+  /** Added in the browser by the reviewer (`lib/review.ts`); the backend never sends it. */
+  clinician_review?: ClinicianReview;
+};
+
+export type BatchDrugResult = {
+  risk_label?: string;
+  severity?: string;
+  confidence_score?: number;
+  confidence_breakdown?: ConfidenceBreakdown;
+  confidence_model?: ConfidenceModel;
+  cpic_level?: string;
+  gene?: string;
+  phenotype?: string;
+  diplotype?: string;
+  recommendation?: string;
+  detected_variants?: DetectedVariant[];
+};
+
+export type BatchResult = {
+  patient_id?: string;
+  timestamp?: string;
+  analysis_engine?: string;
+  drugs_analyzed?: string[];
+  polypharmacy_warnings?: PolypharmacyWarning[];
+  llm_explanations?: Record<string, { summary?: string; mechanism?: string; recommendation?: string }>;
+  results?: Record<string, BatchDrugResult>;
+  clinician_review?: ClinicianReview;
+};
+
+/** One completed analysis, tagged with which endpoint produced it. */
+export type AnalysisResult = { kind: "single"; data: SingleResult } | { kind: "batch"; data: BatchResult };
+
+/** Payload of the backend root endpoint (`GET /`). */
+export type ServiceInfo = {
+  version?: string;
+  supported_drugs: string[];
+  supported_genes?: string[];
+  /** Drug name -> guideline title, e.g. "CPIC Guideline for Warfarin and CYP2C9/VKORC1 (Level A)". */
+  cpic_guidelines?: Record<string, string>;
+};
+
+export type StreamStage = "vcf_parsed" | "genes_identified" | "risk_computed" | "explanation_ready";
+
+/** One NDJSON line from `/analyze/stream`. */
+export type AnalysisStreamEvent =
+  | {
+      event: "stage";
+      stage: StreamStage;
+      drug?: string;
+      /** Zero-based position of `drug` in the request, out of `total`. */
+      index?: number;
+      total?: number;
+      genes?: string[];
+      variants_count?: number;
+      vcf_parsing_success?: boolean;
+      risk_label?: string;
+    }
+  | { event: "result"; item: SingleResult }
+  | { event: "error"; detail: string }
+  | { event: "complete" };
+
+export type AuditOutcome = "success" | "rejected" | "error" | "cancelled";
+
+/** One row of `GET /audit`: an analysis call, who made it and how it ended. */
+export type AuditEntry = {
+  id: number;
+  timestamp: string;
+  user_id: string;
+  user_name: string;
+  role: string;
+  endpoint: string;
+  file_name?: string;
+  /** SHA-256 of the uploaded VCF; the file itself is never kept. */
+  file_sha256?: string;
+  drugs: string[];
+  outcome: AuditOutcome;
+  status_code: number;
+  detail?: string;
+  /** Drug -> risk label for the drugs that finished. */
+  risk_labels: Record<string, string | undefined>;
+};
+
+/** Filters for `GET /audit`; `since`/`until` take ISO dates or timestamps. */
+export type AuditQuery = {
+  user?: string;
+  drug?: string;
+  outcome?: AuditOutcome;
+  endpoint?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+};
+
+/**
+ * `code` on every error the console's `/api` routes return, next to `detail`:
+ * the VCF checks from `checkVcfFile`, plus session, rate-limit and backend failures.
+ */
+export type ApiErrorCode =
+  | VcfIssueCode
+  | "unauthenticated"
+  | "forbidden"
+  | "rate_limited"
+  | "missing_file"
+  | "invalid_request"
+  | "not_supported"
+  | "backend_not_configured"
+  | "backend_unreachable"
+  | "backend_timeout"
+  | "backend_rejected_proxy"
+  | "backend_error";
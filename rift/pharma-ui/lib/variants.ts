@@ -0,0 +1,159 @@
+import { allelesFromCall, diplotypeFromAlleles, HET, HOM_ALT, HOM_REF } from "./panel";
+import type { AnalysisResult, DetectedVariant } from "./types";
+import { type Zygosity, zygosityOf } from "./vcf";
+
+export type VariantRow = {
+  rsid: string;
+  gene: string;
+  allele: string;
+  function: string;
+  genotype: string;
+  zygosity: Zygosity;
+  qualityScore?: number;
+  readDepth?: number;
+  filter?: string;
+  /** "chr10:94781859 G>A" when the backend reported coordinates. */
+  locus?: string;
+  dbSnpUrl: string;
+  /** Drug results whose primary-gene call used this variant. */
+  drugs: string[];
+};
+
+export type VariantSortKey = "rsid" | "gene" | "allele" | "function" | "genotype" | "zygosity" | "qualityScore";
+
+/** What the backend knows about one gene's call, gathered from every drug result that used it. */
+export type GeneCall = { gene: string; diplotype: string; phenotype: string; drugs: string[] };
+
+export type AssemblyStep = { rsid: string; genotype: string; zygosity: Zygosity; contributes: string[]; note: string };
+
+export type DiplotypeAssembly = {
+  gene: string;
+  steps: AssemblyStep[];
+  /** Every allele collected, in file order, before truncation. */
+  alleles: string[];
+  /** Diplotype the backend rules produce from these variants. */
+  assembled: string;
+  /** Diplotype(s) actually reported in the results for this gene. */
+  reported: GeneCall[];
+  /** Alleles beyond the first two are ignored by the backend; listed so the audit shows what was dropped. */
+  ignored: string[];
+};
+
+export function dbSnpUrl(rsid: string): string {
+  return `https://www.ncbi.nlm.nih.gov/snp/${encodeURIComponent(rsid)}`;
+}
+
+const ZYGOSITY_ORDER: Record<Zygosity, number> = { hom_alt: 0, het: 1, hom_ref: 2, no_call: 3 };
+
+function citationUrls(analysis: AnalysisResult): Map<string, string> {
+  if (analysis.kind !== "single") return new Map();
+  const explanation = analysis.data.llm_generated_explanation;
+  const citations = [...(explanation?.citations || []), ...(explanation?.variant_citations || [])];
+  return new Map(citations.filter((c) => c.rsid && c.dbSNP_url).map((c) => [c.rsid as string, c.dbSNP_url as string]));
+}
+
+function variantsByDrug(analysis: AnalysisResult): Array<[string, DetectedVariant[]]> {
+  if (analysis.kind === "single") {
+    return [[analysis.data.drug || "UNKNOWN", analysis.data.pharmacogenomic_profile?.detected_variants || []]];
+  }
+  return Object.entries(analysis.data.results || {}).map(([drug, r]) => [drug, r.detected_variants || []]);
+}
+
+/** One row per rsID across all drug results, remembering which drugs it fed into. */
+export function collectVariantRows(analysis: AnalysisResult): VariantRow[] {
+  const urls = citationUrls(analysis);
+  const rows = new Map<string, VariantRow>();
+  for (const [drug, variants] of variantsByDrug(analysis)) {
+    for (const v of variants) {
+      if (!v.rsid) continue;
+      const existing = rows.get(v.rsid);
+      if (existing) {
+        if (!existing.drugs.includes(drug)) existing.drugs.push(drug);
+        continue;
+      }
+      const genotype = v.genotype || "./.";
+      rows.set(v.rsid, {
+        rsid: v.rsid,
+        gene: v.gene || "Unknown",
+        allele: v.allele || "N/A",
+        function: v.function || "N/A",
+        genotype,
+        zygosity: zygosityOf(genotype),
+        qualityScore: v.quality_score,
+        readDepth: v.read_depth,
+        filter: v.filter,
+        locus: v.chromosome && v.position ? `${v.chromosome}:${v.position}${v.ref && v.alt ? ` ${v.ref}>${v.alt}` : ""}` : undefined,
+        dbSnpUrl: urls.get(v.rsid) || dbSnpUrl(v.rsid),
+        drugs: [drug],
+      });
+    }
+  }
+  return [...rows.values()];
+}
+
+export function sortVariantRows(rows: VariantRow[], key: VariantSortKey, direction: 1 | -1): VariantRow[] {
+  const value = (row: VariantRow): string | number => {
+    if (key === "zygosity") return ZYGOSITY_ORDER[row.zygosity];
+    if (key === "qualityScore") return row.qualityScore ?? -1;
+    return row[key].toLowerCase();
+  };
+  return [...rows].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    return (x < y ? -1 : x > y ? 1 : 0) * direction || a.rsid.localeCompare(b.rsid);
+  });
+}
+
+export function matchesVariantQuery(row: VariantRow, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [row.rsid, row.gene, row.allele, row.function, row.genotype, ...row.drugs].some((v) => v.toLowerCase().includes(q));
+}
+
+export function geneCalls(analysis: AnalysisResult): GeneCall[] {
+  const calls = new Map<string, GeneCall>();
+  const add = (drug: string, gene?: string, diplotype?: string, phenotype?: string) => {
+    if (!gene) return;
+    const key = `${gene}|${diplotype || ""}|${phenotype || ""}`;
+    const call = calls.get(key) || { gene, diplotype: diplotype || "N/A", phenotype: phenotype || "N/A", drugs: [] };
+    call.drugs.push(drug);
+    calls.set(key, call);
+  };
+  if (analysis.kind === "single") {
+    const p = analysis.data.pharmacogenomic_profile;
+    add(analysis.data.drug || "UNKNOWN", p?.primary_gene, p?.diplotype, p?.phenotype);
+  } else {
+    for (const [drug, r] of Object.entries(analysis.data.results || {})) add(drug, r.gene, r.diplotype, r.phenotype);
+  }
+  return [...calls.values()];
+}
+
+/** True when `reported` is `assembled` with the alleles swapped, as older backends wrote heterozygotes. */
+export function isLegacyOrder(reported: string, assembled: string): boolean {
+  const [a, b] = assembled.split("/");
+  return a !== b && reported === `${b}/${a}`;
+}
+
+/**
+ * Replays `get_diplotype` from `pharma_guard/parser.py` for one gene, with a note per
+ * call: every call contributes two alleles (*1 for a reference copy), the first two
+ * collected win, and the pair is ordered so *1 comes first. Analyses saved before the
+ * backend switched to *1-first report e.g. "*4/*1"; see {@link isLegacyOrder}.
+ */
+export function assembleDiplotype(gene: string, rows: VariantRow[], calls: GeneCall[]): DiplotypeAssembly {
+  const steps: AssemblyStep[] = [];
+  const alleles: string[] = [];
+  for (const row of rows.filter((r) => r.gene === gene)) {
+    const contributes = allelesFromCall(row.allele, row.genotype);
+    let note: string;
+    if (HOM_ALT.has(row.genotype)) note = `Homozygous: two copies of ${row.allele}`;
+    else if (HET.has(row.genotype)) note = `Heterozygous: one reference (*1) and one ${row.allele}`;
+    else if (HOM_REF.has(row.genotype)) note = "Homozygous reference: two *1 copies";
+    else note = row.zygosity === "no_call" ? "No genotype call: contributes nothing" : "Genotype not handled by the rules: contributes nothing";
+    alleles.push(...contributes);
+    steps.push({ rsid: row.rsid, genotype: row.genotype, zygosity: row.zygosity, contributes, note });
+  }
+  const assembled = diplotypeFromAlleles(alleles);
+
+  return { gene, steps, alleles, assembled, reported: calls.filter((c) => c.gene === gene), ignored: alleles.slice(2) };
+}
@@ -0,0 +1,162 @@
+export const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export type VcfRecord = {
+  chrom: string;
+  pos: number;
+  id: string;
+  ref: string;
+  alt: string;
+  qual: number | null;
+  filter: string;
+  info: string;
+  format: string;
+  /** Raw per-sample columns, in `samples` order. */
+  sampleData: string[];
+  /** GT of the first sample, or `./.` when the row carries no sample data. */
+  genotype: string;
+};
+
+export type ParsedVcf = {
+  fileFormat: string;
+  metaLines: string[];
+  samples: string[];
+  records: VcfRecord[];
+  /** Data rows skipped because they had fewer than 8 columns. */
+  malformedRows: number;
+};
+
+/** Pulls the GT subfield out of a sample column using the row's FORMAT. */
+export function genotypeOf(format: string, sample: string | undefined): string {
+  if (!sample) return "./.";
+  const keys = format ? format.split(":") : [];
+  const values = sample.split(":");
+  const gtIndex = keys.indexOf("GT");
+  // The backend takes the first subfield when FORMAT is absent; mirror that.
+  return (gtIndex >= 0 ? values[gtIndex] : values[0]) || "./.";
+}
+
+/** Parses every line of a VCF, mirroring how `parse_vcf_file` on the backend reads rows. */
+export function parseVcf(text: string): ParsedVcf {
+  const metaLines: string[] = [];
+  const records: VcfRecord[] = [];
+  let samples: string[] = [];
+  let fileFormat = "";
+  let malformedRows = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (!rawLine) continue;
+    if (rawLine.startsWith("##")) {
+      metaLines.push(rawLine);
+      if (rawLine.startsWith("##fileformat=")) fileFormat = rawLine.slice("##fileformat=".length).trim();
+      continue;
+    }
+    if (rawLine.startsWith("#CHROM")) {
+      samples = rawLine.split("\t").slice(9);
+      continue;
+    }
+    if (rawLine.startsWith("#")) continue;
+
+    const cols = rawLine.trim().split("\t");
+    if (cols.length < 8) {
+      malformedRows += 1;
+      continue;
+    }
+    const format = cols[8] || "";
+    const sampleData = cols.slice(9);
+    const qual = cols[5] === "." || cols[5] === "" ? null : Number(cols[5]);
+    records.push({
+      chrom: cols[0],
+      pos: Number(cols[1]),
+      id: cols[2],
+      ref: cols[3],
+      alt: cols[4],
+      qual: qual === null || Number.isNaN(qual) ? null : qual,
+      filter: cols[6],
+      info: cols[7],
+      format,
+      sampleData,
+      genotype: genotypeOf(format, sampleData[0]),
+    });
+  }
+
+  return { fileFormat, metaLines, samples, records, malformedRows };
+}
+
+export type Zygosity = "hom_ref" | "het" | "hom_alt" | "no_call";
+
+export function zygosityOf(genotype: string): Zygosity {
+  const alleles = genotype.split(/[/|]/);
+  if (alleles.length < 2 || alleles.some((a) => a === "." || a === "")) return "no_call";
+  const alt = alleles.filter((a) => a !== "0").length;
+  if (alt === 0) return "hom_ref";
+  return alt === alleles.length ? "hom_alt" : "het";
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+export type VcfIssueCode = "invalid_file_type" | "file_too_large" | "empty_file" | "invalid_vcf" | "incomplete_vcf" | "unreadable_file";
+
+export type VcfIssue = { code: VcfIssueCode; message: string };
+
+/**
+ * Quick header/size check run before a file is accepted, in the browser and again by
+ * the API routes; returns null when the file is usable.
+ */
+export async function checkVcfFile(file: File): Promise<VcfIssue | null> {
+  if (!file.name.toLowerCase().endsWith(".vcf")) return { code: "invalid_file_type", message: "Upload Failed: Please upload a valid `.vcf` file under 5 MB." };
+  if (file.size > MAX_FILE_SIZE) return { code: "file_too_large", message: `Upload Failed: File is too large. Maximum allowed size is ${formatBytes(MAX_FILE_SIZE)}.` };
+  try {
+    const sample = (await file.text()).slice(0, 12000);
+    if (!sample.trim()) return { code: "empty_file", message: "Upload Failed: The file appears empty or unreadable." };
+    const lines = sample.split(/\r?\n/).slice(0, 120);
+    const hasVcfHeader = lines.some((line) => line.startsWith("##fileformat=VCF"));
+    const hasChromHeader = lines.some((line) => line.startsWith("#CHROM"));
+    if (!hasVcfHeader || !hasChromHeader) {
+      return { code: "invalid_vcf", message: "Upload Failed: This file is not a valid VCF (required VCF headers are missing)." };
+    }
+    const hasDataRow = lines.some((line) => !!line && !line.startsWith("#") && line.split("\t").length >= 8);
+    if (!hasDataRow) {
+      return { code: "incomplete_vcf", message: "Upload Failed: VCF structure is incomplete or corrupted (variant rows are missing)." };
+    }
+  } catch {
+    return { code: "unreadable_file", message: "Upload Failed: Unable to read this file. It may be corrupted or encoded in an unsupported format." };
+  }
+  return null;
+}
+
+/** `checkVcfFile` as a message; an empty string when the file is usable. */
+export async function validateVcfFile(file: File): Promise<string> {
+  return (await checkVcfFile(file))?.message || "";
+}
+
+/** `##` keys that describe the file's structure. Everything else (dates, sources, sites, sample meta) can identify a patient. */
+export const STRUCTURAL_META_KEYS = ["fileformat", "INFO", "FORMAT", "FILTER", "ALT", "contig"];
+
+export type HeaderStripSummary = { text: string; removedMetaLines: number; renamedSamples: number };
+
+/**
+ * Drops identifying `##` meta lines and renames the `#CHROM` sample columns to
+ * SAMPLE_1..n. Data rows are untouched; the backend never reads either header.
+ */
+export function stripIdentifyingHeaders(text: string): HeaderStripSummary {
+  let removedMetaLines = 0;
+  let renamedSamples = 0;
+  const lines = text.split(/\r?\n/).filter((line) => {
+    if (!line.startsWith("##")) return true;
+    const key = line.slice(2).split("=")[0];
+    if (STRUCTURAL_META_KEYS.includes(key)) return true;
+    removedMetaLines += 1;
+    return false;
+  });
+  const out = lines.map((line) => {
+    if (!line.startsWith("#CHROM")) return line;
+    const cols = line.split("\t");
+    renamedSamples = Math.max(0, cols.length - 9);
+    return [...cols.slice(0, 9), ...cols.slice(9).map((_, i) => `SAMPLE_${i + 1}`)].join("\t");
+  });
+  return { text: out.join("\n"), removedMetaLines, renamedSamples };
+}
@@ -0,0 +1,10 @@
+import { readVcfInput } from "./vcfinput";
+
+/** Decompression and panel reduction can take seconds on large files, so they run off the main thread. */
+self.onmessage = async (event: MessageEvent<File>) => {
+  try {
+    self.postMessage({ ok: true, input: await readVcfInput(event.data) });
+  } catch (e) {
+    self.postMessage({ ok: false, message: e instanceof Error ? e.message : "Upload Failed: Unable to read this file." });
+  }
+};
@@ -0,0 +1,109 @@
+import { gunzip, isGzip, readChunks } from "./gzip";
+import { isTargetRsid } from "./rules";
+import { MAX_FILE_SIZE } from "./vcf";
+
+/**
+ * Turns whatever the user dropped (plain or bgzipped, one sample or many, any size)
+ * into the small single-sample `.vcf` the backend expects. Runs in `vcf.worker.ts`;
+ * use `loadVcfInput` from `./vcfloader` rather than calling `readVcfInput` directly.
+ */
+
+export const VCF_INPUT_PATTERN = /\.vcf(\.b?gz)?$/i;
+
+export type VcfInput = {
+  sourceName: string;
+  /** `sourceName` without `.vcf` / `.vcf.gz`. */
+  baseName: string;
+  /** Plain VCF text: the whole file, or its header and panel rows only when `reduced`. */
+  text: string;
+  samples: string[];
+  compressed: boolean;
+  /** The decompressed file was over `MAX_FILE_SIZE`, so rows off the panel were dropped. */
+  reduced: boolean;
+  rowsRead: number;
+  rowsKept: number;
+};
+
+async function* splitLines(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let rest = "";
+  for await (const chunk of chunks) {
+    rest += decoder.decode(chunk, { stream: true });
+    const parts = rest.split(/\r?\n/);
+    rest = parts.pop() ?? "";
+    yield* parts;
+  }
+  rest += decoder.decode();
+  if (rest) yield rest;
+}
+
+export async function readVcfInput(file: File): Promise<VcfInput> {
+  if (!VCF_INPUT_PATTERN.test(file.name)) throw new Error("Upload Failed: Please upload a `.vcf` or bgzipped `.vcf.gz` file.");
+  const compressed = isGzip(new Uint8Array(await file.slice(0, 2).arrayBuffer()));
+
+  const header: string[] = [];
+  let rows: string[] = [];
+  let samples: string[] = [];
+  let size = 0;
+  let reduced = false;
+  let rowsRead = 0;
+  try {
+    for await (const line of splitLines(compressed ? gunzip(file) : readChunks(file.stream()))) {
+      if (!line) continue;
+      if (line.startsWith("#")) {
+        if (line.startsWith("#CHROM")) samples = line.split("\t").slice(9);
+        header.push(line);
+        size += line.length + 1;
+        continue;
+      }
+      rowsRead += 1;
+      if (reduced) {
+        if (isTargetRsid(line.split("\t", 3)[2] || "")) rows.push(line);
+        continue;
+      }
+      rows.push(line);
+      size += line.length + 1;
+      if (size > MAX_FILE_SIZE) {
+        // Past the upload limit: keep only what `parse_vcf_file` reads from here on.
+        reduced = true;
+        rows = rows.filter((row) => isTargetRsid(row.split("\t", 3)[2] || ""));
+      }
+    }
+  } catch {
+    throw new Error(compressed ? "Upload Failed: The compressed file could not be decompressed. It may be truncated or corrupt." : "Upload Failed: Unable to read this file.");
+  }
+
+  return {
+    sourceName: file.name,
+    baseName: file.name.replace(VCF_INPUT_PATTERN, "") || "patient",
+    text: `${[...header, ...rows].join("\n")}\n`,
+    samples,
+    compressed,
+    reduced,
+    rowsRead,
+    rowsKept: rows.length,
+  };
+}
+
+function safeName(name: string) {
+  return name.replace(/[^A-Za-z0-9_.\-]+/g, "_") || "sample";
+}
+
+/**
+ * A single-sample `.vcf` for sample `index`: every other sample column is dropped,
+ * since the backend reads genotypes from the first one. Multi-sample files are named
+ * after the sample so the cohort queue uses it as the patient ID.
+ */
+export function sampleFile(input: VcfInput, index = 0): File {
+  if (input.samples.length <= 1) return new File([input.text], `${safeName(input.baseName)}.vcf`, { type: "text/plain" });
+  const lines = input.text.split("\n").map((line) => {
+    if (!line || line.startsWith("##")) return line;
+    const cols = line.split("\t");
+    return [...cols.slice(0, 9), cols[9 + index] ?? "./."].join("\t");
+  });
+  return new File([lines.join("\n")], `${safeName(input.samples[index])}.vcf`, { type: "text/plain" });
+}
+
+export function sampleFiles(input: VcfInput): File[] {
+  return input.samples.length <= 1 ? [sampleFile(input)] : input.samples.map((_, i) => sampleFile(input, i));
+}
@@ -0,0 +1,39 @@
+import { readVcfInput, sampleFiles, VCF_INPUT_PATTERN, type VcfInput } from "./vcfinput";
+
+type WorkerReply = { ok: true; input: VcfInput } | { ok: false; message: string };
+
+/** `readVcfInput` in a worker; falls back to the main thread where workers are unavailable. */
+export function loadVcfInput(file: File): Promise<VcfInput> {
+  if (typeof Worker === "undefined") return readVcfInput(file);
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./vcf.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      worker.terminate();
+      if (event.data.ok) resolve(event.data.input);
+      else reject(new Error(event.data.message));
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      readVcfInput(file).then(resolve, reject);
+    };
+    worker.postMessage(file);
+  });
+}
+
+/**
+ * Expands a cohort selection: each `.vcf` / `.vcf.gz` becomes one single-sample file
+ * per sample. Files are read one at a time to keep memory flat; failures are
+ * reported per file and the rest still load.
+ */
+export async function expandVcfFiles(files: File[]): Promise<{ files: File[]; errors: string[] }> {
+  const out: File[] = [];
+  const errors: string[] = [];
+  for (const file of files.filter((f) => VCF_INPUT_PATTERN.test(f.name))) {
+    try {
+      out.push(...sampleFiles(await loadVcfInput(file)));
+    } catch (e) {
+      errors.push(`${file.name}: ${e instanceof Error ? e.message.replace(/^Upload Failed: /, "") : "unreadable"}`);
+    }
+  }
+  return { files: out, errors };
+}
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { canAnalyze, canViewAudit, homeFor } from "@/lib/roles";
+import { SESSION_COOKIE, verifySession } from "@/lib/session";
+
+/**
+ * Every console page needs a session. Signed-out visitors go to /login (remembering
+ * where they were headed); signed-in users are kept to the pages their role allows.
+ * API routes are left to authorize themselves.
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (pathname === "/login") {
+    return session ? NextResponse.redirect(new URL(homeFor(session.role), request.url)) : NextResponse.next();
+  }
+
+  if (!session) {
+    const login = new URL("/login", request.url);
+    if (pathname !== "/") login.searchParams.set("next", `${pathname}${search}`);
+    const response = NextResponse.redirect(login);
+    // A stale or forged cookie would otherwise be re-sent on every request.
+    if (request.cookies.has(SESSION_COOKIE)) response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  const allowed = pathname.startsWith("/audit") ? canViewAudit(session.role) : canAnalyze(session.role);
+  return allowed ? NextResponse.next() : NextResponse.redirect(new URL(homeFor(session.role), request.url));
+}
+
+export const config = {
+  // Pages only: skip API routes, build output and the public files the offline shell needs.
+  matcher: ["/((?!api/|_next/static|_next/image|favicon.ico|icon.svg|sw.js|manifest.webmanifest).*)"],
+};
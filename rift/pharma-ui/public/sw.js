@@ -0,0 +1,50 @@
+// Offline shell for the console. Only the app itself is cached: analysis requests are
+// never stored, and when they fail the page falls back to the bundled CPIC rules.
+const CACHE = "pharmaguard-shell-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+function remember(request, response) {
+  // A redirected page is the login screen answering for the console; never cache it as the console.
+  if (response.ok && !response.redirected) {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  // Hashed build output never changes under the same URL: cache first.
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(caches.match(request).then((hit) => hit || fetch(request).then((response) => remember(request, response))));
+    return;
+  }
+
+  // Pages and public files: network first so a deploy shows up, cached copy when offline.
+  event.respondWith(
+    fetch(request)
+      .then((response) => remember(request, response))
+      .catch(() => caches.match(request).then((hit) => hit || (request.mode === "navigate" ? caches.match("/") : Response.error()))),
+  );
+});
@@ -0,0 +1,10 @@
+// Prints an AUTH_USERS password field: `npm run hash-password -- '<password>'`.
+import { randomBytes, scryptSync } from "node:crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: npm run hash-password -- '<password>'");
+  process.exit(1);
+}
+const salt = randomBytes(16);
+console.log(`scrypt$${salt.toString("base64")}$${scryptSync(password, salt, 64).toString("base64")}`);
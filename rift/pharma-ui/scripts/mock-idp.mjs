@@ -0,0 +1,99 @@
+// Local OpenID Connect provider for trying SSO without a real IdP: `npm run mock-idp`.
+// Point the console at it with
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=pharmaguard OIDC_CLIENT_SECRET=mock-secret
+// The authorize page lets you pick a user per role, plus one without a role to see the rejection.
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || "pharmaguard";
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || "mock-secret";
+
+const USERS = [
+  { sub: "mock-clinician", name: "Dr. Mock Clinician", email: "clinician@example.test", roles: ["clinician"] },
+  { sub: "mock-pharmacist", name: "Mock Pharmacist", email: "pharmacist@example.test", roles: ["pharmacist"] },
+  { sub: "mock-auditor", name: "Mock Auditor", email: "auditor@example.test", roles: ["auditor"] },
+  { sub: "mock-norole", name: "No Role User", email: "norole@example.test", roles: [] },
+];
+
+/** code -> what the token endpoint needs to check and issue. Single use, 60 s. */
+const codes = new Map();
+
+const b64url = (value) => Buffer.from(typeof value === "string" ? value : JSON.stringify(value)).toString("base64url");
+
+function idToken(user, nonce) {
+  const now = Math.floor(Date.now() / 1000);
+  const head = b64url({ alg: "HS256", typ: "JWT" });
+  const body = b64url({ iss: ISSUER, aud: CLIENT_ID, sub: user.sub, name: user.name, email: user.email, roles: user.roles, nonce, iat: now, exp: now + 300 });
+  return `${head}.${body}.${createHmac("sha256", CLIENT_SECRET).update(`${head}.${body}`).digest("base64url")}`;
+}
+
+function send(res, status, body, type = "application/json") {
+  res.writeHead(status, { "content-type": type, "cache-control": "no-store" });
+  res.end(type === "application/json" ? JSON.stringify(body) : body);
+}
+
+function escape(text) {
+  return String(text).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+async function readForm(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", ISSUER);
+
+  if (url.pathname === "/.well-known/openid-configuration") {
+    return send(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["HS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  }
+
+  if (url.pathname === "/authorize") {
+    const p = url.searchParams;
+    if (p.get("client_id") !== CLIENT_ID || !p.get("redirect_uri")) return send(res, 400, "Unknown client or missing redirect_uri", "text/plain");
+    const pick = p.get("user");
+    if (!pick) {
+      const links = USERS.map((u) => {
+        const next = new URL(url);
+        next.searchParams.set("user", u.sub);
+        return `<li><a href="${escape(next)}">${escape(u.name)}</a> <small>(${escape(u.roles.join(", ") || "no role")})</small></li>`;
+      }).join("");
+      return send(res, 200, `<!doctype html><title>Mock IdP</title><h1>Mock IdP: sign in as</h1><ul>${links}</ul>`, "text/html");
+    }
+    const user = USERS.find((u) => u.sub === pick);
+    if (!user) return send(res, 400, "Unknown user", "text/plain");
+    const code = randomBytes(16).toString("base64url");
+    codes.set(code, { user, nonce: p.get("nonce"), redirectUri: p.get("redirect_uri"), challenge: p.get("code_challenge"), expires: Date.now() + 60_000 });
+    const back = new URL(p.get("redirect_uri"));
+    back.searchParams.set("code", code);
+    if (p.get("state")) back.searchParams.set("state", p.get("state"));
+    res.writeHead(302, { location: back.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === "/token" && req.method === "POST") {
+    const form = await readForm(req);
+    const grant = codes.get(form.get("code"));
+    codes.delete(form.get("code"));
+    if (form.get("client_id") !== CLIENT_ID || form.get("client_secret") !== CLIENT_SECRET) return send(res, 401, { error: "invalid_client" });
+    if (!grant || grant.expires < Date.now() || grant.redirectUri !== form.get("redirect_uri")) return send(res, 400, { error: "invalid_grant" });
+    const verifier = form.get("code_verifier") || "";
+    if (grant.challenge && createHash("sha256").update(verifier).digest("base64url") !== grant.challenge) return send(res, 400, { error: "invalid_grant", error_description: "PKCE check failed" });
+    return send(res, 200, { token_type: "Bearer", access_token: randomBytes(16).toString("base64url"), expires_in: 300, id_token: idToken(grant.user, grant.nonce) });
+  }
+
+  send(res, 404, { error: "not_found" });
+});
+
+server.listen(PORT, () => console.log(`Mock IdP listening on ${ISSUER} (client ${CLIENT_ID} / ${CLIENT_SECRET})`));
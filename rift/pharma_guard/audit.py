@@ -0,0 +1,131 @@
+"""
+PharmaGuard audit log
+One row per analysis call: who ran it, when, on which file (SHA-256, never the
+contents), for which drugs, and how it ended. Stored next to the CPIC tables.
+"""
+
+import datetime
+import hashlib
+import json
+import sqlite3
+from typing import Dict, List, Optional
+
+from database import DB_PATH
+
+OUTCOMES = ("success", "rejected", "error", "cancelled")
+
+def init_audit_log():
+    """Create the audit table if it does not exist yet."""
+    conn = sqlite3.connect(DB_PATH)
+    conn.execute('''
+        CREATE TABLE IF NOT EXISTS audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            timestamp TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            user_name TEXT NOT NULL,
+            role TEXT NOT NULL,
+            endpoint TEXT NOT NULL,
+            file_name TEXT,
+            file_sha256 TEXT,
+            drugs TEXT NOT NULL,         -- JSON list
+            outcome TEXT NOT NULL,       -- success | rejected | error | cancelled
+            status_code INTEGER NOT NULL,
+            detail TEXT,
+            risk_labels TEXT             -- JSON {drug: label}
+        )
+    ''')
+    conn.execute('CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp)')
+    conn.commit()
+    conn.close()
+
+def file_sha256(path: str) -> Optional[str]:
+    try:
+        digest = hashlib.sha256()
+        with open(path, "rb") as handle:
+            for chunk in iter(lambda: handle.read(65536), b""):
+                digest.update(chunk)
+        return digest.hexdigest()
+    except OSError:
+        return None
+
+def start_entry(user: Dict, endpoint: str, drugs: List[str]) -> Dict:
+    """Audit fields known when the request arrives; the endpoint fills in the rest as it goes."""
+    return {
+        "timestamp": datetime.datetime.now(datetime.timezone.utc).isoformat(),
+        "user_id": str(user.get("sub", "")),
+        "user_name": str(user.get("name", "")),
+        "role": str(user.get("role", "")),
+        "endpoint": endpoint,
+        "file_name": None,
+        "file_sha256": None,
+        "drugs": [d.strip().upper() for d in drugs if d.strip()],
+        "risk_labels": {},
+    }
+
+def record_entry(entry: Dict, outcome: str, status_code: int, detail: Optional[str] = None):
+    """Write the entry. Audit failures are printed, never raised: they must not fail the analysis."""
+    try:
+        conn = sqlite3.connect(DB_PATH)
+        conn.execute(
+            '''INSERT INTO audit_log (timestamp, user_id, user_name, role, endpoint, file_name, file_sha256,
+                                      drugs, outcome, status_code, detail, risk_labels)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)''',
+            (
+                entry["timestamp"], entry["user_id"], entry["user_name"], entry["role"], entry["endpoint"],
+                entry["file_name"], entry["file_sha256"], json.dumps(entry["drugs"]), outcome, status_code,
+                detail, json.dumps(entry["risk_labels"]),
+            ),
+        )
+        conn.commit()
+        conn.close()
+    except Exception as e:
+        print(f"Audit log write failed: {e}")
+
+def query_audit_log(
+    user: Optional[str] = None,
+    drug: Optional[str] = None,
+    outcome: Optional[str] = None,
+    endpoint: Optional[str] = None,
+    since: Optional[str] = None,
+    until: Optional[str] = None,
+    limit: int = 200,
+) -> List[Dict]:
+    """Newest first. `user` matches id or name (substring); `since`/`until` are ISO timestamps or dates."""
+    clauses, params = [], []
+    if user:
+        clauses.append("(user_id LIKE ? OR user_name LIKE ?)")
+        params += [f"%{user}%", f"%{user}%"]
+    if drug:
+        clauses.append("drugs LIKE ?")
+        params.append(f'%"{drug.strip().upper()}"%')
+    if outcome:
+        clauses.append("outcome = ?")
+        params.append(outcome)
+    if endpoint:
+        clauses.append("endpoint = ?")
+        params.append(endpoint)
+    if since:
+        clauses.append("timestamp >= ?")
+        params.append(since)
+    if until:
+        # A bare date means "through the end of that day".
+        clauses.append("timestamp < ?" if "T" in until else "substr(timestamp, 1, 10) <= ?")
+        params.append(until)
+    where = f"WHERE {' AND '.join(clauses)}" if clauses else ""
+
+    conn = sqlite3.connect(DB_PATH)
+    conn.row_factory = sqlite3.Row
+    rows = conn.execute(
+        f"SELECT * FROM audit_log {where} ORDER BY timestamp DESC, id DESC LIMIT ?",
+        (*params, max(1, min(limit, 1000))),
+    ).fetchall()
+    conn.close()
+
+    return [
+        {
+            **{key: row[key] for key in row.keys() if key not in ("drugs", "risk_labels")},
+            "drugs": json.loads(row["drugs"] or "[]"),
+            "risk_labels": json.loads(row["risk_labels"] or "{}"),
+        }
+        for row in rows
+    ]
@@ -0,0 +1,74 @@
+"""
+PharmaGuard session verification
+The Next.js console signs in clinicians (local credentials or OIDC) and hands the
+browser a session token signed with AUTH_SECRET. The API verifies that token on
+every analysis call so the audit log knows who ran what.
+
+Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(AUTH_SECRET, payload part))
+Payload: {"sub", "name", "role", "provider", "iat", "exp"}
+"""
+
+import base64
+import hashlib
+import hmac
+import json
+import os
+import time
+from typing import Dict, Optional
+
+from fastapi import Header, HTTPException
+
+AUTH_SECRET = os.getenv("AUTH_SECRET", "")
+
+ROLES = ("clinician", "pharmacist", "auditor")
+ANALYZE_ROLES = {"clinician", "pharmacist"}
+AUDIT_ROLES = {"auditor"}
+
+# Without AUTH_SECRET the API stays open for local scripts; the audit log records "anonymous".
+ANONYMOUS_USER = {"sub": "anonymous", "name": "anonymous", "role": "anonymous", "provider": "none"}
+
+def is_auth_configured() -> bool:
+    return bool(AUTH_SECRET)
+
+def _b64decode(part: str) -> bytes:
+    return base64.urlsafe_b64decode(part + "=" * (-len(part) % 4))
+
+def _b64encode(raw: bytes) -> str:
+    return base64.urlsafe_b64encode(raw).rstrip(b"=").decode("ascii")
+
+def verify_session_token(token: str) -> Optional[Dict]:
+    """Return the token payload when the signature, expiry and role check out, else None."""
+    if not AUTH_SECRET or token.count(".") != 1:
+        return None
+    payload_part, signature = token.split(".")
+    expected = _b64encode(hmac.new(AUTH_SECRET.encode(), payload_part.encode(), hashlib.sha256).digest())
+    if not hmac.compare_digest(expected, signature):
+        return None
+    try:
+        payload = json.loads(_b64decode(payload_part))
+    except (ValueError, UnicodeDecodeError):
+        return None
+    if not isinstance(payload, dict) or payload.get("role") not in ROLES:
+        return None
+    if not isinstance(payload.get("exp"), (int, float)) or payload["exp"] < time.time():
+        return None
+    return payload
+
+def current_user(authorization: Optional[str] = Header(None)) -> Dict:
+    """FastAPI dependency: the signed-in user, or 401 when a token is required and missing/invalid."""
+    if not is_auth_configured():
+        return ANONYMOUS_USER
+    scheme, _, token = (authorization or "").partition(" ")
+    if scheme.lower() != "bearer" or not token:
+        raise HTTPException(status_code=401, detail="Sign in required")
+    user = verify_session_token(token.strip())
+    if not user:
+        raise HTTPException(status_code=401, detail="Session expired or invalid, sign in again")
+    return user
+
+def require_role(user: Dict, roles: set) -> None:
+    """403 unless the user holds one of `roles`. Anonymous access only exists when auth is off."""
+    if user is ANONYMOUS_USER:
+        return
+    if user.get("role") not in roles:
+        raise HTTPException(status_code=403, detail=f"Role '{user.get('role')}' is not allowed to perform this action")
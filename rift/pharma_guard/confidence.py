@@ -36,6 +36,11 @@ if _WEIGHT_SUM > 0:
 else:
     W1, W2, W3 = 0.40, 0.45, 0.15
 
+# Sub-weights inside Q_vcf (fixed)
+VCF_W_QUAL = 0.45
+VCF_W_DEPTH = 0.35
+VCF_W_ANNOTATION = 0.20
+
 CPIC_LEVEL_SCORE = {
     "A": 1.00,
     "B": 0.75,
@@ -81,18 +86,22 @@ def confidence_model_config() -> Dict[str, float]:
         "qual_max": round(QUAL_MAX, 3),
         "dp_min": round(DP_MIN, 3),
         "dp_max": round(DP_MAX, 3),
+        "vcf_w_qual": VCF_W_QUAL,
+        "vcf_w_depth": VCF_W_DEPTH,
+        "vcf_w_annotation": VCF_W_ANNOTATION,
     }
 
 
-def compute_vcf_quality_score(variants: List[Dict[str, Any]]) -> float:
+def compute_vcf_quality_components(variants: List[Dict[str, Any]]) -> Optional[Dict[str, float]]:
     """
-    Q_vcf component:
+    Averaged sub-scores behind Q_vcf:
     - QUAL normalization
     - DP normalization
     - presence of GENE / STAR / RS annotations
+    Returns None when there are no variants to score.
     """
     if not variants:
-        return 0.35
+        return None
 
     qual_scores: List[float] = []
     depth_scores: List[float] = []
@@ -111,11 +120,23 @@ def compute_vcf_quality_score(variants: List[Dict[str, Any]]) -> float:
         star_credit = 1.0 if has_star else (0.5 if inferred_star else 0.0)
         annotation_scores.append((float(has_gene) + star_credit + float(has_rsid)) / 3.0)
 
-    q_qual = sum(qual_scores) / len(qual_scores)
-    q_depth = sum(depth_scores) / len(depth_scores)
-    q_ann = sum(annotation_scores) / len(annotation_scores)
+    return {
+        "q_qual": sum(qual_scores) / len(qual_scores),
+        "q_depth": sum(depth_scores) / len(depth_scores),
+        "q_annotation": sum(annotation_scores) / len(annotation_scores),
+    }
+
 
-    return _clamp((0.45 * q_qual) + (0.35 * q_depth) + (0.20 * q_ann))
+def compute_vcf_quality_score(variants: List[Dict[str, Any]]) -> float:
+    """Q_vcf component; 0.35 when no target variants were found."""
+    parts = compute_vcf_quality_components(variants)
+    if parts is None:
+        return 0.35
+    return _clamp(
+        (VCF_W_QUAL * parts["q_qual"])
+        + (VCF_W_DEPTH * parts["q_depth"])
+        + (VCF_W_ANNOTATION * parts["q_annotation"])
+    )
 
 
 def compute_cpic_guideline_score(cpic_level: Optional[str]) -> float:
@@ -178,8 +199,12 @@ def compute_hybrid_confidence(
     p_llm = compute_llm_consistency_score(risk_label, explanation)
 
     final = _clamp((W1 * q_vcf) + (W2 * g_cpic) + (W3 * p_llm))
-    return round(final, 2), {
+    breakdown = {
         "q_vcf": round(q_vcf, 3),
         "g_cpic": round(g_cpic, 3),
         "p_llm": round(p_llm, 3),
     }
+    # Sub-scores let the UI say which part of the VCF lowered Q_vcf; absent when no variants were found.
+    for key, value in (compute_vcf_quality_components(variants) or {}).items():
+        breakdown[key] = round(value, 3)
+    return round(final, 2), breakdown
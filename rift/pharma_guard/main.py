@@ -1,6 +1,8 @@
-from fastapi import FastAPI, UploadFile, File, Form, HTTPException
+from fastapi import FastAPI, UploadFile, File, Form, HTTPException, Depends, Query
 from fastapi.middleware.cors import CORSMiddleware
-from fastapi.responses import JSONResponse
+from fastapi.responses import JSONResponse, StreamingResponse
+from starlette.concurrency import run_in_threadpool
+import json
 import os
 import traceback
 import datetime
@@ -10,12 +12,20 @@ from parser import parse_vcf_file, TARGET_VARIANTS, DRUG_GENE_MAP
 from engine import get_clinical_risk, CPIC_GUIDELINES
 from llm import get_explanation, get_llm_clinical_risk, is_llm_configured
 from confidence import compute_hybrid_confidence, confidence_model_config
+from auth import current_user, require_role, is_auth_configured, ANALYZE_ROLES, AUDIT_ROLES
+from audit import init_audit_log, file_sha256, start_entry, record_entry, query_audit_log, OUTCOMES
+from signing import ProxySignatureMiddleware, is_signing_configured
 
 app = FastAPI(title="PharmaGuard API", description="Pharmacogenomic Risk Prediction System", version="2.0")
 
 if not is_llm_configured():
     print("WARNING: LLM API key not configured. Set OPENAI_API_KEY. Falling back to rule engine/explanation fallback.")
 
+if not is_auth_configured():
+    print("WARNING: AUTH_SECRET not set. Analysis endpoints accept anonymous calls; audit entries are recorded as 'anonymous'.")
+
+init_audit_log()
+
 # Configure CORS
 app.add_middleware(
     CORSMiddleware,
@@ -25,6 +35,11 @@ app.add_middleware(
     allow_credentials=True,
 )
 
+# Only requests signed by the console's /api proxy get through when PROXY_SIGNING_SECRET is set.
+app.add_middleware(ProxySignatureMiddleware)
+if not is_signing_configured():
+    print("WARNING: PROXY_SIGNING_SECRET not set. The API accepts calls that bypass the console proxy.")
+
 # Ensure upload directory exists
 UPLOAD_DIR = "uploads"
 os.makedirs(UPLOAD_DIR, exist_ok=True)
@@ -155,6 +170,15 @@ def normalize_phenotype_code(phenotype: Optional[str]) -> str:
     }
     return phenotype_map.get(normalized, "Unknown")
 
+VARIANT_RESPONSE_FIELDS = (
+    "rsid", "gene", "allele", "function", "genotype",
+    "chromosome", "position", "ref", "alt", "quality_score", "read_depth", "filter",
+)
+
+def summarize_variant(variant: Dict) -> Dict:
+    """Per-variant fields exposed in detected_variants so clinicians can audit diplotype calls."""
+    return {key: variant.get(key) for key in VARIANT_RESPONSE_FIELDS}
+
 @app.get("/")
 async def root():
     return {
@@ -250,23 +274,117 @@ def detect_bottlenecks(drugs: List[str], variants: List[dict]) -> List[Dict]:
     
     return warnings
 
+def assess_risk(drug: str, variants: List[dict]) -> Dict:
+    """LLM risk assessment, falling back to the deterministic CPIC rules."""
+    try:
+        return get_llm_clinical_risk(drug, variants)
+    except Exception:
+        return get_clinical_risk(variants, drug)
+
+def explain_risk(drug: str, risk: Dict, variants: List[dict]) -> Dict:
+    """LLM explanation for an assessed risk, with a static fallback."""
+    try:
+        explanation = get_explanation(drug, risk.get("phenotype", "Unknown"), variants)
+    except Exception:
+        explanation = {
+            "summary": f"Patient exhibits {risk.get('phenotype', 'Unknown')} phenotype for {drug}.",
+            "mechanism": "LLM explanation temporarily unavailable. Please refer to CPIC guidelines."
+        }
+    return explanation
+
+def build_batch_item(
+    drug: str,
+    risk: Dict,
+    explanation: Dict,
+    variants: List[dict],
+    patient_id: str,
+    timestamp: str,
+    parsing_success: bool,
+    source_file_name: str,
+    source_file_size: int,
+    bottlenecks: List[Dict]
+) -> Dict:
+    """One per-drug object in the shape /analyze/batch (and /analyze/stream) returns."""
+    resolved_recommendation = ensure_recommendation_text(
+        drug=drug,
+        primary=explanation.get("recommendation") if isinstance(explanation, dict) else None,
+        secondary=risk.get("recommendation")
+    )
+    risk["recommendation"] = resolved_recommendation
+
+    confidence_score, confidence_breakdown = compute_hybrid_confidence(
+        variants=variants,
+        cpic_level=risk.get("cpic_level"),
+        risk_label=risk.get("label"),
+        explanation=explanation
+    )
+
+    primary_gene = risk.get("gene")
+    filtered_variants = [
+        summarize_variant(v)
+        for v in variants
+        if primary_gene and v.get("gene") == primary_gene and v.get("rsid")
+    ]
+
+    return {
+        "patient_id": patient_id,
+        "drug": drug,
+        "timestamp": timestamp,
+        "risk_assessment": {
+            "risk_label": risk.get("label"),
+            "confidence_score": confidence_score,
+            "confidence_breakdown": confidence_breakdown,
+            "cpic_level": risk.get("cpic_level"),
+            "severity": risk.get("severity")
+        },
+        "pharmacogenomic_profile": {
+            "primary_gene": primary_gene,
+            "diplotype": risk.get("diplotype"),
+            "phenotype": normalize_phenotype_code(risk.get("phenotype")),
+            "detected_variants": filtered_variants
+        },
+        "clinical_recommendation": {
+            "recommendation_text": resolved_recommendation
+        },
+        "llm_generated_explanation": {
+            "summary": explanation.get("summary", ""),
+            "mechanism": explanation.get("mechanism", "")
+        },
+        "quality_metrics": {
+            "vcf_parsing_success": parsing_success,
+            "total_variants_analyzed": len(variants),
+            "file_name": source_file_name,
+            "file_size_bytes": source_file_size,
+            "confidence_model": confidence_model_config(),
+            "data_retention": "Zero-retention - File purged after processing"
+        },
+        # Bottlenecks this drug takes part in; the list shape stays one object per drug
+        "polypharmacy_warnings": [w for w in bottlenecks if drug in w["competing_drugs"]]
+    }
+
 @app.post("/analyze")
 async def analyze(
     drug: str = Form(...),
     vcf: Optional[UploadFile] = File(None),
     vcf_path: Optional[str] = Form(None),
-    patient_id: Optional[str] = Form(None)
+    patient_id: Optional[str] = Form(None),
+    user: Dict = Depends(current_user)
 ):
     """
     Analyze VCF file for pharmacogenomic risk associated with a specific drug.
     Returns complete JSON schema as required by RIFT 2026.
     """
+    entry = start_entry(user, "/analyze", [drug])
     try:
+        require_role(user, ANALYZE_ROLES)
+
         # Generate patient ID if not provided
         if not patient_id:
             patient_id = f"PATIENT_{uuid.uuid4().hex[:8].upper()}"
 
         file_path, source_file_name, source_file_size, should_cleanup = await resolve_vcf_input(vcf, vcf_path)
+        entry["file_name"] = source_file_name
+        entry["file_sha256"] = file_sha256(file_path)
 
         # Step 1: Parse VCF file
         try:
@@ -324,7 +442,7 @@ async def analyze(
 
         primary_gene = risk.get("gene")
         filtered_variants = [
-            {"rsid": v["rsid"]}
+            summarize_variant(v)
             for v in variants
             if primary_gene and v.get("gene") == primary_gene and v.get("rsid")
         ]
@@ -337,6 +455,8 @@ async def analyze(
             "risk_assessment": {
                 "risk_label": risk.get("label"),
                 "confidence_score": risk.get("confidence_score"),
+                "confidence_breakdown": confidence_breakdown,
+                "cpic_level": risk.get("cpic_level"),
                 "severity": risk.get("severity")
             },
             "pharmacogenomic_profile": {
@@ -362,11 +482,15 @@ async def analyze(
             }
         }
 
+        entry["risk_labels"] = {drug.upper(): risk.get("label")}
+        record_entry(entry, "success", 200)
         return response
 
-    except HTTPException:
+    except HTTPException as e:
+        record_entry(entry, "rejected", e.status_code, str(e.detail))
         raise
     except Exception as e:
+        record_entry(entry, "error", 500, str(e))
         print("CRITICAL ERROR IN API:")
         print(traceback.format_exc())
         return JSONResponse(
@@ -428,13 +552,17 @@ async def analyze_batch(
     drugs: str = Form(...),
     vcf: Optional[UploadFile] = File(None),
     vcf_path: Optional[str] = Form(None),
-    patient_id: Optional[str] = Form(None)
+    patient_id: Optional[str] = Form(None),
+    user: Dict = Depends(current_user)
 ):
     """
     Analyze multiple drugs at once (comma-separated)
     Includes polypharmacy bottleneck detection
     """
+    entry = start_entry(user, "/analyze/batch", drugs.split(','))
     try:
+        require_role(user, ANALYZE_ROLES)
+
         # Parse drug list
         drug_list = [d.strip().upper() for d in drugs.split(',') if d.strip()]
         if not drug_list:
@@ -445,88 +573,40 @@ async def analyze_batch(
             patient_id = f"PATIENT_{uuid.uuid4().hex[:8].upper()}"
 
         file_path, source_file_name, source_file_size, should_cleanup = await resolve_vcf_input(vcf, vcf_path)
+        entry["file_name"] = source_file_name
+        entry["file_sha256"] = file_sha256(file_path)
         try:
             # Parse variants
             try:
                 variants = parse_vcf_file(file_path)
                 parsing_success = True
-                variants_count = len(variants)
             except Exception:
                 variants = []
                 parsing_success = False
-                variants_count = 0
 
             timestamp = datetime.datetime.now(datetime.timezone.utc).isoformat()
             response_items = []
+            bottlenecks = detect_bottlenecks(drug_list, variants)
 
             # Analyze each drug and return strict per-drug schema objects
             for drug in drug_list:
-                try:
-                    risk = get_llm_clinical_risk(drug, variants)
-                except Exception:
-                    risk = get_clinical_risk(variants, drug)
-
-                try:
-                    explanation = get_explanation(drug, risk.get("phenotype", "Unknown"), variants)
-                except Exception:
-                    explanation = {
-                        "summary": f"Patient exhibits {risk.get('phenotype', 'Unknown')} phenotype for {drug}.",
-                        "mechanism": "LLM explanation temporarily unavailable. Please refer to CPIC guidelines."
-                    }
-
-                resolved_recommendation = ensure_recommendation_text(
+                risk = assess_risk(drug, variants)
+                explanation = explain_risk(drug, risk, variants)
+                response_items.append(build_batch_item(
                     drug=drug,
-                    primary=explanation.get("recommendation") if isinstance(explanation, dict) else None,
-                    secondary=risk.get("recommendation")
-                )
-                risk["recommendation"] = resolved_recommendation
-
-                confidence_score, _ = compute_hybrid_confidence(
+                    risk=risk,
+                    explanation=explanation,
                     variants=variants,
-                    cpic_level=risk.get("cpic_level"),
-                    risk_label=risk.get("label"),
-                    explanation=explanation
-                )
-
-                primary_gene = risk.get("gene")
-                filtered_variants = [
-                    {"rsid": v["rsid"]}
-                    for v in variants
-                    if primary_gene and v.get("gene") == primary_gene and v.get("rsid")
-                ]
-
-                response_items.append({
-                    "patient_id": patient_id,
-                    "drug": drug,
-                    "timestamp": timestamp,
-                    "risk_assessment": {
-                        "risk_label": risk.get("label"),
-                        "confidence_score": confidence_score,
-                        "severity": risk.get("severity")
-                    },
-                    "pharmacogenomic_profile": {
-                        "primary_gene": primary_gene,
-                        "diplotype": risk.get("diplotype"),
-                        "phenotype": normalize_phenotype_code(risk.get("phenotype")),
-                        "detected_variants": filtered_variants
-                    },
-                    "clinical_recommendation": {
-                        "recommendation_text": resolved_recommendation
-                    },
-                    "llm_generated_explanation": {
-                        "summary": explanation.get("summary", ""),
-                        "mechanism": explanation.get("mechanism", "")
-                    },
-                    "quality_metrics": {
-                        "vcf_parsing_success": parsing_success,
-                        "total_variants_analyzed": variants_count,
-                        "file_name": source_file_name,
-                        "file_size_bytes": source_file_size,
-                        "confidence_model": confidence_model_config(),
-                        "data_retention": "Zero-retention - File purged after processing"
-                    }
-                })
-
+                    patient_id=patient_id,
+                    timestamp=timestamp,
+                    parsing_success=parsing_success,
+                    source_file_name=source_file_name,
+                    source_file_size=source_file_size,
+                    bottlenecks=bottlenecks
+                ))
+
+            entry["risk_labels"] = {item["drug"]: item["risk_assessment"]["risk_label"] for item in response_items}
+            record_entry(entry, "success", 200)
             return response_items
         finally:
             # Clean up (privacy first!)
@@ -536,11 +616,135 @@ async def analyze_batch(
                 except Exception:
                     pass
         
-    except HTTPException:
+    except HTTPException as e:
+        record_entry(entry, "rejected", e.status_code, str(e.detail))
         raise
     except Exception as e:
+        record_entry(entry, "error", 500, str(e))
         print(traceback.format_exc())
         return JSONResponse(
             status_code=500,
             content={"error": str(e)}
         )
+
+
+def ndjson(event: Dict) -> str:
+    return json.dumps(event) + "\n"
+
+@app.post("/analyze/stream")
+async def analyze_stream(
+    drugs: str = Form(...),
+    vcf: Optional[UploadFile] = File(None),
+    vcf_path: Optional[str] = Form(None),
+    patient_id: Optional[str] = Form(None),
+    user: Dict = Depends(current_user)
+):
+    """
+    Same analysis as /analyze/batch, streamed as NDJSON so the console can show real progress.
+    One JSON object per line:
+      {"event": "stage", "stage": "vcf_parsed" | "genes_identified" | "risk_computed" | "explanation_ready", ...}
+      {"event": "result", "item": {...}}   # same per-drug object /analyze/batch returns
+      {"event": "error", "detail": "..."}
+      {"event": "complete"}
+    Input errors are raised before the stream starts, so they keep their normal HTTP status.
+    """
+    entry = start_entry(user, "/analyze/stream", drugs.split(','))
+    try:
+        require_role(user, ANALYZE_ROLES)
+
+        drug_list = [d.strip().upper() for d in drugs.split(',') if d.strip()]
+        if not drug_list:
+            raise HTTPException(status_code=400, detail="Provide at least one drug in 'drugs'")
+
+        if not patient_id:
+            patient_id = f"PATIENT_{uuid.uuid4().hex[:8].upper()}"
+
+        file_path, source_file_name, source_file_size, should_cleanup = await resolve_vcf_input(vcf, vcf_path)
+    except HTTPException as e:
+        record_entry(entry, "rejected", e.status_code, str(e.detail))
+        raise
+    entry["file_name"] = source_file_name
+    entry["file_sha256"] = file_sha256(file_path)
+
+    async def events():
+        # Anything that stops the generator before "complete" (a disconnect, a cancel) is logged as cancelled.
+        outcome, detail = "cancelled", "Client disconnected before the analysis finished"
+        try:
+            try:
+                variants = await run_in_threadpool(parse_vcf_file, file_path)
+                parsing_success = True
+            except Exception:
+                variants = []
+                parsing_success = False
+            yield ndjson({"event": "stage", "stage": "vcf_parsed", "vcf_parsing_success": parsing_success, "variants_count": len(variants)})
+
+            genes = sorted({v["gene"] for v in variants if v.get("gene")})
+            yield ndjson({"event": "stage", "stage": "genes_identified", "genes": genes})
+
+            timestamp = datetime.datetime.now(datetime.timezone.utc).isoformat()
+            bottlenecks = detect_bottlenecks(drug_list, variants)
+            total = len(drug_list)
+
+            # LLM calls block, so run them off the event loop; a client disconnect cancels the stream here.
+            for index, drug in enumerate(drug_list):
+                risk = await run_in_threadpool(assess_risk, drug, variants)
+                yield ndjson({"event": "stage", "stage": "risk_computed", "drug": drug, "index": index, "total": total, "risk_label": risk.get("label")})
+
+                explanation = await run_in_threadpool(explain_risk, drug, risk, variants)
+                yield ndjson({"event": "stage", "stage": "explanation_ready", "drug": drug, "index": index, "total": total})
+
+                entry["risk_labels"][drug] = risk.get("label")
+                yield ndjson({"event": "result", "item": build_batch_item(
+                    drug=drug,
+                    risk=risk,
+                    explanation=explanation,
+                    variants=variants,
+                    patient_id=patient_id,
+                    timestamp=timestamp,
+                    parsing_success=parsing_success,
+                    source_file_name=source_file_name,
+                    source_file_size=source_file_size,
+                    bottlenecks=bottlenecks
+                )})
+
+            outcome, detail = "success", None
+            yield ndjson({"event": "complete"})
+        except Exception as e:
+            print(traceback.format_exc())
+            outcome, detail = "error", str(e)
+            yield ndjson({"event": "error", "detail": str(e)})
+        finally:
+            record_entry(entry, outcome, 500 if outcome == "error" else 200, detail)
+            # Clean up (privacy first!) - also runs when the client cancels mid-stream
+            if should_cleanup:
+                try:
+                    os.remove(file_path)
+                except Exception:
+                    pass
+
+    return StreamingResponse(events(), media_type="application/x-ndjson")
+
+@app.get("/audit")
+async def audit_log(
+    user_filter: Optional[str] = Query(None, alias="user"),
+    drug: Optional[str] = None,
+    outcome: Optional[str] = None,
+    endpoint: Optional[str] = None,
+    since: Optional[str] = None,
+    until: Optional[str] = None,
+    limit: int = 200,
+    user: Dict = Depends(current_user)
+):
+    """
+    Audit trail of analysis calls, newest first. Auditors only.
+    Filters: user (id or name, substring), drug, outcome, endpoint, since/until (ISO date or timestamp).
+    """
+    require_role(user, AUDIT_ROLES)
+    if outcome and outcome not in OUTCOMES:
+        raise HTTPException(status_code=400, detail=f"outcome must be one of: {', '.join(OUTCOMES)}")
+    return {
+        "entries": query_audit_log(
+            user=user_filter, drug=drug, outcome=outcome, endpoint=endpoint,
+            since=since, until=until, limit=limit
+        )
+    }
@@ -203,8 +203,10 @@ def get_diplotype(variants: List[Dict], gene: str) -> str:
     
     # If we have alleles, return the first two (simplified for hackathon)
     if len(alleles) >= 2:
-        # Sort to ensure consistent representation (*1/*2 not *2/*1)
-        sorted_alleles = sorted(alleles[:2], key=lambda x: (x == "*1", x))
+        # Sort to ensure consistent representation (*1/*2 not *2/*1). The phenotype
+        # tables are written *1-first; before this ordering, heterozygotes came out as
+        # "*4/*1", matched no table and were reported as Unknown.
+        sorted_alleles = sorted(alleles[:2], key=lambda x: (x != "*1", x))
         return f"{sorted_alleles[0]}/{sorted_alleles[1]}"
     
     return "*1/*1"
@@ -0,0 +1,98 @@
+"""
+PharmaGuard proxy request signing
+The Next.js console forwards every browser call through its /api routes and signs it:
+  X-PharmaGuard-Timestamp: unix seconds
+  X-PharmaGuard-Signature: hex HMAC-SHA256(PROXY_SIGNING_SECRET, f"{timestamp}\\n{method}\\n{path_with_query}\\n{sha256_hex(body)}")
+With PROXY_SIGNING_SECRET set, anything unsigned (a browser or script calling the API
+directly) is refused, so the console's rate limits and VCF scrubbing cannot be skipped.
+"""
+
+import hashlib
+import hmac
+import json
+import os
+import time
+
+PROXY_SIGNING_SECRET = os.getenv("PROXY_SIGNING_SECRET", "")
+MAX_CLOCK_SKEW_SECONDS = 300
+# The 5MB VCF limit plus room for the multipart boundaries and the other form fields.
+MAX_BODY_BYTES = 5 * 1024 * 1024 + 64 * 1024
+
+# Health checks and the public capability listing stay reachable without a signature.
+UNSIGNED_PATHS = {"/", "/health"}
+
+def is_signing_configured() -> bool:
+    return bool(PROXY_SIGNING_SECRET)
+
+def expected_signature(timestamp: str, method: str, path: str, body: bytes) -> str:
+    message = f"{timestamp}\n{method}\n{path}\n{hashlib.sha256(body).hexdigest()}"
+    return hmac.new(PROXY_SIGNING_SECRET.encode(), message.encode(), hashlib.sha256).hexdigest()
+
+async def reject(send, status: int, detail: str, code: str):
+    payload = json.dumps({"detail": detail, "code": code}).encode()
+    await send({"type": "http.response.start", "status": status, "headers": [(b"content-type", b"application/json")]})
+    await send({"type": "http.response.body", "body": payload})
+
+class ProxySignatureMiddleware:
+    """
+    ASGI middleware: checks the signature headers, buffers the body up to MAX_BODY_BYTES,
+    verifies the signature over it and replays it. Unsigned or oversized requests are
+    refused before more of the body is read than the cap allows.
+    """
+
+    def __init__(self, app):
+        self.app = app
+
+    async def __call__(self, scope, receive, send):
+        if scope["type"] != "http" or not is_signing_configured() or scope["method"] == "OPTIONS" or scope["path"] in UNSIGNED_PATHS:
+            await self.app(scope, receive, send)
+            return
+
+        headers = {key.decode("latin-1").lower(): value.decode("latin-1") for key, value in scope["headers"]}
+        timestamp = headers.get("x-pharmaguard-timestamp", "")
+        signature = headers.get("x-pharmaguard-signature", "")
+        if not timestamp.isdigit() or abs(time.time() - int(timestamp)) > MAX_CLOCK_SKEW_SECONDS:
+            await reject(send, 401, "Missing or stale request timestamp", "invalid_signature")
+            return
+        if not signature:
+            await reject(send, 401, "Invalid request signature", "invalid_signature")
+            return
+
+        declared = headers.get("content-length", "")
+        if declared.isdigit() and int(declared) > MAX_BODY_BYTES:
+            await reject(send, 413, "File size exceeds 5MB limit", "file_too_large")
+            return
+
+        chunks = []
+        size = 0
+        more = True
+        while more:
+            message = await receive()
+            if message["type"] == "http.disconnect":
+                return
+            chunk = message.get("body", b"")
+            size += len(chunk)
+            if size > MAX_BODY_BYTES:
+                await reject(send, 413, "File size exceeds 5MB limit", "file_too_large")
+                return
+            chunks.append(chunk)
+            more = message.get("more_body", False)
+        body = b"".join(chunks)
+
+        query = scope.get("query_string", b"").decode("latin-1")
+        path = scope["path"] + (f"?{query}" if query else "")
+        if not hmac.compare_digest(expected_signature(timestamp, scope["method"], path, body), signature):
+            await reject(send, 401, "Invalid request signature", "invalid_signature")
+            return
+
+        replayed = False
+
+        async def replay():
+            nonlocal replayed
+            if not replayed:
+                replayed = True
+                return {"type": "http.request", "body": body, "more_body": False}
+            # After the body, keep listening for disconnects so streamed analyses can be cancelled.
+            return await receive()
+
+        await self.app(scope, replay, send)
@@ -0,0 +1,57 @@
+"""
+Test diplotype calling from VCF rows through to the drug risk
+"""
+
+import os
+import tempfile
+
+from engine import get_clinical_risk
+from parser import get_diplotype, get_phenotype, parse_vcf_file
+
+HEADER = "##fileformat=VCFv4.2\n#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAMPLE\n"
+
+
+def parse_rows(*rows):
+    """Write the rows under a minimal header and parse them like an upload"""
+    with tempfile.NamedTemporaryFile("w", suffix=".vcf", delete=False) as f:
+        f.write(HEADER + "".join(rows))
+    try:
+        return parse_vcf_file(f.name)
+    finally:
+        os.remove(f.name)
+
+
+def test_heterozygote_is_reference_first():
+    """A CYP2D6 *1/*4 carrier is an intermediate metabolizer, not Unknown"""
+    variants = parse_rows("22\t42524947\trs3892097\tC\tT\t100\tPASS\tGENE=CYP2D6\tGT\t0/1\n")
+
+    assert get_diplotype(variants, "CYP2D6") == "*1/*4"
+    assert get_phenotype("CYP2D6", "*1/*4") == "IM"
+
+    risk = get_clinical_risk(variants, "CODEINE")
+    assert risk["diplotype"] == "*1/*4"
+    assert risk["phenotype"] == "IM"
+    assert risk["label"] == "Safe"
+
+
+def test_heterozygote_risk_uses_the_phenotype():
+    """A CYP2C19 *1/*2 carrier is flagged for clopidogrel as an IM"""
+    variants = parse_rows("10\t94761900\trs4244285\tG\tA\t100\tPASS\tGENE=CYP2C19\tGT\t1/0\n")
+
+    risk = get_clinical_risk(variants, "CLOPIDOGREL")
+    assert risk["diplotype"] == "*1/*2"
+    assert risk["phenotype"] == "IM"
+    assert risk["label"] == "Ineffective"
+
+
+def test_homozygous_calls_are_unchanged():
+    """Homozygous variant and reference calls keep their diplotype"""
+    assert get_diplotype(parse_rows("22\t42524947\trs3892097\tC\tT\t100\tPASS\t.\tGT\t1/1\n"), "CYP2D6") == "*4/*4"
+    assert get_diplotype(parse_rows("22\t42524947\trs3892097\tC\tT\t100\tPASS\t.\tGT\t0/0\n"), "CYP2D6") == "*1/*1"
+
+
+if __name__ == "__main__":
+    test_heterozygote_is_reference_first()
+    test_heterozygote_risk_uses_the_phenotype()
+    test_homozygous_calls_are_unchanged()
+    print("✅ Diplotype tests passed")